@@ -0,0 +1,190 @@
+import { Command, Option } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import bulkCheckController from '../controllers/bulk-check.controller.js';
+import { BulkCheckProgress } from '../types/bulk-check.types.js';
+import { formatDuration } from '../utils/formatter.util.js';
+import { DomainListFormat, collectDomains } from '../utils/domain-list.util.js';
+
+/**
+ * Options of the bulk-check command
+ */
+interface BulkCheckCommandOptions {
+	input?: string;
+	inputFormat?: DomainListFormat;
+	column?: string;
+	journal?: string;
+	retryFailed?: boolean;
+	cache: boolean;
+	progress: boolean;
+}
+
+/**
+ * Create a progress printer for stderr. On a terminal the status line is redrawn at most once a second;
+ * otherwise (e.g. output redirected to a log file) a line is written every ten seconds.
+ * @returns The progress callback, and a function that ends the status line
+ */
+function createProgressPrinter() {
+	const isTTY = process.stderr.isTTY;
+	const intervalMs = isTTY ? 1000 : 10000;
+	let lastPrintedAt = 0;
+	let drawn = false;
+
+	const print = (progress: BulkCheckProgress) => {
+		const now = Date.now();
+		if (
+			now - lastPrintedAt < intervalMs &&
+			progress.completed < progress.total
+		) {
+			return;
+		}
+		lastPrintedAt = now;
+		const line = `[${progress.completed.toLocaleString('en-US')}/${progress.total.toLocaleString('en-US')}] ${progress.ratePerSecond.toFixed(1)}/s, ETA ${progress.etaSeconds !== undefined ? formatDuration(progress.etaSeconds) : 'unknown'}`;
+		if (isTTY) {
+			process.stderr.write(`\r\x1b[K${line}`);
+			drawn = true;
+		} else {
+			console.error(line);
+		}
+	};
+
+	const end = () => {
+		if (drawn) {
+			process.stderr.write('\n');
+			drawn = false;
+		}
+	};
+
+	return { print, end };
+}
+
+/**
+ * Register bulk check CLI commands
+ * @param program The Commander program instance
+ */
+function register(program: Command) {
+	const cliLogger = Logger.forContext('cli/bulk-check.cli.ts', 'register');
+	cliLogger.debug(`Registering bulk check CLI commands...`);
+
+	program
+		.command('bulk-check')
+		.description(
+			'Check a large list of domains, journaling each result as it finishes. Re-running with the same journal resumes where the last run stopped. Prints a JSON summary when done.',
+		)
+		.argument(
+			'[domains...]',
+			'Domain names to check (optional with --input)',
+		)
+		.option(
+			'-i, --input <file>',
+			'Read domain names from a file, or from stdin with "-"',
+		)
+		.addOption(
+			new Option(
+				'--input-format <format>',
+				'Format of the --input list (default: from the file extension, else json if it starts with "[", else text)',
+			).choices(['text', 'csv', 'json']),
+		)
+		.option(
+			'--column <name|number>',
+			'CSV column (header name or 1-based number) or JSON object key holding the domain',
+		)
+		.option(
+			'-j, --journal <file>',
+			'NDJSON journal results are appended to and resumed from (default: <input>.journal.ndjson)',
+		)
+		.option(
+			'--retry-failed',
+			'Check domains whose journaled lookup failed again',
+		)
+		.option(
+			'--no-cache',
+			'Ignore cached results and query WHOIS/RDAP again',
+		)
+		.option('--no-progress', 'Do not print throughput and ETA to stderr')
+		.action(async (domains: string[], options: BulkCheckCommandOptions) => {
+			const commandLogger = Logger.forContext(
+				'cli/bulk-check.cli.ts',
+				'bulk-check',
+			);
+			try {
+				commandLogger.debug(`CLI bulk-check called`, {
+					domains,
+					options,
+				});
+
+				const journalPath =
+					options.journal ??
+					(options.input && options.input !== '-'
+						? `${options.input}.journal.ndjson`
+						: undefined);
+				if (!journalPath) {
+					console.error(
+						'Error: Please provide a journal file with --journal when not reading from an input file.',
+					);
+					process.exit(1);
+				}
+
+				const { entries, duplicates } = await collectDomains(
+					domains,
+					options.input,
+					{ format: options.inputFormat, column: options.column },
+				);
+				if (entries.length === 0) {
+					commandLogger.error('No domain names provided.');
+					console.error(
+						'Error: Please provide at least one domain name.',
+					);
+					process.exit(1);
+				}
+				if (duplicates > 0) {
+					commandLogger.info(
+						`Removed ${duplicates} duplicate domains`,
+					);
+				}
+
+				// The first Ctrl-C stops the run (finished results are already journaled) and prints
+				// the summary; a second one exits immediately.
+				const abortController = new AbortController();
+				const progressPrinter = createProgressPrinter();
+				const onSigint = () => {
+					if (abortController.signal.aborted) {
+						process.exit(130);
+					}
+					progressPrinter.end();
+					console.error(
+						'Stopping; re-run the same command to resume (press Ctrl-C again to exit immediately)...',
+					);
+					abortController.abort();
+				};
+				process.on('SIGINT', onSigint);
+
+				let result;
+				try {
+					result = await bulkCheckController.run(entries, {
+						journalPath,
+						retryFailed: options.retryFailed,
+						fresh: !options.cache,
+						onProgress: options.progress
+							? progressPrinter.print
+							: undefined,
+						signal: abortController.signal,
+					});
+				} finally {
+					progressPrinter.end();
+					process.off('SIGINT', onSigint);
+				}
+
+				console.log(result.content);
+				if (abortController.signal.aborted) {
+					process.exitCode = 130;
+				}
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	cliLogger.debug('Bulk check CLI commands registered successfully');
+}
+
+export default { register };
@@ -0,0 +1,59 @@
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import cacheController from '../controllers/cache.controller.js';
+
+/**
+ * Register cache CLI commands
+ * @param program The Commander program instance
+ */
+function register(program: Command) {
+	const cliLogger = Logger.forContext('cli/cache.cli.ts', 'register');
+	cliLogger.debug(`Registering cache CLI commands...`);
+
+	const cache = program
+		.command('cache')
+		.description('Inspect or clear the availability result cache.');
+
+	cache
+		.command('clear')
+		.description(
+			'Remove every cached availability result, including the persisted cache file.',
+		)
+		.action(async () => {
+			const commandLogger = Logger.forContext(
+				'cli/cache.cli.ts',
+				'cache clear',
+			);
+			try {
+				commandLogger.debug(`CLI cache clear called`);
+				const result = await cacheController.clear();
+				console.log(result.content);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	cache
+		.command('stats')
+		.description(
+			'Show cache entry counts, hit/miss counters and the configured TTLs.',
+		)
+		.action(async () => {
+			const commandLogger = Logger.forContext(
+				'cli/cache.cli.ts',
+				'cache stats',
+			);
+			try {
+				commandLogger.debug(`CLI cache stats called`);
+				const result = await cacheController.stats();
+				console.log(result.content);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	cliLogger.debug('Cache CLI commands registered successfully');
+}
+
+export default { register };
@@ -1,7 +1,110 @@
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { handleCliError } from '../utils/error.util.js';
 import domainAvailabilityController from '../controllers/domain-availability.controller.js';
+import {
+	AvailabilityOutputFormat,
+	DomainCheckProgress,
+} from '../tools/domain-availability.types.js';
+import { formatNdjson } from '../utils/formatter.util.js';
+import { DomainListFormat, collectDomains } from '../utils/domain-list.util.js';
+import { isDomainPattern } from '../utils/domain-pattern.util.js';
+import { formatPriceEstimate } from '../utils/tld-pricing.util.js';
+
+/**
+ * Options of the check-domain-availability command
+ */
+interface CheckCommandOptions {
+	cache: boolean;
+	progress: boolean;
+	format: AvailabilityOutputFormat;
+	input?: string;
+	inputFormat?: DomainListFormat;
+	column?: string;
+	digits: boolean;
+	hyphens: boolean;
+	shape?: string;
+	dryRun?: boolean;
+	explain?: boolean;
+	pricing?: boolean;
+	maxPrice?: number;
+	deadline?: number;
+}
+
+/**
+ * Parse a price option value
+ * @param value Raw option value
+ * @returns The price
+ */
+function parsePrice(value: string): number {
+	const parsed = Number(value);
+	if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) {
+		throw new InvalidArgumentError('Must be a non-negative number.');
+	}
+	return parsed;
+}
+
+/**
+ * Parse a deadline option value
+ * @param value Raw option value, in seconds
+ * @returns The deadline in seconds
+ */
+function parseDeadline(value: string): number {
+	const parsed = Number(value);
+	if (value.trim() === '' || !Number.isFinite(parsed) || parsed <= 0) {
+		throw new InvalidArgumentError('Must be a positive number of seconds.');
+	}
+	return parsed;
+}
+
+/**
+ * Print one result as an NDJSON line on stdout, as soon as its lookup finishes
+ * @param progress Progress reported by the controller
+ */
+function printNdjsonRow({
+	domain,
+	status,
+	errorType,
+	message,
+	unicode,
+	confidence,
+	evidence,
+	price,
+	line,
+}: DomainCheckProgress) {
+	console.log(
+		formatNdjson([
+			{
+				domain,
+				status,
+				errorType,
+				message,
+				unicode,
+				confidence,
+				evidence,
+				price,
+				line,
+			},
+		]),
+	);
+}
+
+/**
+ * Print one line of progress to stderr
+ * @param progress Progress reported by the controller
+ */
+function printProgress(progress: DomainCheckProgress) {
+	const detail = progress.message
+		? ` (${progress.message})`
+		: progress.confidence && progress.confidence !== 'high'
+			? ` (${progress.confidence} confidence)`
+			: progress.price
+				? ` (${formatPriceEstimate(progress.price)})`
+				: '';
+	console.error(
+		`[${progress.completed}/${progress.total}] ${progress.domain}: ${progress.status}${detail}`,
+	);
+}
 
 /**
  * Register Domain Availability CLI commands
@@ -17,10 +120,74 @@ function register(program: Command) {
 	program
 		.command('check-domain-availability')
 		.description(
-			'Check the availability of one or more domain names using WHOIS lookups.',
+			'Check the availability of one or more domain names using WHOIS lookups. Domains whose lookup could not be completed are listed under "failed".',
 		)
-		.argument('<domains...>', 'One or more domain names to check')
-		.action(async (domains: string[]) => {
+		.argument(
+			'[domains...]',
+			'One or more domain names or patterns to check (optional with --input). Patterns such as "[a-z]{3}.io", "go??.dev", "{get,try}acme.com" or "acme[0-9].ai" are expanded, up to PATTERN_MAX_DOMAINS domains',
+		)
+		.option(
+			'-i, --input <file>',
+			'Read domain names from a file, or from stdin with "-". Duplicates are removed and each result keeps its input line number',
+		)
+		.addOption(
+			new Option(
+				'--input-format <format>',
+				'Format of the --input list (default: from the file extension, else json if it starts with "[", else text)',
+			).choices(['text', 'csv', 'json']),
+		)
+		.option(
+			'--column <name|number>',
+			'CSV column (header name or 1-based number) or JSON object key holding the domain (default: "domain", else the first column)',
+		)
+		.option('--no-digits', 'Drop pattern-expanded names containing digits')
+		.option(
+			'--no-hyphens',
+			'Drop pattern-expanded names containing hyphens',
+		)
+		.option(
+			'--shape <shape>',
+			'Keep pattern-expanded names of this shape: C = consonant, V = vowel, D = digit, ? = anything (e.g. CVCV)',
+		)
+		.option(
+			'--dry-run',
+			'Only report how many domains the patterns expand to, with a sample, without checking them',
+		)
+		.option(
+			'--explain',
+			'Show the evidence behind each verdict: the rule that fired, the server that answered and an excerpt of its response',
+		)
+		.option(
+			'--pricing',
+			'Show the estimated first-year and renewal cost of each available domain, from the TLD pricing catalog',
+		)
+		.option(
+			'--max-price <amount>',
+			'Leave out available domains estimated to cost more than this in their first year (catalog currency, USD by default; implies --pricing)',
+			parsePrice,
+		)
+		.option(
+			'--deadline <seconds>',
+			'Give up on lookups still running after this many seconds and report them as failed (default: LOOKUP_DEADLINE)',
+			parseDeadline,
+		)
+		.option(
+			'--no-cache',
+			'Ignore cached results and query WHOIS/RDAP again',
+		)
+		.option(
+			'--no-progress',
+			'Do not print per-domain progress to stderr (only printed when stderr is a terminal)',
+		)
+		.addOption(
+			new Option(
+				'-f, --format <format>',
+				'Output format; ndjson prints each result as soon as its lookup finishes',
+			)
+				.choices(['json', 'ndjson', 'table', 'csv', 'markdown'])
+				.default('json'),
+		)
+		.action(async (domains: string[], options: CheckCommandOptions) => {
 			const commandLogger = Logger.forContext(
 				'cli/domain-availability.cli.ts',
 				'check-domain-availability',
@@ -28,19 +195,98 @@ function register(program: Command) {
 			try {
 				commandLogger.debug(`CLI check-domain-availability called`, {
 					domains,
+					options,
 				});
 
-				if (!domains || domains.length === 0) {
+				// Arguments using pattern syntax are expanded by the controller
+				const patterns = domains.filter(isDomainPattern);
+				const { entries, duplicates } = await collectDomains(
+					domains.filter((domain) => !isDomainPattern(domain)),
+					options.input,
+					{ format: options.inputFormat, column: options.column },
+				);
+
+				if (entries.length === 0 && patterns.length === 0) {
 					commandLogger.error('No domain names provided.');
-					console.error('Error: Please provide at least one domain name.');
+					console.error(
+						'Error: Please provide at least one domain name or pattern.',
+					);
 					process.exit(1);
 				}
+				if (duplicates > 0) {
+					commandLogger.info(
+						`Removed ${duplicates} duplicate domains`,
+					);
+				}
 
-				const result = await domainAvailabilityController.check(domains);
+				// Domains read from a list keep their line number in the output
+				const lineNumbers = options.input
+					? Object.fromEntries(
+							entries
+								.filter((entry) => entry.line !== undefined)
+								.map((entry) => [
+									entry.domain,
+									entry.line as number,
+								]),
+						)
+					: undefined;
+
+				// The first Ctrl-C cancels the remaining lookups and prints the partial result;
+				// a second one exits immediately.
+				const abortController = new AbortController();
+				const onSigint = () => {
+					if (abortController.signal.aborted) {
+						process.exit(130);
+					}
+					console.error(
+						'Cancelling remaining lookups (press Ctrl-C again to exit immediately)...',
+					);
+					abortController.abort();
+				};
+				process.on('SIGINT', onSigint);
+
+				let result;
+				try {
+					result = await domainAvailabilityController.check(
+						entries.map((entry) => entry.domain),
+						{
+							fresh: !options.cache,
+							format: options.format,
+							// ndjson streams rows to stdout; other formats report progress on stderr
+							// so stdout only carries the final output
+							onResult:
+								options.format === 'ndjson'
+									? printNdjsonRow
+									: options.progress && process.stderr.isTTY
+										? printProgress
+										: undefined,
+							signal: abortController.signal,
+							lineNumbers,
+							patterns,
+							filters: {
+								noDigits: !options.digits,
+								noHyphens: !options.hyphens,
+								shape: options.shape,
+							},
+							dryRun: options.dryRun,
+							explain: options.explain,
+							includePricing: options.pricing,
+							maxPrice: options.maxPrice,
+							deadline: options.deadline,
+						},
+					);
+				} finally {
+					process.off('SIGINT', onSigint);
+				}
 
 				commandLogger.debug(`Domain availability check completed.`);
-				// Output the JSON result directly to the console
-				console.log(result.content);
+				// In ndjson mode only the rows that were not streamed (cancelled domains) remain
+				if (result.content) {
+					console.log(result.content);
+				}
+				if (abortController.signal.aborted) {
+					process.exitCode = 130;
+				}
 			} catch (error) {
 				// Use the standard CLI error handler
 				handleCliError(error);
@@ -50,4 +296,4 @@ function register(program: Command) {
 	cliLogger.debug('Domain availability CLI commands registered successfully');
 }
 
-export default { register };
\ No newline at end of file
+export default { register };
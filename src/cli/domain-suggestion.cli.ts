@@ -0,0 +1,122 @@
+import { Command, InvalidArgumentError } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import domainSuggestionController from '../controllers/domain-suggestion.controller.js';
+
+/**
+ * Options of the suggest-domains command
+ */
+interface SuggestCommandOptions {
+	tld?: string[];
+	maxLookups?: number;
+	limit?: number;
+	cache: boolean;
+	pricing?: boolean;
+}
+
+/**
+ * Parse a positive integer option value
+ * @param value Raw option value
+ * @returns The integer
+ */
+function parsePositiveInteger(value: string): number {
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 1) {
+		throw new InvalidArgumentError('Must be a positive integer.');
+	}
+	return parsed;
+}
+
+/**
+ * Register domain suggestion CLI commands
+ * @param program The Commander program instance
+ */
+function register(program: Command) {
+	const cliLogger = Logger.forContext(
+		'cli/domain-suggestion.cli.ts',
+		'register',
+	);
+	cliLogger.debug(`Registering domain suggestion CLI commands...`);
+
+	program
+		.command('suggest-domains')
+		.description(
+			'Generate domain names from keywords (prefixes/suffixes, compounds, plurals, vowel dropping and TLD hacks), check the best candidates and print the available ones, best first, as JSON.',
+		)
+		.argument(
+			'<keywords...>',
+			'Seed keywords describing the product or idea',
+		)
+		.option(
+			'--tld <tlds...>',
+			'TLDs to generate names on, most preferred first (default: com io dev app co)',
+		)
+		.option(
+			'--max-lookups <n>',
+			'Maximum number of candidates to check (default: SUGGEST_MAX_LOOKUPS or 50)',
+			parsePositiveInteger,
+		)
+		.option(
+			'-l, --limit <n>',
+			'Maximum number of available names to print (default: 10)',
+			parsePositiveInteger,
+		)
+		.option(
+			'--pricing',
+			'Add the estimated first-year and renewal cost of each suggestion, from the TLD pricing catalog',
+		)
+		.option(
+			'--no-cache',
+			'Ignore cached results and query WHOIS/RDAP again',
+		)
+		.action(async (keywords: string[], options: SuggestCommandOptions) => {
+			const commandLogger = Logger.forContext(
+				'cli/domain-suggestion.cli.ts',
+				'suggest-domains',
+			);
+			try {
+				commandLogger.debug(`CLI suggest-domains called`, {
+					keywords,
+					options,
+				});
+
+				// Ctrl-C stops the remaining lookups and prints the names found so far
+				const abortController = new AbortController();
+				const onSigint = () => {
+					if (abortController.signal.aborted) {
+						process.exit(130);
+					}
+					abortController.abort();
+				};
+				process.on('SIGINT', onSigint);
+
+				let result;
+				try {
+					result = await domainSuggestionController.suggest(
+						keywords,
+						{
+							tlds: options.tld,
+							maxLookups: options.maxLookups,
+							limit: options.limit,
+							fresh: !options.cache,
+							includePricing: options.pricing,
+							signal: abortController.signal,
+						},
+					);
+				} finally {
+					process.off('SIGINT', onSigint);
+				}
+
+				console.log(result.content);
+				if (abortController.signal.aborted) {
+					process.exitCode = 130;
+				}
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	cliLogger.debug('Domain suggestion CLI commands registered successfully');
+}
+
+export default { register };
@@ -0,0 +1,43 @@
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import domainValidationController from '../controllers/domain-validation.controller.js';
+
+/**
+ * Register domain validation CLI commands
+ * @param program The Commander program instance
+ */
+function register(program: Command) {
+	const cliLogger = Logger.forContext(
+		'cli/domain-validation.cli.ts',
+		'register',
+	);
+	cliLogger.debug(`Registering domain validation CLI commands...`);
+
+	program
+		.command('validate-domains')
+		.description(
+			'Check domain names against syntax rules and registry policies (label length, hyphens, IDN tables, reserved names, existing TLDs) without any WHOIS lookup, and print one verdict per name as JSON.',
+		)
+		.argument('<domains...>', 'One or more domain names to validate')
+		.action(async (domains: string[]) => {
+			const commandLogger = Logger.forContext(
+				'cli/domain-validation.cli.ts',
+				'validate-domains',
+			);
+			try {
+				commandLogger.debug(`CLI validate-domains called`, {
+					domains,
+				});
+				const result =
+					await domainValidationController.validate(domains);
+				console.log(result.content);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	cliLogger.debug('Domain validation CLI commands registered successfully');
+}
+
+export default { register };
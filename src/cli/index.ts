@@ -2,11 +2,19 @@ import { Command } from 'commander';
 import { Logger } from '../utils/logger.util.js';
 import { VERSION, CLI_NAME } from '../utils/constants.util.js';
 
+import bulkCheckCli from './bulk-check.cli.js';
+import cacheCli from './cache.cli.js';
 import domainAvailabilityCli from './domain-availability.cli.js';
+import domainSuggestionCli from './domain-suggestion.cli.js';
+import domainValidationCli from './domain-validation.cli.js';
+import labelSweepCli from './label-sweep.cli.js';
+import rdapCli from './rdap.cli.js';
+import serveCli from './serve.cli.js';
+import whoisRecordCli from './whois-record.cli.js';
 
 /**
-	* CLI entry point for the Whodis MCP Server
-	* Handles command registration, parsing, and execution for domain availability checks.
+ * CLI entry point for the Whodis MCP Server
+ * Handles command registration, parsing, and execution for domain availability checks.
  */
 
 // Package description
@@ -16,7 +24,7 @@ const DESCRIPTION =
 /**
  * Run the CLI with the provided arguments
  *
- * @param args Command line arguments to process
+ * @param args Command line arguments to process, as in `process.argv`
  * @returns Promise that resolves when CLI command execution completes
  */
 export async function runCli(args: string[]) {
@@ -29,23 +37,40 @@ export async function runCli(args: string[]) {
 
 	// Register CLI commands
 	cliLogger.debug('Registering CLI commands...');
+	serveCli.register(program);
 	domainAvailabilityCli.register(program);
+	bulkCheckCli.register(program);
+	labelSweepCli.register(program);
+	domainSuggestionCli.register(program);
+	domainValidationCli.register(program);
+	whoisRecordCli.register(program);
+	rdapCli.register(program);
+	cacheCli.register(program);
 	cliLogger.debug('CLI commands registered successfully');
 
-	// Handle unknown commands
-	program.on('command:*', (operands) => {
-		cliLogger.error(`Unknown command: ${operands[0]}`);
+	// Handle unknown commands. `serve` is the default command, so commander would pass an unknown
+	// command to it as an extra argument ("too many arguments for 'serve'") instead of reporting it.
+	const commandName = args[2];
+	const commandNames = program.commands.flatMap((command) => [
+		command.name(),
+		...command.aliases(),
+	]);
+	if (
+		commandName &&
+		!commandName.startsWith('-') &&
+		commandName !== 'help' &&
+		!commandNames.includes(commandName)
+	) {
+		cliLogger.error(`Unknown command: ${commandName}`);
 		console.error(
-			`\nError: Unknown command '${operands[0]}'. See --help for available commands.\n`,
+			`\nError: Unknown command '${commandName}'. See --help for available commands.\n`,
 		);
 		program.outputHelp(); // Show help automatically
 		process.exit(1);
-	});
+	}
 
-	// Parse arguments; default to help if no command provided
+	// Parse arguments (node executable and script path first); `serve` runs when no command is given
 	cliLogger.debug('Parsing CLI arguments');
-	// Ensure '--help' is added if no arguments or only the script name is present
-	const argsToParse = args.length > 2 ? args : [...args, '--help'];
-	await program.parseAsync(argsToParse, { from: 'user' });
+	await program.parseAsync(args, { from: 'node' });
 	cliLogger.debug('CLI command execution completed');
-}
\ No newline at end of file
+}
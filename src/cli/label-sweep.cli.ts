@@ -0,0 +1,122 @@
+import { Command, Option } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import labelSweepController from '../controllers/label-sweep.controller.js';
+import { DomainCheckProgress } from '../tools/domain-availability.types.js';
+import { LabelSweepOutputFormat } from '../tools/label-sweep.types.js';
+import { listTldPresets } from '../utils/tld-presets.util.js';
+
+/**
+ * Options of the check-label-across-tlds command
+ */
+interface SweepCommandOptions {
+	tld?: string[];
+	cache: boolean;
+	progress: boolean;
+	format: LabelSweepOutputFormat;
+	pricing?: boolean;
+}
+
+/**
+ * Print one line of progress to stderr
+ * @param progress Progress reported by the controller
+ */
+function printProgress(progress: DomainCheckProgress) {
+	console.error(
+		`[${progress.completed}/${progress.total}] ${progress.domain}: ${progress.status}`,
+	);
+}
+
+/**
+ * Register label sweep CLI commands
+ * @param program The Commander program instance
+ */
+function register(program: Command) {
+	const cliLogger = Logger.forContext('cli/label-sweep.cli.ts', 'register');
+	cliLogger.debug(`Registering label sweep CLI commands...`);
+
+	program
+		.command('check-label-across-tlds')
+		.description(
+			'Check one or more names (without a TLD) on a set of TLDs and print a label × TLD grid of which domains are free.',
+		)
+		.argument('<labels...>', 'Names to check, e.g. "acme"')
+		.option(
+			'-t, --tld <tlds...>',
+			`TLDs and/or presets to check the labels on (default: popular). Presets: ${listTldPresets().join(', ')}`,
+		)
+		.option(
+			'--pricing',
+			'List the estimated first-year and renewal cost of each available domain, from the TLD pricing catalog',
+		)
+		.option(
+			'--no-cache',
+			'Ignore cached results and query WHOIS/RDAP again',
+		)
+		.option(
+			'--no-progress',
+			'Do not print per-domain progress to stderr (only printed when stderr is a terminal)',
+		)
+		.addOption(
+			new Option('-f, --format <format>', 'Output format')
+				.choices(['table', 'json'])
+				.default('table'),
+		)
+		.action(async (labels: string[], options: SweepCommandOptions) => {
+			const commandLogger = Logger.forContext(
+				'cli/label-sweep.cli.ts',
+				'check-label-across-tlds',
+			);
+			try {
+				commandLogger.debug(`CLI check-label-across-tlds called`, {
+					labels,
+					options,
+				});
+
+				// The first Ctrl-C cancels the remaining lookups and prints the partial grid;
+				// a second one exits immediately.
+				const abortController = new AbortController();
+				const onSigint = () => {
+					if (abortController.signal.aborted) {
+						process.exit(130);
+					}
+					console.error(
+						'Cancelling remaining lookups (press Ctrl-C again to exit immediately)...',
+					);
+					abortController.abort();
+				};
+				process.on('SIGINT', onSigint);
+
+				let result;
+				try {
+					result = await labelSweepController.check(
+						labels,
+						options.tld,
+						{
+							fresh: !options.cache,
+							format: options.format,
+							onResult:
+								options.progress && process.stderr.isTTY
+									? printProgress
+									: undefined,
+							signal: abortController.signal,
+							includePricing: options.pricing,
+						},
+					);
+				} finally {
+					process.off('SIGINT', onSigint);
+				}
+
+				console.log(result.content);
+				if (abortController.signal.aborted) {
+					process.exitCode = 130;
+				}
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	cliLogger.debug('Label sweep CLI commands registered successfully');
+}
+
+export default { register };
@@ -0,0 +1,36 @@
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import rdapController from '../controllers/rdap.controller.js';
+
+/**
+ * Register RDAP CLI commands
+ * @param program The Commander program instance
+ */
+function register(program: Command) {
+	const cliLogger = Logger.forContext('cli/rdap.cli.ts', 'register');
+	cliLogger.debug(`Registering RDAP CLI commands...`);
+
+	program
+		.command('refresh-rdap-bootstrap')
+		.description(
+			'Download the latest IANA RDAP bootstrap registry and use it instead of the bundled copy.',
+		)
+		.action(async () => {
+			const commandLogger = Logger.forContext(
+				'cli/rdap.cli.ts',
+				'refresh-rdap-bootstrap',
+			);
+			try {
+				commandLogger.debug(`CLI refresh-rdap-bootstrap called`);
+				const result = await rdapController.refreshBootstrap();
+				console.log(result.content);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	cliLogger.debug('RDAP CLI commands registered successfully');
+}
+
+export default { register };
@@ -0,0 +1,80 @@
+import http from 'http';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import { startServer, TransportMode } from '../server.js';
+
+/**
+ * Register the serve CLI command
+ * @param program The Commander program instance
+ */
+function register(program: Command) {
+	const cliLogger = Logger.forContext('cli/serve.cli.ts', 'register');
+	cliLogger.debug(`Registering serve CLI command...`);
+
+	program
+		.command('serve', { isDefault: true })
+		.description(
+			'Start the MCP server. Runs over stdio by default (and when no command is given); use --transport http for a shared Streamable HTTP server with one session per client.',
+		)
+		.addOption(
+			new Option('-t, --transport <transport>', 'Transport to serve over')
+				.choices(['stdio', 'http', 'sse'])
+				.default('stdio'),
+		)
+		.option(
+			'--host <host>',
+			'Interface to bind the http/sse transports to (default: MCP_HTTP_HOST or 127.0.0.1)',
+		)
+		.option(
+			'-p, --port <port>',
+			'Port for the http/sse transports (default: MCP_HTTP_PORT or 8080)',
+			(value: string) => {
+				const port = Number(value);
+				if (!Number.isInteger(port) || port < 0 || port > 65535) {
+					throw new InvalidArgumentError(
+						'Must be an integer between 0 and 65535.',
+					);
+				}
+				return port;
+			},
+		)
+		.action(
+			async (options: {
+				transport: TransportMode;
+				host?: string;
+				port?: number;
+			}) => {
+				const commandLogger = Logger.forContext(
+					'cli/serve.cli.ts',
+					'serve',
+				);
+				try {
+					commandLogger.debug(`CLI serve called`, options);
+					const server = await startServer(options.transport, {
+						host: options.host,
+						port: options.port,
+					});
+
+					if (server instanceof http.Server) {
+						// Stop accepting connections and close every session on shutdown
+						const shutdown = (signal: string) => {
+							commandLogger.info(
+								`Received ${signal}, shutting down`,
+							);
+							server.close(() => process.exit(0));
+							server.closeAllConnections();
+						};
+						process.once('SIGINT', shutdown);
+						process.once('SIGTERM', shutdown);
+					}
+				} catch (error) {
+					handleCliError(error);
+				}
+			},
+		);
+
+	cliLogger.debug('Serve CLI command registered successfully');
+}
+
+export default { register };
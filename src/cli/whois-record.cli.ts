@@ -0,0 +1,40 @@
+import { Command } from 'commander';
+import { Logger } from '../utils/logger.util.js';
+import { handleCliError } from '../utils/error.util.js';
+import whoisRecordController from '../controllers/whois-record.controller.js';
+
+/**
+ * Register WHOIS record CLI commands
+ * @param program The Commander program instance
+ */
+function register(program: Command) {
+	const cliLogger = Logger.forContext('cli/whois-record.cli.ts', 'register');
+	cliLogger.debug(`Registering WHOIS record CLI commands...`);
+
+	program
+		.command('get-whois-record')
+		.description(
+			'Retrieve the normalized WHOIS registration record of a domain name.',
+		)
+		.argument('<domain>', 'The domain name to look up')
+		.action(async (domain: string) => {
+			const commandLogger = Logger.forContext(
+				'cli/whois-record.cli.ts',
+				'get-whois-record',
+			);
+			try {
+				commandLogger.debug(`CLI get-whois-record called`, { domain });
+
+				const result = await whoisRecordController.get(domain);
+
+				commandLogger.debug(`WHOIS record retrieved.`);
+				console.log(result.content);
+			} catch (error) {
+				handleCliError(error);
+			}
+		});
+
+	cliLogger.debug('WHOIS record CLI commands registered successfully');
+}
+
+export default { register };
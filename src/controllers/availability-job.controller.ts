@@ -0,0 +1,165 @@
+import availabilityJobService from '../services/availability-job.service.js';
+import { Logger } from '../utils/logger.util.js';
+import {
+	ControllerResponse,
+	PaginationOptions,
+} from '../types/common.types.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { createApiError } from '../utils/error.util.js';
+import {
+	PaginationType,
+	extractPaginationInfo,
+} from '../utils/pagination.util.js';
+
+const controllerLogger = Logger.forContext(
+	'controllers/availability-job.controller.ts',
+);
+
+/**
+ * Results per page when no limit is given
+ */
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * @namespace AvailabilityJobController
+ * @description Controller for background availability check jobs.
+ */
+
+/**
+ * Parse a pagination cursor: the index of the next result, as returned in `nextCursor`.
+ * @param cursor The cursor, if any
+ * @returns Index of the first result to return
+ */
+function parseCursor(cursor?: string): number {
+	if (cursor === undefined) {
+		return 0;
+	}
+	if (!/^\d+$/.test(cursor)) {
+		throw createApiError(
+			`The pagination cursor "${cursor}" is invalid; pass the nextCursor of the previous response`,
+			400,
+		);
+	}
+	return Number(cursor);
+}
+
+/**
+ * Starts a background availability check.
+ *
+ * @function start
+ * @memberof AvailabilityJobController
+ * @param {string[]} domains - The domain names to check.
+ * @param {{ fresh?: boolean }} [options] - `fresh` bypasses the result cache.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the new job (ID, status and counts) as JSON.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function start(
+	domains: string[],
+	options: { fresh?: boolean } = {},
+): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('start');
+	methodLogger.debug(
+		`Starting availability job for ${domains.length} domains.`,
+	);
+
+	try {
+		const job = availabilityJobService.start(domains, options);
+		return {
+			content: JSON.stringify(job, null, 2),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Availability Job',
+			operation: 'starting',
+			source: 'controllers/availability-job.controller.ts@start',
+			additionalInfo: { domainCount: domains.length },
+		});
+	}
+}
+
+/**
+ * Gets a job's status and counts, with a page of its results in completion order.
+ * While the job is running, `hasMore` stays true; a page may be empty until more lookups finish.
+ *
+ * @function get
+ * @memberof AvailabilityJobController
+ * @param {string} jobId - The job ID.
+ * @param {PaginationOptions} [options] - `limit` (default 25) and the `cursor` from the previous page.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the job, its results and the pagination information as JSON.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function get(
+	jobId: string,
+	options: PaginationOptions = {},
+): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('get');
+	methodLogger.debug(`Getting availability job ${jobId}.`, options);
+
+	try {
+		const page = availabilityJobService.get(
+			jobId,
+			parseCursor(options.cursor),
+			options.limit ?? DEFAULT_PAGE_SIZE,
+		);
+		// Offset pagination over the results; a running job counts every domain as a result to come
+		const pagination = extractPaginationInfo(
+			{
+				startAt: page.startAt,
+				maxResults: page.results.length,
+				total:
+					page.job.status === 'running'
+						? page.job.total
+						: page.resultCount,
+				values: page.results,
+			},
+			PaginationType.OFFSET,
+			'controllers/availability-job.controller.ts@get',
+		);
+
+		return {
+			content: JSON.stringify(
+				{ ...page.job, results: page.results, pagination },
+				null,
+				2,
+			),
+			pagination,
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Availability Job',
+			entityId: jobId,
+			operation: 'retrieving',
+			source: 'controllers/availability-job.controller.ts@get',
+		});
+	}
+}
+
+/**
+ * Cancels a running job, keeping the results recorded so far.
+ *
+ * @function cancel
+ * @memberof AvailabilityJobController
+ * @param {string} jobId - The job ID.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the stopped job as JSON.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function cancel(jobId: string): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('cancel');
+	methodLogger.debug(`Cancelling availability job ${jobId}.`);
+
+	try {
+		const job = await availabilityJobService.cancel(jobId);
+		return {
+			content: JSON.stringify(job, null, 2),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Availability Job',
+			entityId: jobId,
+			operation: 'cancelling',
+			source: 'controllers/availability-job.controller.ts@cancel',
+		});
+	}
+}
+
+export default { start, get, cancel };
@@ -0,0 +1,64 @@
+import bulkCheckService from '../services/bulk-check.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { DomainListEntry } from '../utils/domain-list.util.js';
+import { BulkCheckOptions } from '../types/bulk-check.types.js';
+
+const controllerLogger = Logger.forContext(
+	'controllers/bulk-check.controller.ts',
+);
+
+/**
+ * @namespace BulkCheckController
+ * @description Controller for resumable bulk availability checks.
+ */
+
+/**
+ * Runs a bulk check and returns its summary.
+ *
+ * @function run
+ * @memberof BulkCheckController
+ * @param {DomainListEntry[]} entries - Domains to check, with their input line numbers.
+ * @param {BulkCheckOptions} options - Journal path and check options, passed to the service.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the summary as JSON.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function run(
+	entries: DomainListEntry[],
+	options: BulkCheckOptions,
+): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('run');
+	methodLogger.debug(`Starting bulk check of ${entries.length} domains.`, {
+		journal: options.journalPath,
+	});
+
+	try {
+		const summary = await bulkCheckService.run(entries, options);
+		return {
+			content: JSON.stringify(
+				{
+					...summary,
+					elapsedSeconds:
+						Math.round(summary.elapsedSeconds * 10) / 10,
+					ratePerSecond:
+						Math.round(summary.ratePerSecond * 100) / 100,
+				},
+				null,
+				2,
+			),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Bulk Check',
+			operation: 'running',
+			source: 'controllers/bulk-check.controller.ts@run',
+			additionalInfo: {
+				domainCount: entries.length,
+				journal: options.journalPath,
+			},
+		});
+	}
+}
+
+export default { run };
@@ -0,0 +1,66 @@
+import availabilityCacheService from '../services/availability-cache.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+
+const controllerLogger = Logger.forContext('controllers/cache.controller.ts');
+
+/**
+ * @namespace CacheController
+ * @description Controller for inspecting and clearing the availability result cache.
+ */
+
+/**
+ * Clears the availability cache, in memory and on disk.
+ *
+ * @function clear
+ * @memberof CacheController
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response reporting how many entries were removed as JSON.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function clear(): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('clear');
+	methodLogger.debug('Clearing availability cache.');
+
+	try {
+		const removed = availabilityCacheService.clear();
+		methodLogger.debug('Availability cache cleared.', { removed });
+		return {
+			content: JSON.stringify({ removed }, null, 2),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Availability Cache',
+			operation: 'clearing',
+			source: 'controllers/cache.controller.ts@clear',
+		});
+	}
+}
+
+/**
+ * Reports availability cache statistics.
+ *
+ * @function stats
+ * @memberof CacheController
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the cache statistics as JSON.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function stats(): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('stats');
+	methodLogger.debug('Reading availability cache statistics.');
+
+	try {
+		const cacheStats = availabilityCacheService.stats();
+		return {
+			content: JSON.stringify(cacheStats, null, 2),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Availability Cache',
+			operation: 'reading statistics for',
+			source: 'controllers/cache.controller.ts@stats',
+		});
+	}
+}
+
+export default { clear, stats };
@@ -1,8 +1,32 @@
 import domainAvailabilityService from '../services/domain-availability.service.js';
+import domainPatternService from '../services/domain-pattern.service.js';
 import { Logger } from '../utils/logger.util.js';
+import { createApiError } from '../utils/error.util.js';
+import { normalizeDomainNames } from '../utils/domain-name.util.js';
+import {
+	CATALOG_CURRENCY,
+	estimateDomainPrice,
+	formatPriceEstimate,
+	getPricingCatalog,
+} from '../utils/tld-pricing.util.js';
 import { ControllerResponse } from '../types/common.types.js';
 import { handleControllerError } from '../utils/error-handler.util.js';
-import { DomainAvailabilityResult } from '../tools/domain-availability.types.js';
+import {
+	formatBulletList,
+	formatCsv,
+	formatHeading,
+	formatMarkdownTable,
+	formatNdjson,
+	formatTable,
+} from '../utils/formatter.util.js';
+import {
+	AvailabilityOutputFormat,
+	CheckDomainAvailabilityControllerOptions,
+	DomainAvailabilityResult,
+	DomainCheckDryRun,
+	DomainResultRow,
+	VerdictEvidence,
+} from '../tools/domain-availability.types.js';
 
 const controllerLogger = Logger.forContext(
 	'controllers/domain-availability.controller.ts',
@@ -13,27 +37,420 @@ const controllerLogger = Logger.forContext(
  * @description Controller for handling domain availability checks.
  */
 
+/**
+ * Column headers of the tabular formats
+ */
+const TABLE_HEADERS = ['Domain', 'Status', 'Confidence', 'Detail'];
+
+/**
+ * Describe a row's evidence in one line for the tabular formats.
+ * @param evidence The evidence, if any
+ * @returns e.g. "whois.verisign-grs.com: com.available /^No match for/im | No match for "X.COM"."
+ */
+function formatEvidence(evidence?: VerdictEvidence): string {
+	if (!evidence) {
+		return '';
+	}
+	const origin = [
+		evidence.server ?? evidence.source,
+		evidence.rule,
+		evidence.cachedAt && `cached ${evidence.cachedAt}`,
+	]
+		.filter(Boolean)
+		.join(': ');
+	return evidence.excerpt
+		? `${origin} | ${evidence.excerpt.replace(/\s*\n\s*/g, ' ')}`
+		: origin;
+}
+
+/**
+ * Map each internationalized domain of the result to its Unicode form.
+ * @param result The result
+ * @returns Unicode form by ASCII domain
+ */
+function getUnicodeForms(
+	result: DomainAvailabilityResult,
+): Record<string, string> {
+	return Object.fromEntries(
+		(result.normalized ?? [])
+			.filter((entry) => entry.unicode)
+			.map((entry) => [entry.domain, entry.unicode as string]),
+	);
+}
+
+/**
+ * Flatten the result buckets into one row per domain, in input order.
+ * @param domains The domains as requested (invalid inputs as given)
+ * @param result The service result
+ * @param lineNumbers Input line number per domain, if the domains were read from a list
+ * @returns One row per requested domain
+ */
+function toRows(
+	domains: string[],
+	result: DomainAvailabilityResult,
+	lineNumbers?: Record<string, number>,
+): DomainResultRow[] {
+	const rows = new Map<string, DomainResultRow>();
+	for (const domain of result.available) {
+		rows.set(domain, { domain, status: 'available' });
+	}
+	for (const domain of result.unavailable) {
+		rows.set(domain, { domain, status: 'unavailable' });
+	}
+	for (const failure of result.failed) {
+		rows.set(failure.domain, { ...failure, status: 'failed' });
+	}
+	for (const domain of result.cancelled ?? []) {
+		rows.set(domain, { domain, status: 'cancelled' });
+	}
+	for (const { input, message } of result.invalid ?? []) {
+		rows.set(input, { domain: input, status: 'invalid', message });
+	}
+	for (const { domain, message } of result.reserved ?? []) {
+		rows.set(domain, { domain, status: 'reserved', message });
+	}
+	for (const { domain, message } of result.premium ?? []) {
+		rows.set(domain, { domain, status: 'premium', message });
+	}
+	const unicodeForms = getUnicodeForms(result);
+	return domains
+		.map((domain) => rows.get(domain))
+		.filter((row): row is DomainResultRow => row !== undefined)
+		.map((row) => ({
+			...row,
+			...(unicodeForms[row.domain] && {
+				unicode: unicodeForms[row.domain],
+			}),
+			...(result.confidence?.[row.domain] && {
+				confidence: result.confidence[row.domain],
+			}),
+			...(result.evidence?.[row.domain] && {
+				evidence: result.evidence[row.domain],
+			}),
+			...(result.pricing?.[row.domain] && {
+				price: result.pricing[row.domain],
+			}),
+			...(lineNumbers?.[row.domain] !== undefined && {
+				line: lineNumbers[row.domain],
+			}),
+		}));
+}
+
+/**
+ * Render the result in the requested output format.
+ * @param format Output format
+ * @param domains The domains as requested
+ * @param result The service result
+ * @param streamed Domains whose rows were already delivered through onResult (ndjson only)
+ * @param lineNumbers Input line number per domain, shown as an extra column/field when given
+ * @param explain Add an Evidence column to the tabular formats (the result carries evidence only when set)
+ * @param includePricing Add a Price column to the tabular formats
+ * @returns Formatted content
+ */
+function formatResult(
+	format: AvailabilityOutputFormat,
+	domains: string[],
+	result: DomainAvailabilityResult,
+	streamed: Set<string>,
+	lineNumbers?: Record<string, number>,
+	explain?: boolean,
+	includePricing?: boolean,
+): string {
+	if (format === 'json') {
+		return JSON.stringify(
+			lineNumbers ? { ...result, lines: lineNumbers } : result,
+			null,
+			2,
+		);
+	}
+
+	const rows = toRows(domains, result, lineNumbers);
+	if (format === 'ndjson') {
+		return formatNdjson(rows.filter((row) => !streamed.has(row.domain)));
+	}
+
+	const headers = [
+		...(lineNumbers ? ['Line'] : []),
+		...TABLE_HEADERS,
+		...(includePricing ? ['Price'] : []),
+		...(explain ? ['Evidence'] : []),
+	];
+	const cells = rows.map((row) => [
+		...(lineNumbers ? [row.line?.toString() ?? ''] : []),
+		row.unicode ? `${row.domain} (${row.unicode})` : row.domain,
+		row.status,
+		row.confidence ?? '',
+		row.message ?? '',
+		...(includePricing ? [formatPriceEstimate(row.price)] : []),
+		...(explain ? [formatEvidence(row.evidence)] : []),
+	]);
+	switch (format) {
+		case 'table':
+			return formatTable(headers, cells);
+		case 'csv':
+			return formatCsv(headers, cells);
+		case 'markdown':
+			return [
+				formatHeading('Domain Availability'),
+				'',
+				formatBulletList({
+					Available: result.available.length,
+					Unavailable: result.unavailable.length,
+					Failed: result.failed.length,
+					Cancelled: result.cancelled?.length,
+					Invalid: result.invalid?.length,
+					Reserved: result.reserved?.length,
+					Premium: result.premium?.length,
+					'Over budget': result.overBudget?.length,
+					Unpriced: result.unpriced?.length,
+				}),
+				'',
+				formatMarkdownTable(headers, cells),
+			].join('\n');
+	}
+}
+
+/**
+ * Render a dry run in the requested output format.
+ * @param format Output format
+ * @param dryRun The pattern expansion report
+ * @returns Formatted content
+ */
+function formatDryRun(
+	format: AvailabilityOutputFormat,
+	dryRun: DomainCheckDryRun,
+): string {
+	if (format === 'json') {
+		return JSON.stringify(dryRun, null, 2);
+	}
+	if (format === 'ndjson') {
+		return formatNdjson(dryRun.patterns);
+	}
+
+	const headers = ['Pattern', 'Total', 'Matching', 'Sample'];
+	const cells = dryRun.patterns.map((preview) => [
+		preview.pattern,
+		preview.total.toString(),
+		preview.matching?.toString() ?? 'too many to enumerate',
+		preview.sample.join(' '),
+	]);
+	switch (format) {
+		case 'table':
+			return formatTable(headers, cells);
+		case 'csv':
+			return formatCsv(headers, cells);
+		case 'markdown':
+			return [
+				formatHeading('Pattern Expansion (dry run)'),
+				'',
+				formatBulletList({
+					'Domains to check': dryRun.domains ?? 'unknown',
+					'Pattern domain cap': dryRun.maxPatternDomains,
+				}),
+				'',
+				formatMarkdownTable(headers, cells),
+			].join('\n');
+	}
+}
+
 /**
  * Checks domain availability and returns a formatted response.
  *
  * @function check
  * @memberof DomainAvailabilityController
  * @param {string[]} domains - An array of domain names.
- * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the availability results as JSON.
+ * @param {CheckDomainAvailabilityControllerOptions} [options] - Check options; `fresh` bypasses the result cache, `onResult` receives per-domain progress from the service, `signal` cancels the check, `format` selects the output format and `lineNumbers` adds each domain's input line to the output. `patterns` (narrowed by `filters`) add more domains to check, and `dryRun` reports their expansion instead of checking anything. `explain` adds the evidence behind each verdict, `includePricing` the estimated cost of each available domain, and `maxPrice` leaves out available domains estimated to cost more in their first year.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the available, unavailable and failed domains (JSON by default).
  * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
  */
-async function check(domains: string[]): Promise<ControllerResponse> {
+async function check(
+	domains: string[],
+	options: CheckDomainAvailabilityControllerOptions = {},
+): Promise<ControllerResponse> {
 	const methodLogger = controllerLogger.forMethod('check');
 	methodLogger.debug(`Checking availability for ${domains.length} domains.`);
 
 	try {
+		const {
+			format = 'json',
+			onResult,
+			lineNumbers,
+			patterns = [],
+			filters,
+			dryRun,
+			explain,
+			includePricing,
+			maxPrice,
+			...serviceOptions
+		} = options;
+
+		if (dryRun) {
+			return {
+				content: formatDryRun(
+					format,
+					domainPatternService.preview(patterns, filters, domains),
+				),
+			};
+		}
+
+		// Pattern-expanded domains are checked after the literal ones
+		const allDomains =
+			patterns.length > 0
+				? [
+						...new Set([
+							...domains,
+							...domainPatternService.expand(patterns, filters),
+						]),
+					]
+				: domains;
+		if (allDomains.length === 0) {
+			throw createApiError(
+				'At least one domain name or pattern is required',
+				400,
+			);
+		}
+
+		// URLs, emails, subdomains and IDNs become registrable ASCII domains; inputs that are
+		// not domain names are reported under `invalid` instead of failing the whole check
+		const normalization = normalizeDomainNames(allDomains);
+		const lines = lineNumbers
+			? normalization.items.reduce<Record<string, number>>(
+					(map, item) => {
+						const key = item.valid ? item.domain : item.input;
+						const line = lineNumbers[item.input];
+						if (line !== undefined && map[key] === undefined) {
+							map[key] = line;
+						}
+						return map;
+					},
+					{},
+				)
+			: undefined;
+		const unicodeForms = Object.fromEntries(
+			normalization.normalized
+				.filter((entry) => entry.unicode)
+				.map((entry) => [entry.domain, entry.unicode]),
+		);
+
+		// Available domains are priced from the catalog. With maxPrice, those over it are left out of
+		// the output, and so are those that cannot be compared with it: no estimate, or an estimate
+		// in another currency than the catalog's
+		const withPricing = includePricing || maxPrice !== undefined;
+		const catalog = withPricing ? getPricingCatalog() : undefined;
+		const priceOf = (domain: string) =>
+			catalog && estimateDomainPrice(domain, catalog);
+		const budgetExclusion = (
+			domain: string,
+		): 'overBudget' | 'unpriced' | undefined => {
+			if (maxPrice === undefined) {
+				return undefined;
+			}
+			const price = priceOf(domain);
+			if (!price || price.currency !== CATALOG_CURRENCY) {
+				return 'unpriced';
+			}
+			return price.firstYear > maxPrice ? 'overBudget' : undefined;
+		};
+
+		// Remember which rows the caller has already received, so ndjson output does not repeat them
+		const streamed = new Set<string>();
 		const availabilityResult: DomainAvailabilityResult =
-			await domainAvailabilityService.check(domains);
+			await domainAvailabilityService.check(normalization.domains, {
+				...serviceOptions,
+				onResult: onResult
+					? ({ evidence, ...progress }) => {
+							const price =
+								progress.status === 'available'
+									? priceOf(progress.domain)
+									: undefined;
+							if (
+								progress.status === 'available' &&
+								budgetExclusion(progress.domain)
+							) {
+								return;
+							}
+							streamed.add(progress.domain);
+							const line = lines?.[progress.domain];
+							const unicode = unicodeForms[progress.domain];
+							onResult({
+								...progress,
+								...(unicode && { unicode }),
+								...(line !== undefined && { line }),
+								...(explain && evidence && { evidence }),
+								...(price && { price }),
+							});
+						}
+					: undefined,
+			});
+		if (!explain) {
+			delete availabilityResult.evidence;
+		}
+		if (withPricing) {
+			const excluded = {
+				overBudget: [] as string[],
+				unpriced: [] as string[],
+			};
+			availabilityResult.available = availabilityResult.available.filter(
+				(domain) => {
+					const exclusion = budgetExclusion(domain);
+					if (exclusion) {
+						excluded[exclusion].push(domain);
+					}
+					return !exclusion;
+				},
+			);
+			if (excluded.overBudget.length > 0) {
+				availabilityResult.overBudget = excluded.overBudget;
+			}
+			if (excluded.unpriced.length > 0) {
+				availabilityResult.unpriced = excluded.unpriced;
+			}
+			availabilityResult.pricing = Object.fromEntries(
+				availabilityResult.available.flatMap((domain) => {
+					const price = priceOf(domain);
+					return price ? [[domain, price]] : [];
+				}),
+			);
+		}
+		if (normalization.normalized.length > 0) {
+			availabilityResult.normalized = normalization.normalized;
+		}
+		// Inputs that are not domain names come first, then the names their registry's policy rules out
+		const invalid = [
+			...normalization.invalid,
+			...(availabilityResult.invalid ?? []),
+		];
+		if (invalid.length > 0) {
+			availabilityResult.invalid = invalid;
+		}
 
-		// Format the result as a JSON string for the response content
-		const formattedContent = JSON.stringify(availabilityResult, null, 2);
+		const formattedContent = formatResult(
+			format,
+			[
+				...new Set(
+					normalization.items.map((item) =>
+						item.valid ? item.domain : item.input,
+					),
+				),
+			],
+			availabilityResult,
+			streamed,
+			lines,
+			explain,
+			withPricing,
+		);
 
-		methodLogger.debug('Domain availability check successful.');
+		methodLogger.debug('Domain availability check successful.', {
+			available: availabilityResult.available.length,
+			unavailable: availabilityResult.unavailable.length,
+			failed: availabilityResult.failed.length,
+			cancelled: availabilityResult.cancelled?.length ?? 0,
+			invalid: invalid.length,
+			reserved: availabilityResult.reserved?.length ?? 0,
+			premium: availabilityResult.premium?.length ?? 0,
+			overBudget: availabilityResult.overBudget?.length ?? 0,
+			unpriced: availabilityResult.unpriced?.length ?? 0,
+		});
 		return {
 			content: formattedContent,
 			// No pagination needed for this operation
@@ -41,15 +458,19 @@ async function check(domains: string[]): Promise<ControllerResponse> {
 	} catch (error) {
 		// Use the standardized error handler
 		// `handleControllerError` throws the error, so we don't need to return here in the catch block.
-        // However, the function signature requires a return type, so TS might complain.
-        // Let's explicitly return the result of handleControllerError which throws.
+		// However, the function signature requires a return type, so TS might complain.
+		// Let's explicitly return the result of handleControllerError which throws.
 		return handleControllerError(error, {
 			entityType: 'Domain Availability',
 			operation: 'checking',
 			source: 'controllers/domain-availability.controller.ts@check',
-			additionalInfo: { domainCount: domains.length },
+			additionalInfo: {
+				domainCount: domains.length,
+				patterns: options.patterns,
+				fresh: options.fresh ?? false,
+			},
 		});
 	}
 }
 
-export default { check };
\ No newline at end of file
+export default { check };
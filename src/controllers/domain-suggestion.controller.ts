@@ -0,0 +1,54 @@
+import domainSuggestionService from '../services/domain-suggestion.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { SuggestDomainsOptions } from '../tools/domain-suggestion.types.js';
+
+const controllerLogger = Logger.forContext(
+	'controllers/domain-suggestion.controller.ts',
+);
+
+/**
+ * @namespace DomainSuggestionController
+ * @description Controller for suggesting available domain names from keywords.
+ */
+
+/**
+ * Suggests available domain names and returns them as JSON.
+ *
+ * @function suggest
+ * @memberof DomainSuggestionController
+ * @param {string[]} keywords - Seed keywords.
+ * @param {SuggestDomainsOptions} [options] - TLDs, lookup cap, result limit, `fresh`, `includePricing` and a cancellation `signal`.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the ranked suggestions and lookup counts as JSON.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function suggest(
+	keywords: string[],
+	options: SuggestDomainsOptions = {},
+): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('suggest');
+	methodLogger.debug(`Suggesting domains for ${keywords.length} keywords.`, {
+		keywords,
+	});
+
+	try {
+		const result = await domainSuggestionService.suggest(keywords, options);
+		methodLogger.debug('Domain suggestion successful.', {
+			suggestions: result.suggestions.length,
+			checked: result.checked,
+		});
+		return {
+			content: JSON.stringify(result, null, 2),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Domain Suggestions',
+			operation: 'generating',
+			source: 'controllers/domain-suggestion.controller.ts@suggest',
+			additionalInfo: { keywords, tlds: options.tlds },
+		});
+	}
+}
+
+export default { suggest };
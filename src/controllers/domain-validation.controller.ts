@@ -0,0 +1,43 @@
+import domainValidationService from '../services/domain-validation.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+
+const controllerLogger = Logger.forContext(
+	'controllers/domain-validation.controller.ts',
+);
+
+/**
+ * @namespace DomainValidationController
+ * @description Controller for validating domain names against registry policies.
+ */
+
+/**
+ * Validates domain names and returns the verdicts as JSON.
+ *
+ * @function validate
+ * @memberof DomainValidationController
+ * @param {string[]} domains - Domain names, hostnames, URLs or email addresses.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing one verdict per input and the count of each verdict.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function validate(domains: string[]): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('validate');
+	methodLogger.debug(`Validating ${domains.length} domains.`);
+
+	try {
+		const result = domainValidationService.validate(domains);
+		return {
+			content: JSON.stringify(result, null, 2),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Domain Validation',
+			operation: 'validating',
+			source: 'controllers/domain-validation.controller.ts@validate',
+			additionalInfo: { domainCount: domains.length },
+		});
+	}
+}
+
+export default { validate };
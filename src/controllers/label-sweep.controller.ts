@@ -0,0 +1,138 @@
+import labelSweepService from '../services/label-sweep.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { formatTable } from '../utils/formatter.util.js';
+import { formatPriceEstimate } from '../utils/tld-pricing.util.js';
+import { DomainResultRow } from '../tools/domain-availability.types.js';
+import {
+	LabelSweepControllerOptions,
+	LabelSweepResult,
+} from '../tools/label-sweep.types.js';
+
+const controllerLogger = Logger.forContext(
+	'controllers/label-sweep.controller.ts',
+);
+
+/**
+ * @namespace LabelSweepController
+ * @description Controller for checking labels across many TLDs.
+ */
+
+/**
+ * Grid cell text of each status, kept short so wide grids stay readable
+ */
+const CELL_TEXT: Record<DomainResultRow['status'], string> = {
+	available: 'free',
+	unavailable: 'taken',
+	failed: 'error',
+	cancelled: '-',
+	invalid: 'invalid',
+	reserved: 'reserved',
+	premium: 'premium',
+};
+
+/**
+ * Grids with more TLDs than this are printed with one row per TLD instead of one row per label
+ */
+const MAX_TLD_COLUMNS = 8;
+
+/**
+ * Render the grid as a plain-text table, followed by the estimated prices and the failed lookups.
+ * @param result The service result
+ * @returns Formatted table
+ */
+function formatGrid(result: LabelSweepResult): string {
+	const { labels, tlds, matrix } = result;
+	const table =
+		tlds.length > MAX_TLD_COLUMNS
+			? formatTable(
+					['TLD', ...labels],
+					tlds.map((tld) => [
+						`.${tld}`,
+						...labels.map((label) => CELL_TEXT[matrix[label][tld]]),
+					]),
+				)
+			: formatTable(
+					['Label', ...tlds.map((tld) => `.${tld}`)],
+					labels.map((label) => [
+						label,
+						...tlds.map((tld) => CELL_TEXT[matrix[label][tld]]),
+					]),
+				);
+
+	const prices = Object.entries(result.pricing ?? {});
+	return [
+		table,
+		...(prices.length > 0
+			? [
+					'',
+					'Estimated prices:',
+					...prices.map(
+						([domain, estimate]) =>
+							`  ${domain}: ${formatPriceEstimate(estimate)}`,
+					),
+				]
+			: []),
+		...(result.failed.length > 0
+			? [
+					'',
+					'Failed lookups:',
+					...result.failed.map(
+						(failure) => `  ${failure.domain}: ${failure.message}`,
+					),
+				]
+			: []),
+	].join('\n');
+}
+
+/**
+ * Checks labels across TLDs and returns the grid in the requested format.
+ *
+ * @function check
+ * @memberof LabelSweepController
+ * @param {string[]} labels - Names without a TLD.
+ * @param {string[]} [tlds] - TLDs and preset names (default: the "popular" preset).
+ * @param {LabelSweepControllerOptions} [options] - `fresh`, `onResult`, `signal` and `includePricing` are passed to the service; `format` selects 'json' (default) or 'table'.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the label × TLD grid.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function check(
+	labels: string[],
+	tlds?: string[],
+	options: LabelSweepControllerOptions = {},
+): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('check');
+	methodLogger.debug(`Checking ${labels.length} labels across TLDs.`, {
+		labels,
+		tlds,
+	});
+
+	try {
+		const { format = 'json', ...serviceOptions } = options;
+		const result = await labelSweepService.check(
+			labels,
+			tlds,
+			serviceOptions,
+		);
+		methodLogger.debug('Label sweep successful.', {
+			domains: result.labels.length * result.tlds.length,
+			failed: result.failed.length,
+		});
+		return {
+			content:
+				format === 'table'
+					? formatGrid(result)
+					: JSON.stringify(result, null, 2),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'Label Sweep',
+			operation: 'checking',
+			source: 'controllers/label-sweep.controller.ts@check',
+			additionalInfo: { labels, tlds, fresh: options.fresh ?? false },
+		});
+	}
+}
+
+export default { check };
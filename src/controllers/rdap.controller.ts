@@ -0,0 +1,54 @@
+import rdapService from '../services/rdap.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+
+const controllerLogger = Logger.forContext('controllers/rdap.controller.ts');
+
+/**
+ * @namespace RdapController
+ * @description Controller for managing the RDAP bootstrap registry.
+ */
+
+/**
+ * Refreshes the RDAP bootstrap registry from IANA and reports what was loaded.
+ *
+ * @function refreshBootstrap
+ * @memberof RdapController
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response summarizing the refreshed registry as JSON.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function refreshBootstrap(): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('refreshBootstrap');
+	methodLogger.debug('Refreshing RDAP bootstrap registry.');
+
+	try {
+		const bootstrap = await rdapService.refreshBootstrap();
+		const tldCount = bootstrap.services.reduce(
+			(count, [tlds]) => count + tlds.length,
+			0,
+		);
+
+		methodLogger.debug('RDAP bootstrap registry refreshed.', { tldCount });
+		return {
+			content: JSON.stringify(
+				{
+					publication: bootstrap.publication,
+					version: bootstrap.version,
+					services: bootstrap.services.length,
+					tlds: tldCount,
+				},
+				null,
+				2,
+			),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'RDAP Bootstrap Registry',
+			operation: 'refreshing',
+			source: 'controllers/rdap.controller.ts@refreshBootstrap',
+		});
+	}
+}
+
+export default { refreshBootstrap };
@@ -0,0 +1,77 @@
+import tldService from '../services/tld.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { ControllerResponse } from '../types/common.types.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import { formatBulletList, formatHeading } from '../utils/formatter.util.js';
+import { TldInfo } from '../types/tld.types.js';
+
+const controllerLogger = Logger.forContext('controllers/tld.controller.ts');
+
+/**
+ * @namespace TldController
+ * @description Controller for retrieving and formatting TLD registry information.
+ */
+
+/**
+ * Format TLD registry information as Markdown.
+ * @param info The TLD information
+ * @returns Markdown content
+ */
+function formatTldInfo(info: TldInfo): string {
+	const lines: string[] = [formatHeading(`TLD: .${info.tld}`)];
+
+	lines.push(
+		'',
+		formatBulletList({
+			Registry: info.organisation,
+			Status: info.status,
+			'WHOIS Server': info.whoisServer ?? 'None',
+			'RDAP Server': info.rdapServer ?? 'None',
+			DNSSEC: info.dnssec ? 'Signed' : 'Unsigned',
+			Delegated: info.created,
+			'Last Changed': info.changed,
+			'Registration Info': info.remarks,
+		}),
+	);
+
+	lines.push('', formatHeading('Name Servers', 2), '');
+	lines.push(
+		info.nameServers.length > 0
+			? info.nameServers.map((ns) => `- ${ns}`).join('\n')
+			: 'No name servers reported.',
+	);
+
+	return lines.join('\n');
+}
+
+/**
+ * Retrieves a TLD's registry information and returns it formatted as Markdown.
+ *
+ * @function get
+ * @memberof TldController
+ * @param {string} tld - The TLD, with or without a leading dot.
+ * @returns {Promise<ControllerResponse>} A promise resolving to the standard controller response containing the formatted TLD information.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function get(tld: string): Promise<ControllerResponse> {
+	const methodLogger = controllerLogger.forMethod('get');
+	methodLogger.debug(`Retrieving TLD info for ${tld}.`);
+
+	try {
+		const info = await tldService.get(tld);
+
+		methodLogger.debug('TLD info retrieved.');
+		return {
+			content: formatTldInfo(info),
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'TLD',
+			entityId: tld,
+			operation: 'retrieving',
+			source: 'controllers/tld.controller.ts@get',
+		});
+	}
+}
+
+export default { get };
@@ -0,0 +1,142 @@
+import whoisRecordService from '../services/whois-record.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { handleControllerError } from '../utils/error-handler.util.js';
+import {
+	formatBulletList,
+	formatDate,
+	formatHeading,
+	formatRelativeTime,
+} from '../utils/formatter.util.js';
+import {
+	WhoisRecord,
+	WhoisRecordField,
+	WhoisRecordResponse,
+} from '../tools/whois-record.types.js';
+
+const controllerLogger = Logger.forContext(
+	'controllers/whois-record.controller.ts',
+);
+
+/**
+ * Display labels for record fields, in output order.
+ */
+const FIELD_LABELS: Record<WhoisRecordField, string> = {
+	registrar: 'Registrar',
+	registrantOrganization: 'Registrant Organization',
+	createdDate: 'Created',
+	updatedDate: 'Updated',
+	expiryDate: 'Expires',
+	statuses: 'Status',
+	nameServers: 'Name Servers',
+	dnssec: 'DNSSEC',
+};
+
+/**
+ * @namespace WhoisRecordController
+ * @description Controller for retrieving and formatting WHOIS registration records.
+ */
+
+/**
+ * Format a record date with its relative age.
+ * @param value ISO date (or raw text if the registry's format was not parseable)
+ * @returns Formatted date, or undefined if the field is missing
+ */
+function formatRecordDate(value?: string): string | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const formatted = formatDate(value);
+	if (formatted === 'Invalid date') {
+		return value;
+	}
+	// formatRelativeTime only describes the past, so future (expiry) dates are shown as-is
+	return new Date(value).getTime() <= Date.now()
+		? `${formatted} (${formatRelativeTime(value)})`
+		: formatted;
+}
+
+/**
+ * Format a normalized WHOIS record as Markdown.
+ * @param record The normalized record
+ * @returns Markdown content
+ */
+function formatRecord(record: WhoisRecord): string {
+	const lines: string[] = [formatHeading(`WHOIS Record: ${record.domain}`)];
+
+	lines.push(
+		'',
+		formatBulletList({
+			Registrar: record.registrar,
+			'Registrant Organization':
+				record.registrantOrganization ?? 'Redacted or not available',
+			Created: formatRecordDate(record.createdDate),
+			Updated: formatRecordDate(record.updatedDate),
+			Expires: formatRecordDate(record.expiryDate),
+			DNSSEC: record.dnssec,
+		}),
+	);
+
+	lines.push('', formatHeading('Status', 2), '');
+	lines.push(
+		record.statuses.length > 0
+			? record.statuses.map((status) => `- ${status}`).join('\n')
+			: 'No status codes reported.',
+	);
+
+	lines.push('', formatHeading('Name Servers', 2), '');
+	lines.push(
+		record.nameServers.length > 0
+			? record.nameServers.map((ns) => `- ${ns}`).join('\n')
+			: 'No name servers reported.',
+	);
+
+	lines.push('', formatHeading('Sources', 2), '');
+	lines.push(`Follow chain: ${record.servers.join(' → ')}`);
+	if (record.failedServers?.length) {
+		lines.push(`Failed over from: ${record.failedServers.join(', ')}`);
+	}
+	lines.push('');
+	const sources: Record<string, string> = {};
+	for (const [field, label] of Object.entries(FIELD_LABELS)) {
+		const servers = record.fieldSources[field as WhoisRecordField];
+		if (servers && servers.length > 0) {
+			sources[label] = servers.join(', ');
+		}
+	}
+	lines.push(formatBulletList(sources));
+
+	return lines.join('\n');
+}
+
+/**
+ * Retrieves a domain's WHOIS record and returns it formatted as Markdown, along with the record itself.
+ *
+ * @function get
+ * @memberof WhoisRecordController
+ * @param {string} domain - The domain name.
+ * @returns {Promise<WhoisRecordResponse>} A promise resolving to the standard controller response containing the formatted record, plus the record.
+ * @throws {McpError} Propagates errors from the service layer, handled by `handleControllerError`.
+ */
+async function get(domain: string): Promise<WhoisRecordResponse> {
+	const methodLogger = controllerLogger.forMethod('get');
+	methodLogger.debug(`Retrieving WHOIS record for ${domain}.`);
+
+	try {
+		const record = await whoisRecordService.get(domain);
+
+		methodLogger.debug('WHOIS record retrieved.');
+		return {
+			content: formatRecord(record),
+			record,
+		};
+	} catch (error) {
+		return handleControllerError(error, {
+			entityType: 'WHOIS Record',
+			entityId: domain,
+			operation: 'retrieving',
+			source: 'controllers/whois-record.controller.ts@get',
+		});
+	}
+}
+
+export default { get };
@@ -0,0 +1,132 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHttpRegistrarProvider } from './http-registrar.provider.js';
+import { LookupProvider } from '../types/lookup-provider.types.js';
+
+describe('HTTP Registrar Provider', () => {
+	let server: http.Server;
+	let provider: LookupProvider;
+	const requests: { url?: string; apiKey?: string }[] = [];
+
+	beforeAll(async () => {
+		// Local stand-in for a registrar availability API
+		server = http.createServer((req, res) => {
+			requests.push({
+				url: req.url,
+				apiKey: req.headers['x-api-key'] as string | undefined,
+			});
+			const domain = new URL(
+				req.url ?? '/',
+				'http://localhost',
+			).searchParams.get('domain');
+			if (domain === 'broken.com') {
+				res.writeHead(500);
+				res.end();
+				return;
+			}
+			res.writeHead(200, { 'Content-Type': 'application/json' });
+			res.end(
+				JSON.stringify({
+					data: {
+						available:
+							domain === 'odd.com'
+								? 'maybe'
+								: domain === 'held.com'
+									? 'reserved'
+									: domain === 'free.com' ||
+										domain === 'gold.com',
+						...(domain === 'gold.com' && { premium: true }),
+					},
+				}),
+			);
+		});
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+
+		provider = createHttpRegistrarProvider({
+			name: 'acme-registrar',
+			url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/check?domain={domain}`,
+			headers: { 'X-Api-Key': 'secret' },
+			availablePath: 'data.available',
+			premiumPath: 'data.premium',
+			tlds: ['com', '.net'],
+		});
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	it('should only support the configured TLDs', () => {
+		expect(provider.supports('free.com')).toBe(true);
+		expect(provider.supports('free.net')).toBe(true);
+		expect(provider.supports('free.io')).toBe(false);
+	});
+
+	it('should read the availability flag from the response', async () => {
+		const available = await provider.lookup('free.com', {});
+		const taken = await provider.lookup('taken.com', {});
+
+		expect(available).toMatchObject({
+			status: 'available',
+			confidence: 'high',
+			evidence: {
+				source: 'acme-registrar',
+				rule: 'acme-registrar.data.available=true',
+				excerpt: '{"data":{"available":true}}',
+			},
+		});
+		expect(taken.status).toBe('unavailable');
+		expect(requests[0]).toEqual({
+			url: '/check?domain=free.com',
+			apiKey: 'secret',
+		});
+	});
+
+	it('should report premium and reserved names', async () => {
+		const premium = await provider.lookup('gold.com', {});
+		const reserved = await provider.lookup('held.com', {});
+
+		expect(premium).toMatchObject({
+			status: 'premium',
+			evidence: {
+				rule: 'acme-registrar.data.available=true acme-registrar.data.premium=true',
+			},
+		});
+		expect(reserved.status).toBe('reserved');
+	});
+
+	it('should fail on HTTP errors and unrecognized flags', async () => {
+		const broken = await provider.lookup('broken.com', {});
+		const odd = await provider.lookup('odd.com', {});
+
+		expect(broken.status).toBe('failed');
+		expect(odd.status).toBe('failed');
+		if (odd.status === 'failed') {
+			expect(odd.error.message).toContain('returned "maybe"');
+		}
+	});
+
+	it('should start the request timeout when the request is sent, not when it is queued', async () => {
+		// A host of its own, so its token bucket (2 per second by default) starts full
+		const slowlyRated = createHttpRegistrarProvider({
+			name: 'queued-registrar',
+			url: `http://localhost:${(server.address() as AddressInfo).port}/check?domain={domain}`,
+			availablePath: 'data.available',
+			timeout: 300,
+		});
+
+		// The last two lookups wait about 500 and 1000ms for a token, longer than the timeout
+		const results = await Promise.all(
+			['free.com', 'taken.com', 'free.com', 'taken.com'].map((domain) =>
+				slowlyRated.lookup(domain, {}),
+			),
+		);
+
+		expect(results.map((result) => result.status)).toEqual([
+			'available',
+			'unavailable',
+			'available',
+			'unavailable',
+		]);
+	});
+});
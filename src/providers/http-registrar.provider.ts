@@ -0,0 +1,200 @@
+import { Logger } from '../utils/logger.util.js';
+import { getLookupScheduler } from '../utils/scheduler.util.js';
+import { excerptText } from '../utils/whois-rules.util.js';
+import { createApiError, ensureMcpError } from '../utils/error.util.js';
+import {
+	HttpRegistrarProviderConfig,
+	LookupProvider,
+	ProviderLookupOptions,
+	ProviderLookupResult,
+} from '../types/lookup-provider.types.js';
+
+const providerLogger = Logger.forContext(
+	'providers/http-registrar.provider.ts',
+);
+
+/**
+ * Default request timeout in milliseconds
+ */
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Flag values read as "available", "unavailable", "premium" and "reserved", compared case-insensitively
+ */
+const AVAILABLE_VALUES = ['true', '1', 'yes', 'available', 'free'];
+const UNAVAILABLE_VALUES = [
+	'false',
+	'0',
+	'no',
+	'unavailable',
+	'taken',
+	'registered',
+];
+const PREMIUM_VALUES = ['premium'];
+const RESERVED_VALUES = ['reserved', 'blocked'];
+
+/**
+ * Read a value from a parsed JSON response by dot path, e.g. "data.0.available"
+ * @param value The parsed response
+ * @param path The dot path
+ * @returns The value, or undefined if the path does not exist
+ */
+function readPath(value: unknown, path: string): unknown {
+	return path
+		.split('.')
+		.reduce<unknown>(
+			(current, key) =>
+				current !== null && typeof current === 'object'
+					? (current as Record<string, unknown>)[key]
+					: undefined,
+			value,
+		);
+}
+
+/**
+ * Create a provider that asks a registrar's HTTP API whether a domain is available.
+ * Registrar APIs are authoritative for the TLDs they sell, so their answers have high confidence.
+ *
+ * @param providerConfig The endpoint, request and response mapping
+ * @returns The provider
+ */
+export function createHttpRegistrarProvider(
+	providerConfig: HttpRegistrarProviderConfig,
+): LookupProvider {
+	const { name, availablePath } = providerConfig;
+	const tlds = providerConfig.tlds?.map((tld) =>
+		tld.toLowerCase().replace(/^\./, ''),
+	);
+
+	async function lookup(
+		domain: string,
+		{ signal }: ProviderLookupOptions,
+	): Promise<ProviderLookupResult> {
+		const domainLogger = providerLogger.forMethod(`${name}:${domain}`);
+		const url = providerConfig.url.replace(
+			'{domain}',
+			encodeURIComponent(domain),
+		);
+		const host = new URL(url).host;
+
+		try {
+			const response = await getLookupScheduler().schedule(
+				host,
+				() => {
+					// The timeout starts when the request is sent, not while it waits in the queue
+					const timeoutSignal = AbortSignal.timeout(
+						providerConfig.timeout ?? DEFAULT_TIMEOUT_MS,
+					);
+					return fetch(url, {
+						method: providerConfig.method ?? 'GET',
+						headers: {
+							Accept: 'application/json',
+							...providerConfig.headers,
+						},
+						body: providerConfig.body?.replace('{domain}', domain),
+						signal: signal
+							? AbortSignal.any([timeoutSignal, signal])
+							: timeoutSignal,
+					});
+				},
+				signal,
+			);
+			const text = await response.text();
+			if (!response.ok) {
+				throw createApiError(
+					`Registrar ${name} failed for ${domain}: HTTP ${response.status}`,
+					response.status,
+				);
+			}
+
+			let body: unknown;
+			try {
+				body = JSON.parse(text);
+			} catch (error) {
+				throw createApiError(
+					`Registrar ${name} returned invalid JSON for ${domain}`,
+					response.status,
+					error,
+				);
+			}
+			const flag = readPath(body, availablePath);
+			const value = String(flag).toLowerCase();
+			const evidence = {
+				source: name,
+				server: host,
+				rule: `${name}.${availablePath}=${JSON.stringify(flag)}`,
+				excerpt: excerptText(text),
+			};
+			const premiumFlag = providerConfig.premiumPath
+				? readPath(body, providerConfig.premiumPath)
+				: undefined;
+			if (
+				PREMIUM_VALUES.includes(value) ||
+				(AVAILABLE_VALUES.includes(value) &&
+					AVAILABLE_VALUES.includes(
+						String(premiumFlag).toLowerCase(),
+					))
+			) {
+				domainLogger.debug(`Domain [${domain}] is PREMIUM`);
+				return {
+					status: 'premium',
+					confidence: 'high',
+					evidence: {
+						...evidence,
+						...(premiumFlag !== undefined && {
+							rule: `${evidence.rule} ${name}.${providerConfig.premiumPath}=${JSON.stringify(premiumFlag)}`,
+						}),
+					},
+					message: `${domain} is a premium name according to ${name}`,
+				};
+			}
+			if (AVAILABLE_VALUES.includes(value)) {
+				domainLogger.debug(`Domain [${domain}] is AVAILABLE`);
+				return { status: 'available', confidence: 'high', evidence };
+			}
+			if (UNAVAILABLE_VALUES.includes(value)) {
+				domainLogger.debug(`Domain [${domain}] is UNAVAILABLE`);
+				return { status: 'unavailable', confidence: 'high', evidence };
+			}
+			if (RESERVED_VALUES.includes(value)) {
+				domainLogger.debug(`Domain [${domain}] is RESERVED`);
+				return {
+					status: 'reserved',
+					confidence: 'high',
+					evidence,
+					message: `${domain} is reserved according to ${name}`,
+				};
+			}
+			throw createApiError(
+				`Registrar ${name} returned ${JSON.stringify(flag)} at "${availablePath}" for ${domain}`,
+				response.status,
+			);
+		} catch (error) {
+			if (signal?.aborted) {
+				throw signal.reason;
+			}
+			domainLogger.warn(`Registrar lookup failed for [${domain}]`, error);
+			const mcpError = ensureMcpError(error);
+			if (mcpError.statusCode === 429) {
+				getLookupScheduler().coolDown(host);
+			}
+			return {
+				status: 'failed',
+				error: mcpError,
+				evidence: {
+					source: 'error',
+					server: host,
+					excerpt: excerptText(mcpError.message),
+				},
+			};
+		}
+	}
+
+	return {
+		name,
+		supports: (domain) =>
+			!tlds ||
+			tlds.some((tld) => domain === tld || domain.endsWith(`.${tld}`)),
+		lookup,
+	};
+}
@@ -0,0 +1,103 @@
+import { Logger } from '../utils/logger.util.js';
+import rdapService from '../services/rdap.service.js';
+import { getLookupScheduler } from '../utils/scheduler.util.js';
+import { excerptText } from '../utils/whois-rules.util.js';
+import { createApiError, ensureMcpError } from '../utils/error.util.js';
+import {
+	LookupProvider,
+	ProviderLookupOptions,
+	ProviderLookupResult,
+} from '../types/lookup-provider.types.js';
+
+const providerLogger = Logger.forContext('providers/rdap.provider.ts');
+
+/**
+ * Look up a domain over RDAP: a 404 means unregistered and a 200 carries structured registration data.
+ * A 404 does not tell premium or reserved names from free ones, so it is reported as an unconfirmed
+ * 'available' with medium confidence, for the next provider to confirm.
+ *
+ * @param domain The domain name to look up
+ * @param options Lookup options; aborting the signal rejects with its reason
+ * @returns The answer, or 'failed' if the server could not be reached or answered unexpectedly
+ */
+async function lookup(
+	domain: string,
+	{ signal }: ProviderLookupOptions,
+): Promise<ProviderLookupResult> {
+	const domainLogger = providerLogger.forMethod(`lookup:${domain}`);
+	const server = rdapService.findServer(domain);
+	try {
+		if (!server) {
+			throw createApiError(`No RDAP service for ${domain}`);
+		}
+		const rdapResult = await getLookupScheduler().schedule(
+			new URL(server).host,
+			() => rdapService.lookupDomain(domain, { signal }),
+			signal,
+		);
+		if (rdapResult?.status === 'available') {
+			domainLogger.debug(
+				`Domain [${domain}] is AVAILABLE (RDAP 404 from ${rdapResult.server})`,
+			);
+			return {
+				status: 'available',
+				confidence: 'medium',
+				unconfirmed: true,
+				evidence: {
+					source: 'rdap',
+					server: rdapResult.server,
+					rule: 'rdap.404',
+					excerpt: 'HTTP 404 Not Found',
+				},
+			};
+		}
+		if (rdapResult?.status === 'registered') {
+			domainLogger.debug(
+				`Domain [${domain}] is UNAVAILABLE (RDAP record from ${rdapResult.server})`,
+			);
+			const { ldhName, status, events } = rdapResult.record;
+			return {
+				status: 'unavailable',
+				confidence: 'high',
+				evidence: {
+					source: 'rdap',
+					server: rdapResult.server,
+					rule: 'rdap.record',
+					excerpt: excerptText(
+						JSON.stringify({ ldhName, status, events }),
+					),
+				},
+			};
+		}
+		throw createApiError(`No RDAP service for ${domain}`);
+	} catch (error) {
+		if (signal?.aborted) {
+			throw signal.reason;
+		}
+		domainLogger.warn(`RDAP lookup failed for [${domain}]`, error);
+		const mcpError = ensureMcpError(error);
+		if (server && mcpError.statusCode === 429) {
+			getLookupScheduler().coolDown(new URL(server).host);
+		}
+		return {
+			status: 'failed',
+			error: mcpError,
+			evidence: {
+				source: 'error',
+				server,
+				excerpt: excerptText(mcpError.message),
+			},
+		};
+	}
+}
+
+/**
+ * RDAP provider: supports the TLDs listed in the IANA bootstrap registry.
+ */
+const rdapProvider: LookupProvider = {
+	name: 'rdap',
+	supports: (domain) => rdapService.findServer(domain) !== undefined,
+	lookup,
+};
+
+export default rdapProvider;
@@ -0,0 +1,80 @@
+import whoisProvider from './whois.provider.js';
+import { queryWhois } from '../utils/whois-query.util.js';
+
+jest.mock('../utils/whois-query.util.js', () => ({
+	...jest.requireActual('../utils/whois-query.util.js'),
+	queryWhois: jest.fn(),
+}));
+
+const mockedQueryWhois = queryWhois as jest.MockedFunction<typeof queryWhois>;
+
+describe('WHOIS Provider', () => {
+	const originalServers = process.env.WHOIS_SERVERS;
+	const originalFallbacks = process.env.WHOIS_FALLBACK_SERVERS;
+
+	beforeEach(() => {
+		process.env.WHOIS_SERVERS = JSON.stringify({
+			failover: 'whois.down.failover',
+		});
+		process.env.WHOIS_FALLBACK_SERVERS = JSON.stringify({
+			failover: ['whois.slow.failover', 'whois.up.failover'],
+		});
+	});
+
+	afterEach(() => {
+		mockedQueryWhois.mockReset();
+		for (const [key, value] of [
+			['WHOIS_SERVERS', originalServers],
+			['WHOIS_FALLBACK_SERVERS', originalFallbacks],
+		] as const) {
+			if (value === undefined) {
+				delete process.env[key];
+			} else {
+				process.env[key] = value;
+			}
+		}
+	});
+
+	it('should fail over to the next server and record the servers that failed', async () => {
+		mockedQueryWhois.mockImplementation(async ({ host }) => {
+			if (host === 'whois.down.failover') {
+				throw new Error('connect ECONNREFUSED');
+			}
+			if (host === 'whois.slow.failover') {
+				throw new Error('WHOIS query to whois.slow.failover timed out');
+			}
+			return 'No match for "FREE.FAILOVER".\n';
+		});
+
+		const result = await whoisProvider.lookup('free.failover', {});
+
+		expect(result).toMatchObject({
+			status: 'available',
+			evidence: {
+				source: 'whois',
+				server: 'whois.up.failover',
+				failedServers: ['whois.down.failover', 'whois.slow.failover'],
+			},
+		});
+	});
+
+	it('should report every server error once all servers failed', async () => {
+		mockedQueryWhois.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+		const result = await whoisProvider.lookup('taken.failover', {});
+
+		expect(result.status).toBe('failed');
+		expect(result.status === 'failed' && result.error.message).toBe(
+			'WHOIS lookup failed for taken.failover: whois.down.failover: connect ECONNREFUSED; whois.slow.failover: connect ECONNREFUSED; whois.up.failover: connect ECONNREFUSED',
+		);
+		expect(result.evidence).toMatchObject({
+			source: 'error',
+			server: 'whois.up.failover',
+			failedServers: [
+				'whois.down.failover',
+				'whois.slow.failover',
+				'whois.up.failover',
+			],
+		});
+	});
+});
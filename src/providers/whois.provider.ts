@@ -0,0 +1,301 @@
+import { Logger } from '../utils/logger.util.js';
+import whoisServerService, {
+	WhoisQuerySettings,
+} from '../services/whois-server.service.js';
+import { getLookupScheduler } from '../utils/scheduler.util.js';
+import {
+	WhoisServerResponse,
+	classifyWhoisResponse,
+	excerptText,
+} from '../utils/whois-rules.util.js';
+import {
+	findWhoisReferral,
+	formatWhoisQuery,
+	queryWhois,
+} from '../utils/whois-query.util.js';
+import { createApiError, ensureMcpError } from '../utils/error.util.js';
+import { VerdictEvidence } from '../tools/domain-availability.types.js';
+import {
+	LookupProvider,
+	ProviderLookupOptions,
+	ProviderLookupResult,
+} from '../types/lookup-provider.types.js';
+
+const providerLogger = Logger.forContext('providers/whois.provider.ts');
+
+/**
+ * Query the registry WHOIS server for a domain and follow its referral to the registrar.
+ * Each hop is scheduled against its own server. A failed registrar hop is ignored,
+ * since the registry response alone is enough to classify the domain.
+ *
+ * @param domain The domain name
+ * @param registryHost The registry WHOIS server
+ * @param settings Query timeout and how many servers to follow
+ * @param domainLogger Logger scoped to this domain
+ * @param signal Aborts queued and open queries
+ * @returns Each server's response, registry first
+ * @throws If the registry query fails or the signal is aborted
+ */
+async function queryWhoisChain(
+	domain: string,
+	registryHost: string,
+	settings: WhoisQuerySettings,
+	domainLogger: Logger,
+	signal?: AbortSignal,
+): Promise<WhoisServerResponse[]> {
+	const responses: WhoisServerResponse[] = [];
+	let host: string | undefined = registryHost;
+
+	while (host && responses.length < settings.followDepth) {
+		const server: string = host;
+		try {
+			const text = await getLookupScheduler().schedule(
+				server,
+				() =>
+					queryWhois({
+						host: server,
+						query: formatWhoisQuery(server, domain),
+						timeout: settings.timeout,
+						signal,
+					}),
+				signal,
+			);
+			responses.push({ server, text });
+			host = findWhoisReferral(text);
+			if (host === server) {
+				host = undefined;
+			}
+		} catch (error) {
+			if (responses.length === 0 || signal?.aborted) {
+				throw error;
+			}
+			domainLogger.debug(
+				`Registrar WHOIS server ${server} failed; using the registry response only`,
+				error,
+			);
+			host = undefined;
+		}
+	}
+
+	return responses;
+}
+
+/**
+ * Query the registry WHOIS servers of a domain in failover order until one answers.
+ * A server that times out, refuses the connection, hangs up without answering or rate-limits
+ * the query hands over to the next. A server that rate-limits the query is also cooled down
+ * in the scheduler.
+ *
+ * @param domain The domain name
+ * @param servers The registry servers, in failover order
+ * @param domainLogger Logger scoped to this domain
+ * @param signal Aborts queued and open queries
+ * @returns The responses of the chain that answered, their classification and the servers that failed before
+ * @throws If every server fails (with each server's error) or the signal is aborted
+ */
+async function queryWithFailover(
+	domain: string,
+	servers: string[],
+	domainLogger: Logger,
+	signal?: AbortSignal,
+): Promise<{
+	responses: WhoisServerResponse[];
+	classification: ReturnType<typeof classifyWhoisResponse>;
+	failedServers: string[];
+}> {
+	const settings = whoisServerService.getQuerySettings();
+	const failedServers: string[] = [];
+	const errors: string[] = [];
+	let lastError: unknown;
+	const describe = (error: unknown) =>
+		error instanceof Error ? error.message : String(error);
+
+	for (const [index, server] of servers.entries()) {
+		const isLast = index === servers.length - 1;
+		let responses: WhoisServerResponse[];
+		try {
+			responses = await queryWhoisChain(
+				domain,
+				server,
+				settings,
+				domainLogger,
+				signal,
+			);
+			// A server that closes the connection without answering is usually shedding load
+			if (responses.every(({ text }) => !text.trim())) {
+				throw createApiError('Empty response');
+			}
+		} catch (error) {
+			if (signal?.aborted) {
+				throw error;
+			}
+			lastError = error;
+			failedServers.push(server);
+			errors.push(`${server}: ${describe(error)}`);
+			if (!isLast) {
+				domainLogger.warn(
+					`WHOIS server ${server} failed for [${domain}]; failing over to the next server`,
+					error,
+				);
+			}
+			continue;
+		}
+
+		// Raw responses from the registry (and the registrar it refers to) are classified by the TLD's rules
+		const classification = classifyWhoisResponse(domain, responses);
+		if (classification.verdict === 'rate-limited') {
+			getLookupScheduler().coolDown(classification.server ?? server);
+			if (!isLast) {
+				domainLogger.warn(
+					`WHOIS server ${classification.server} rate-limited the lookup for [${domain}]; failing over to the next server`,
+				);
+				failedServers.push(server);
+				continue;
+			}
+		}
+		return { responses, classification, failedServers };
+	}
+
+	throw createApiError(
+		`WHOIS lookup failed for ${domain}: ${servers.length > 1 ? errors.join('; ') : describe(lastError)}`,
+		undefined,
+		lastError,
+	);
+}
+
+/**
+ * Look up a single domain over WHOIS and classify the response.
+ *
+ * @param domain The domain name to look up
+ * @param options Lookup options; aborting the signal rejects with its reason
+ * @returns The classified answer, or 'failed' with the error
+ */
+async function lookup(
+	domain: string,
+	{ signal }: ProviderLookupOptions,
+): Promise<ProviderLookupResult> {
+	const domainLogger = providerLogger.forMethod(`lookup:${domain}`);
+	let servers: string[] = [];
+	try {
+		// Resolve the registry WHOIS servers up front so the scheduler can rate-limit per server.
+		servers = await whoisServerService.getServers(domain, { signal });
+		if (servers.length === 0) {
+			throw createApiError(
+				`WHOIS lookup failed for ${domain}: no WHOIS server found for .${domain.split('.').pop()}`,
+			);
+		}
+
+		const { responses, classification, failedServers } =
+			await queryWithFailover(domain, servers, domainLogger, signal);
+		const evidence: VerdictEvidence = {
+			source: 'whois',
+			server: classification.server,
+			rule: classification.rule,
+			excerpt: classification.excerpt,
+			...(failedServers.length > 0 && { failedServers }),
+		};
+		switch (classification.verdict) {
+			case 'available':
+				domainLogger.debug(
+					`Domain [${domain}] is AVAILABLE (${classification.rule} on ${classification.server})`,
+				);
+				return { status: 'available', confidence: 'high', evidence };
+			case 'registered':
+				domainLogger.debug(
+					`Domain [${domain}] is UNAVAILABLE (${classification.rule} on ${classification.server})`,
+				);
+				return { status: 'unavailable', confidence: 'high', evidence };
+			case 'reserved':
+				domainLogger.debug(
+					`Domain [${domain}] is RESERVED (${classification.rule} on ${classification.server})`,
+				);
+				return {
+					status: 'reserved',
+					confidence: 'high',
+					evidence,
+					message: `${domain} is reserved: ${classification.server} reports it as withheld by the registry`,
+				};
+			case 'premium':
+				domainLogger.debug(
+					`Domain [${domain}] is PREMIUM (${classification.rule} on ${classification.server})`,
+				);
+				return {
+					status: 'premium',
+					confidence: 'high',
+					evidence,
+					message: `${domain} is a premium name: ${classification.server} reports a premium price`,
+				};
+			case 'rate-limited':
+				throw createApiError(
+					`WHOIS server ${classification.server} rate-limited the lookup for ${domain}`,
+					429,
+				);
+			default: {
+				// If some data returned but no rule matched, treat as unavailable (safer default),
+				// flagged as low confidence with the start of the deciding response as evidence
+				domainLogger.warn(
+					`Domain [${domain}] is treated as UNAVAILABLE (ambiguous response, no classification rule matched)`,
+					responses,
+				);
+				const response =
+					responses.find(({ text }) => text.trim()) ?? responses[0];
+				return {
+					status: 'unavailable',
+					confidence: 'low',
+					evidence: {
+						source: 'whois',
+						server: response.server,
+						...(failedServers.length > 0 && { failedServers }),
+						rule: 'none',
+						excerpt: excerptText(response.text),
+					},
+				};
+			}
+		}
+	} catch (error) {
+		if (signal?.aborted) {
+			throw signal.reason;
+		}
+		// Some registries answer "not found" through an error; classify the message with the same rules.
+		const errorMessage =
+			error instanceof Error ? error.message : String(error);
+		const classification = classifyWhoisResponse(domain, [
+			{ server: 'error', text: errorMessage },
+		]);
+		// Errors are only reached once every server failed (or none was found)
+		const evidence: VerdictEvidence = {
+			source: 'error',
+			server: servers[servers.length - 1],
+			...(servers.length > 1 && { failedServers: servers }),
+			rule: classification.rule,
+			excerpt: excerptText(errorMessage),
+		};
+		if (classification.verdict === 'available') {
+			domainLogger.debug(
+				`Domain [${domain}] is AVAILABLE (error matched ${classification.rule})`,
+				errorMessage,
+			);
+			return { status: 'available', confidence: 'medium', evidence };
+		}
+		// Other errors (timeouts, network issues, unexpected format) don't confirm availability
+		// either way, so the domain is reported in the `failed` list with the error details.
+		domainLogger.error(
+			`Failed to lookup domain [${domain}]. Reporting as failed.`,
+			error,
+		);
+		return { status: 'failed', error: ensureMcpError(error), evidence };
+	}
+}
+
+/**
+ * WHOIS provider: queries the registry's WHOIS server (and the registrar it refers to), failing
+ * over to the configured fallback servers, and classifies the response with the per-TLD rules. Supports every domain; TLDs without a
+ * WHOIS server fail at lookup time.
+ */
+const whoisProvider: LookupProvider = {
+	name: 'whois',
+	supports: () => true,
+	lookup,
+};
+
+export default whoisProvider;
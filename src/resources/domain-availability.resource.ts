@@ -0,0 +1,68 @@
+import {
+	McpServer,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpResource } from '../utils/error.util.js';
+import domainAvailabilityController from '../controllers/domain-availability.controller.js';
+
+const resourceLogger = Logger.forContext(
+	'resources/domain-availability.resource.ts',
+);
+
+/**
+ * MCP resource handler for reading a domain's availability.
+ *
+ * @param {URL} uri - The requested resource URI (`availability://{domain}`).
+ * @param {Variables} variables - Template variables extracted from the URI.
+ * @returns {Promise<{ contents: Array<{ uri: string, mimeType: string, text: string }> }>} MCP resource response containing the availability result as JSON.
+ */
+async function readAvailability(uri: URL, variables: Variables) {
+	const methodLogger = resourceLogger.forMethod('readAvailability');
+	const domain = String(variables.domain);
+	methodLogger.debug(`Resource ${uri.href} requested`, { domain });
+
+	try {
+		const result = await domainAvailabilityController.check([domain]);
+		return {
+			contents: [
+				{
+					uri: uri.href,
+					mimeType: 'application/json',
+					text: result.content,
+				},
+			],
+		};
+	} catch (error) {
+		methodLogger.error(`Resource ${uri.href} failed`, error);
+		return formatErrorForMcpResource(error, uri.href);
+	}
+}
+
+/**
+ * Registers the domain availability resource template with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+function registerResources(server: McpServer) {
+	const methodLogger = resourceLogger.forMethod('registerResources');
+	methodLogger.debug('Registering availability:// resource template...');
+
+	server.resource(
+		'domain-availability',
+		new ResourceTemplate('availability://{domain}', { list: undefined }),
+		{
+			description:
+				"A domain's availability as JSON, in the same shape as the check-domain-availability tool (available, unavailable and failed arrays), e.g. availability://example.com",
+			mimeType: 'application/json',
+		},
+		readAvailability,
+	);
+
+	methodLogger.debug(
+		'Successfully registered availability:// resource template.',
+	);
+}
+
+export default { registerResources };
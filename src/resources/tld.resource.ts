@@ -0,0 +1,64 @@
+import {
+	McpServer,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpResource } from '../utils/error.util.js';
+import tldController from '../controllers/tld.controller.js';
+
+const resourceLogger = Logger.forContext('resources/tld.resource.ts');
+
+/**
+ * MCP resource handler for reading a TLD's registry information.
+ *
+ * @param {URL} uri - The requested resource URI (`tld://{tld}`).
+ * @param {Variables} variables - Template variables extracted from the URI.
+ * @returns {Promise<{ contents: Array<{ uri: string, mimeType: string, text: string }> }>} MCP resource response containing the formatted TLD information.
+ */
+async function readTldInfo(uri: URL, variables: Variables) {
+	const methodLogger = resourceLogger.forMethod('readTldInfo');
+	const tld = String(variables.tld);
+	methodLogger.debug(`Resource ${uri.href} requested`, { tld });
+
+	try {
+		const result = await tldController.get(tld);
+		return {
+			contents: [
+				{
+					uri: uri.href,
+					mimeType: 'text/markdown',
+					text: result.content,
+				},
+			],
+		};
+	} catch (error) {
+		methodLogger.error(`Resource ${uri.href} failed`, error);
+		return formatErrorForMcpResource(error, uri.href);
+	}
+}
+
+/**
+ * Registers the TLD information resource template with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+function registerResources(server: McpServer) {
+	const methodLogger = resourceLogger.forMethod('registerResources');
+	methodLogger.debug('Registering tld:// resource template...');
+
+	server.resource(
+		'tld-info',
+		new ResourceTemplate('tld://{tld}', { list: undefined }),
+		{
+			description:
+				'Registry information for a top-level domain from IANA: registry operator, WHOIS and RDAP servers, DNSSEC and name servers, e.g. tld://dev',
+			mimeType: 'text/markdown',
+		},
+		readTldInfo,
+	);
+
+	methodLogger.debug('Successfully registered tld:// resource template.');
+}
+
+export default { registerResources };
@@ -0,0 +1,64 @@
+import {
+	McpServer,
+	ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpResource } from '../utils/error.util.js';
+import whoisRecordController from '../controllers/whois-record.controller.js';
+
+const resourceLogger = Logger.forContext('resources/whois-record.resource.ts');
+
+/**
+ * MCP resource handler for reading a domain's WHOIS record.
+ *
+ * @param {URL} uri - The requested resource URI (`whois://{domain}`).
+ * @param {Variables} variables - Template variables extracted from the URI.
+ * @returns {Promise<{ contents: Array<{ uri: string, mimeType: string, text: string }> }>} MCP resource response containing the formatted record.
+ */
+async function readWhoisRecord(uri: URL, variables: Variables) {
+	const methodLogger = resourceLogger.forMethod('readWhoisRecord');
+	const domain = String(variables.domain);
+	methodLogger.debug(`Resource ${uri.href} requested`, { domain });
+
+	try {
+		const result = await whoisRecordController.get(domain);
+		return {
+			contents: [
+				{
+					uri: uri.href,
+					mimeType: 'text/markdown',
+					text: result.content,
+				},
+			],
+		};
+	} catch (error) {
+		methodLogger.error(`Resource ${uri.href} failed`, error);
+		return formatErrorForMcpResource(error, uri.href);
+	}
+}
+
+/**
+ * Registers the WHOIS record resource template with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+function registerResources(server: McpServer) {
+	const methodLogger = resourceLogger.forMethod('registerResources');
+	methodLogger.debug('Registering whois:// resource template...');
+
+	server.resource(
+		'whois-record',
+		new ResourceTemplate('whois://{domain}', { list: undefined }),
+		{
+			description:
+				"A registered domain's normalized WHOIS record (registrar, dates, status codes, name servers), e.g. whois://google.com",
+			mimeType: 'text/markdown',
+		},
+		readWhoisRecord,
+	);
+
+	methodLogger.debug('Successfully registered whois:// resource template.');
+}
+
+export default { registerResources };
@@ -0,0 +1,92 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { startServer } from './server.js';
+
+const INITIALIZE_REQUEST = {
+	jsonrpc: '2.0',
+	id: 1,
+	method: 'initialize',
+	params: {
+		protocolVersion: '2025-03-26',
+		capabilities: {},
+		clientInfo: { name: 'server-test', version: '1.0.0' },
+	},
+};
+
+describe('startServer (Streamable HTTP)', () => {
+	let httpServer: http.Server;
+	let endpoint: string;
+
+	beforeAll(async () => {
+		httpServer = (await startServer('http', {
+			host: '127.0.0.1',
+			port: 0,
+		})) as http.Server;
+		const { port } = httpServer.address() as AddressInfo;
+		endpoint = `http://127.0.0.1:${port}/mcp`;
+	});
+
+	afterAll(async () => {
+		httpServer.closeAllConnections();
+		await new Promise((resolve) => httpServer.close(resolve));
+	});
+
+	/**
+	 * POST a JSON-RPC message to the MCP endpoint
+	 */
+	function post(body: unknown, sessionId?: string) {
+		return fetch(endpoint, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				Accept: 'application/json, text/event-stream',
+				...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+			},
+			body: JSON.stringify(body),
+		});
+	}
+
+	it('should start a separate session for each initialize request', async () => {
+		const first = await post(INITIALIZE_REQUEST);
+		const second = await post(INITIALIZE_REQUEST);
+		await Promise.all([first.text(), second.text()]);
+
+		expect(first.status).toBe(200);
+		expect(second.status).toBe(200);
+		const firstSession = first.headers.get('mcp-session-id');
+		const secondSession = second.headers.get('mcp-session-id');
+		expect(firstSession).toBeTruthy();
+		expect(secondSession).toBeTruthy();
+		expect(firstSession).not.toBe(secondSession);
+
+		const toolsResponse = await post(
+			{ jsonrpc: '2.0', id: 2, method: 'tools/list' },
+			firstSession!,
+		);
+		expect(toolsResponse.status).toBe(200);
+		expect(await toolsResponse.text()).toContain(
+			'check-domain-availability',
+		);
+	});
+
+	it('should reject requests without a session that are not initialize requests', async () => {
+		const response = await post({
+			jsonrpc: '2.0',
+			id: 3,
+			method: 'tools/list',
+		});
+		expect(response.status).toBe(400);
+
+		const unknownSession = await post(
+			{ jsonrpc: '2.0', id: 4, method: 'tools/list' },
+			'no-such-session',
+		);
+		expect(unknownSession.status).toBe(404);
+	});
+
+	it('should answer unknown paths with 404', async () => {
+		const response = await fetch(endpoint.replace('/mcp', '/other'));
+		expect(response.status).toBe(404);
+		await response.text();
+	});
+});
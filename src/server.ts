@@ -0,0 +1,391 @@
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from './utils/logger.util.js';
+import { config } from './utils/config.util.js';
+import { VERSION, PACKAGE_NAME } from './utils/constants.util.js';
+
+// Import tools
+import availabilityJobTool from './tools/availability-job.tool.js';
+import domainAvailabilityTool from './tools/domain-availability.tool.js';
+import domainSuggestionTool from './tools/domain-suggestion.tool.js';
+import domainValidationTool from './tools/domain-validation.tool.js';
+import labelSweepTool from './tools/label-sweep.tool.js';
+import whoisRecordTool from './tools/whois-record.tool.js';
+
+// Import resources
+import domainAvailabilityResource from './resources/domain-availability.resource.js';
+import tldResource from './resources/tld.resource.js';
+import whoisRecordResource from './resources/whois-record.resource.js';
+
+const serverLogger = Logger.forContext('server.ts');
+
+/**
+ * Transports the MCP server can be served over
+ */
+export type TransportMode = 'stdio' | 'http' | 'sse';
+
+/**
+ * Options for the network transports
+ */
+export interface ServeOptions {
+	/** Interface to bind to (default MCP_HTTP_HOST or 127.0.0.1) */
+	host?: string;
+	/** Port to listen on (default MCP_HTTP_PORT or 8080); 0 picks a free port */
+	port?: number;
+}
+
+/** Path of the Streamable HTTP endpoint */
+const MCP_PATH = '/mcp';
+/** Paths of the legacy SSE endpoints */
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+/** Largest JSON-RPC request body accepted over HTTP */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Create a new MCP server instance with every tool and resource registered.
+ * Network transports create one instance per session.
+ *
+ * @returns The MCP server
+ */
+export function createServer(): McpServer {
+	const methodLogger = serverLogger.forMethod('createServer');
+	const server = new McpServer({
+		name: PACKAGE_NAME,
+		version: VERSION,
+	});
+
+	domainAvailabilityTool.registerTools(server);
+	methodLogger.debug('Registered Domain Availability tool');
+
+	whoisRecordTool.registerTools(server);
+	methodLogger.debug('Registered WHOIS Record tool');
+
+	availabilityJobTool.registerTools(server);
+	methodLogger.debug('Registered Availability Job tools');
+
+	domainSuggestionTool.registerTools(server);
+	methodLogger.debug('Registered Domain Suggestion tool');
+
+	labelSweepTool.registerTools(server);
+	methodLogger.debug('Registered Label Sweep tool');
+
+	domainValidationTool.registerTools(server);
+	methodLogger.debug('Registered Domain Validation tool');
+
+	whoisRecordResource.registerResources(server);
+	domainAvailabilityResource.registerResources(server);
+	tldResource.registerResources(server);
+	methodLogger.debug(
+		'Registered whois://, availability:// and tld:// resources',
+	);
+
+	return server;
+}
+
+/**
+ * Write a JSON-RPC error response for a request that never reached a transport
+ */
+function sendJsonRpcError(
+	res: http.ServerResponse,
+	statusCode: number,
+	code: number,
+	message: string,
+): void {
+	res.writeHead(statusCode, { 'Content-Type': 'application/json' }).end(
+		JSON.stringify({
+			jsonrpc: '2.0',
+			error: { code, message },
+			id: null,
+		}),
+	);
+}
+
+/**
+ * Read and parse a JSON request body, answering with a parse error if it is unusable
+ * @returns The parsed body, or null if an error response was already sent
+ */
+async function readJsonBody(
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+): Promise<{ body: unknown } | null> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	try {
+		for await (const chunk of req) {
+			size += (chunk as Buffer).length;
+			if (size > MAX_BODY_BYTES) {
+				sendJsonRpcError(res, 413, -32700, 'Request body too large');
+				return null;
+			}
+			chunks.push(chunk as Buffer);
+		}
+		return { body: JSON.parse(Buffer.concat(chunks).toString('utf8')) };
+	} catch (error) {
+		serverLogger.warn('Rejected unreadable request body', error);
+		sendJsonRpcError(res, 400, -32700, 'Parse error');
+		return null;
+	}
+}
+
+/**
+ * Get a single header value
+ */
+function getHeader(
+	req: http.IncomingMessage,
+	name: string,
+): string | undefined {
+	const value = req.headers[name];
+	return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Create the request handler for the Streamable HTTP endpoint.
+ * An initialize request without a session ID starts a new session with its own server instance;
+ * every other request is routed to the transport of its `mcp-session-id`.
+ */
+function createStreamableHttpHandler(
+	sessions: Map<string, StreamableHTTPServerTransport>,
+) {
+	const methodLogger = serverLogger.forMethod('streamableHttp');
+
+	return async (req: http.IncomingMessage, res: http.ServerResponse) => {
+		const sessionId = getHeader(req, 'mcp-session-id');
+		const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+		if (req.method !== 'POST') {
+			if (!existing) {
+				sendJsonRpcError(
+					res,
+					400,
+					-32000,
+					'Invalid or missing session ID',
+				);
+				return;
+			}
+			await existing.handleRequest(req, res);
+			return;
+		}
+
+		const parsed = await readJsonBody(req, res);
+		if (!parsed) {
+			return;
+		}
+
+		if (existing) {
+			await existing.handleRequest(req, res, parsed.body);
+			return;
+		}
+
+		if (sessionId || !isInitializeRequest(parsed.body)) {
+			sendJsonRpcError(
+				res,
+				sessionId ? 404 : 400,
+				-32000,
+				sessionId
+					? 'Session not found'
+					: 'Bad Request: No valid session ID provided',
+			);
+			return;
+		}
+
+		const transport = new StreamableHTTPServerTransport({
+			sessionIdGenerator: () => randomUUID(),
+			onsessioninitialized: (newSessionId) => {
+				sessions.set(newSessionId, transport);
+				methodLogger.info(`Session ${newSessionId} started`, {
+					sessions: sessions.size,
+				});
+			},
+		});
+		transport.onclose = () => {
+			if (transport.sessionId && sessions.delete(transport.sessionId)) {
+				methodLogger.info(`Session ${transport.sessionId} closed`, {
+					sessions: sessions.size,
+				});
+			}
+		};
+
+		await createServer().connect(transport);
+		await transport.handleRequest(req, res, parsed.body);
+	};
+}
+
+/**
+ * Create the request handlers for the legacy HTTP+SSE endpoints.
+ * Each GET on the SSE endpoint opens a session with its own server instance;
+ * clients post their messages to the messages endpoint with the `sessionId` query parameter.
+ */
+function createSseHandlers(sessions: Map<string, SSEServerTransport>) {
+	const methodLogger = serverLogger.forMethod('sse');
+
+	const connect = async (
+		_req: http.IncomingMessage,
+		res: http.ServerResponse,
+	) => {
+		const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+		sessions.set(transport.sessionId, transport);
+		methodLogger.info(`Session ${transport.sessionId} started`, {
+			sessions: sessions.size,
+		});
+		res.on('close', () => {
+			sessions.delete(transport.sessionId);
+			methodLogger.info(`Session ${transport.sessionId} closed`, {
+				sessions: sessions.size,
+			});
+		});
+		await createServer().connect(transport);
+	};
+
+	const postMessage = async (
+		req: http.IncomingMessage,
+		res: http.ServerResponse,
+		url: URL,
+	) => {
+		const transport = sessions.get(url.searchParams.get('sessionId') ?? '');
+		if (!transport) {
+			sendJsonRpcError(res, 404, -32000, 'Session not found');
+			return;
+		}
+		const parsed = await readJsonBody(req, res);
+		if (!parsed) {
+			return;
+		}
+		await transport.handlePostMessage(req, res, parsed.body);
+	};
+
+	return { connect, postMessage };
+}
+
+/**
+ * Start an HTTP server for the Streamable HTTP or legacy SSE transport
+ */
+async function startHttpServer(
+	mode: 'http' | 'sse',
+	options: ServeOptions,
+): Promise<http.Server> {
+	const methodLogger = serverLogger.forMethod('startHttpServer');
+	const host = options.host ?? config.get('MCP_HTTP_HOST') ?? '127.0.0.1';
+	const port = options.port ?? config.getNumber('MCP_HTTP_PORT', 8080);
+
+	const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+	const sseSessions = new Map<string, SSEServerTransport>();
+	const handleStreamableHttp =
+		createStreamableHttpHandler(streamableSessions);
+	const sse = createSseHandlers(sseSessions);
+
+	const httpServer = http.createServer((req, res) => {
+		const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+		let handler: Promise<void> | undefined;
+
+		if (mode === 'http' && url.pathname === MCP_PATH) {
+			handler = handleStreamableHttp(req, res);
+		} else if (mode === 'sse' && url.pathname === SSE_PATH) {
+			handler = req.method === 'GET' ? sse.connect(req, res) : undefined;
+		} else if (mode === 'sse' && url.pathname === SSE_MESSAGES_PATH) {
+			handler =
+				req.method === 'POST'
+					? sse.postMessage(req, res, url)
+					: undefined;
+		}
+
+		if (!handler) {
+			res.writeHead(404).end('Not Found');
+			return;
+		}
+		handler.catch((error) => {
+			methodLogger.error(
+				`Error handling ${req.method} ${url.pathname}`,
+				error,
+			);
+			if (!res.headersSent) {
+				sendJsonRpcError(res, 500, -32603, 'Internal server error');
+			}
+		});
+	});
+
+	httpServer.on('close', () => {
+		for (const transport of [
+			...streamableSessions.values(),
+			...sseSessions.values(),
+		]) {
+			void transport.close();
+		}
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once('error', reject);
+		httpServer.listen(port, host, () => {
+			httpServer.off('error', reject);
+			resolve();
+		});
+	});
+
+	const address = httpServer.address();
+	const boundPort =
+		address && typeof address === 'object' ? address.port : port;
+	const endpoint =
+		mode === 'http'
+			? `http://${host}:${boundPort}${MCP_PATH}`
+			: `http://${host}:${boundPort}${SSE_PATH}`;
+	methodLogger.info(
+		`Whodis MCP server listening on ${endpoint} (${mode === 'http' ? 'Streamable HTTP' : 'SSE'})`,
+	);
+	return httpServer;
+}
+
+/**
+ * Start the MCP server with the specified transport mode
+ *
+ * @param mode The transport mode to use (stdio, Streamable HTTP or legacy SSE)
+ * @param options Host and port for the HTTP transports
+ * @returns Promise that resolves to the MCP server (stdio) or the HTTP server (http, sse) once started
+ */
+export async function startServer(
+	mode: TransportMode = 'stdio',
+	options: ServeOptions = {},
+): Promise<McpServer | http.Server> {
+	const methodLogger = serverLogger.forMethod('startServer');
+
+	// Load configuration
+	methodLogger.info('Starting Whodis MCP server initialization...');
+	config.load();
+	methodLogger.info('Configuration loaded successfully');
+
+	// Enable debug logging if DEBUG is set
+	if (config.getBoolean('DEBUG')) {
+		methodLogger.debug('Debug mode enabled via config');
+	} else {
+		methodLogger.debug('Debug mode is disabled');
+	}
+	methodLogger.debug(`Resolved DEBUG config value: ${config.get('DEBUG')}`);
+
+	methodLogger.info(`Initializing Whodis MCP Server v${VERSION}`);
+
+	if (mode !== 'stdio') {
+		return startHttpServer(mode, options);
+	}
+
+	methodLogger.info('Using STDIO transport for MCP communication');
+	const server = createServer();
+	methodLogger.info('All tools registered successfully');
+
+	try {
+		methodLogger.info('Connecting to STDIO transport...');
+		await server.connect(new StdioServerTransport());
+		methodLogger.info(
+			'Whodis MCP server started successfully and ready to process requests',
+		);
+		return server;
+	} catch (err) {
+		methodLogger.error(`Failed to start MCP server`, err);
+		// Ensure graceful exit
+		process.exit(1);
+	}
+}
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { LruCache } from '../utils/cache.util.js';
+import { ErrorType } from '../utils/error.util.js';
+import { PACKAGE_NAME } from '../utils/constants.util.js';
+import {
+	VerdictConfidence,
+	VerdictEvidence,
+} from '../tools/domain-availability.types.js';
+
+const serviceLogger = Logger.forContext(
+	'services/availability-cache.service.ts',
+);
+
+/**
+ * Persistent cache file, stored next to the log files under $HOME/.mcp/data
+ */
+const CACHE_FILE_PATH = path.join(
+	os.homedir(),
+	'.mcp',
+	'data',
+	`${PACKAGE_NAME}.cache.json`,
+);
+
+/**
+ * A cached availability lookup outcome
+ */
+export interface CachedAvailability {
+	status: 'available' | 'unavailable' | 'premium' | 'reserved' | 'failed';
+	errorType?: ErrorType;
+	/** Error message when failed; why the name is premium or reserved otherwise */
+	message?: string;
+	/** Absent on entries cached before verdicts carried evidence */
+	confidence?: VerdictConfidence;
+	evidence?: VerdictEvidence;
+	checkedAt: string;
+}
+
+/**
+ * Cache statistics reported by `cache stats`
+ */
+export interface AvailabilityCacheStats {
+	enabled: boolean;
+	persistent: boolean;
+	filePath?: string;
+	entries: number;
+	byStatus: Record<CachedAvailability['status'], number>;
+	hits: number;
+	misses: number;
+	ttlSeconds: Record<CachedAvailability['status'], number>;
+}
+
+let cache: LruCache<CachedAvailability> | null = null;
+
+/**
+ * @namespace AvailabilityCacheService
+ * @description Cache of availability lookup outcomes, with a separate TTL per outcome.
+ * Configured with CACHE_ENABLED, CACHE_MAX_ENTRIES, CACHE_PERSIST and CACHE_TTL_{AVAILABLE,UNAVAILABLE,FAILED} (seconds).
+ */
+
+/**
+ * Get the TTL for each outcome, in seconds.
+ * @returns TTL per status
+ */
+function getTtlSeconds(): Record<CachedAvailability['status'], number> {
+	return {
+		available: config.getNumber('CACHE_TTL_AVAILABLE', 3600),
+		unavailable: config.getNumber('CACHE_TTL_UNAVAILABLE', 86400),
+		// Premium pricing changes like availability; registry reservations last like registrations
+		premium: config.getNumber('CACHE_TTL_AVAILABLE', 3600),
+		reserved: config.getNumber('CACHE_TTL_UNAVAILABLE', 86400),
+		failed: config.getNumber('CACHE_TTL_FAILED', 60),
+	};
+}
+
+/**
+ * Check whether caching is enabled.
+ * @returns true unless CACHE_ENABLED is false
+ */
+function isEnabled(): boolean {
+	return config.getBoolean('CACHE_ENABLED', true);
+}
+
+/**
+ * Check whether the cache is persisted to disk.
+ * @returns true if CACHE_PERSIST is set
+ */
+function isPersistent(): boolean {
+	return config.getBoolean('CACHE_PERSIST', false);
+}
+
+/**
+ * Get the cache, creating it (and loading the persisted entries) on first use.
+ * @returns The shared cache
+ */
+function getCache(): LruCache<CachedAvailability> {
+	if (!cache) {
+		cache = new LruCache<CachedAvailability>(
+			config.getNumber('CACHE_MAX_ENTRIES', 5000),
+		);
+		if (isPersistent()) {
+			cache.loadFrom(CACHE_FILE_PATH);
+		}
+	}
+	return cache;
+}
+
+/**
+ * Normalize a domain into a cache key.
+ * @param domain Domain name
+ * @returns Cache key
+ */
+function toKey(domain: string): string {
+	return domain.trim().toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Get the cached outcome for a domain.
+ *
+ * @function get
+ * @memberof AvailabilityCacheService
+ * @param {string} domain - The domain name.
+ * @returns {CachedAvailability | undefined} The cached outcome, or undefined on a miss or when caching is disabled.
+ */
+function get(domain: string): CachedAvailability | undefined {
+	if (!isEnabled()) {
+		return undefined;
+	}
+	return getCache().get(toKey(domain));
+}
+
+/**
+ * Cache the outcome of a lookup, using the TTL configured for its status.
+ *
+ * @function set
+ * @memberof AvailabilityCacheService
+ * @param {string} domain - The domain name.
+ * @param {Omit<CachedAvailability, 'checkedAt'>} outcome - The lookup outcome.
+ */
+function set(
+	domain: string,
+	outcome: Omit<CachedAvailability, 'checkedAt'>,
+): void {
+	if (!isEnabled()) {
+		return;
+	}
+	const ttlMs = getTtlSeconds()[outcome.status] * 1000;
+	getCache().set(
+		toKey(domain),
+		{ ...outcome, checkedAt: new Date().toISOString() },
+		ttlMs,
+	);
+}
+
+/**
+ * Write the cache to disk if persistence is enabled.
+ *
+ * @function persist
+ * @memberof AvailabilityCacheService
+ */
+function persist(): void {
+	if (isEnabled() && isPersistent()) {
+		getCache().saveTo(CACHE_FILE_PATH);
+	}
+}
+
+/**
+ * Remove every cached outcome, in memory and on disk.
+ *
+ * @function clear
+ * @memberof AvailabilityCacheService
+ * @returns {number} The number of entries removed.
+ */
+function clear(): number {
+	const methodLogger = serviceLogger.forMethod('clear');
+	const removed = getCache().getStats().entries;
+	getCache().clear();
+	if (fs.existsSync(CACHE_FILE_PATH)) {
+		fs.unlinkSync(CACHE_FILE_PATH);
+		methodLogger.debug(`Deleted cache file ${CACHE_FILE_PATH}`);
+	}
+	methodLogger.debug(`Cleared ${removed} cache entries`);
+	return removed;
+}
+
+/**
+ * Get cache statistics.
+ *
+ * @function stats
+ * @memberof AvailabilityCacheService
+ * @returns {AvailabilityCacheStats} Entry counts, hit/miss counters and configuration.
+ */
+function stats(): AvailabilityCacheStats {
+	const current = getCache();
+	const byStatus = {
+		available: 0,
+		unavailable: 0,
+		premium: 0,
+		reserved: 0,
+		failed: 0,
+	};
+	for (const [, value] of current.values()) {
+		byStatus[value.status]++;
+	}
+	const { entries, hits, misses } = current.getStats();
+	return {
+		enabled: isEnabled(),
+		persistent: isPersistent(),
+		filePath: isPersistent() ? CACHE_FILE_PATH : undefined,
+		entries,
+		byStatus,
+		hits,
+		misses,
+		ttlSeconds: getTtlSeconds(),
+	};
+}
+
+export default { get, set, persist, clear, stats };
@@ -0,0 +1,244 @@
+import { randomUUID } from 'crypto';
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { createApiError, ensureMcpError } from '../utils/error.util.js';
+import { normalizeDomainNames } from '../utils/domain-name.util.js';
+import domainAvailabilityService from './domain-availability.service.js';
+import { DomainResultRow } from '../tools/domain-availability.types.js';
+import {
+	AvailabilityJobPage,
+	AvailabilityJobStatus,
+	AvailabilityJobSummary,
+} from '../tools/availability-job.types.js';
+
+const serviceLogger = Logger.forContext('services/availability-job.service.ts');
+
+/**
+ * A background availability check
+ */
+interface AvailabilityJob {
+	id: string;
+	// Normalized domains to look up; invalid inputs are recorded as results when the job starts
+	domains: string[];
+	// Inputs that are not domain names, recorded as 'invalid' results when the job starts
+	invalidInputs: number;
+	status: AvailabilityJobStatus;
+	// Results in completion order; cancelled domains are appended when the job stops
+	results: DomainResultRow[];
+	counts: AvailabilityJobSummary['counts'];
+	controller: AbortController;
+	createdAt: Date;
+	finishedAt?: Date;
+	error?: string;
+	// Settles when the job stops running
+	done: Promise<void>;
+}
+
+const jobs = new Map<string, AvailabilityJob>();
+
+/**
+ * @namespace AvailabilityJobService
+ * @description In-process job manager for availability checks too large for one tool call.
+ * Jobs run in the background through the availability service (and so its cache and lookup scheduler)
+ * and are kept for AVAILABILITY_JOB_TTL seconds after they finish.
+ */
+
+/**
+ * Remove finished jobs whose retention period has passed.
+ */
+function pruneJobs(): void {
+	const ttlMs = config.getNumber('AVAILABILITY_JOB_TTL', 3600) * 1000;
+	const now = Date.now();
+	for (const [id, job] of jobs) {
+		if (job.finishedAt && job.finishedAt.getTime() + ttlMs <= now) {
+			jobs.delete(id);
+			serviceLogger.debug(`Expired availability job ${id}`);
+		}
+	}
+}
+
+/**
+ * Look up a job.
+ * @param jobId Job ID
+ * @returns The job
+ * @throws {McpError} 404 if the job does not exist or has expired
+ */
+function findJob(jobId: string): AvailabilityJob {
+	pruneJobs();
+	const job = jobs.get(jobId);
+	if (!job) {
+		throw createApiError(`Availability job ${jobId} not found`, 404);
+	}
+	return job;
+}
+
+/**
+ * Describe a job's current state.
+ * @param job The job
+ * @returns The job summary
+ */
+function summarize(job: AvailabilityJob): AvailabilityJobSummary {
+	return {
+		jobId: job.id,
+		status: job.status,
+		total: job.domains.length + job.invalidInputs,
+		completed: job.results.length - job.counts.cancelled,
+		counts: { ...job.counts },
+		createdAt: job.createdAt.toISOString(),
+		finishedAt: job.finishedAt?.toISOString(),
+		error: job.error,
+	};
+}
+
+/**
+ * Record one domain's result.
+ * @param job The job
+ * @param row The result
+ */
+function recordResult(job: AvailabilityJob, row: DomainResultRow): void {
+	job.results.push(row);
+	job.counts[row.status]++;
+}
+
+/**
+ * Run a job's check to completion (or cancellation).
+ * @param job The job
+ * @param fresh Bypass the result cache
+ */
+async function runJob(job: AvailabilityJob, fresh?: boolean): Promise<void> {
+	const methodLogger = serviceLogger.forMethod('runJob');
+	try {
+		const result = await domainAvailabilityService.check(job.domains, {
+			fresh,
+			signal: job.controller.signal,
+			onResult: ({ domain, status, errorType, message, confidence }) =>
+				recordResult(job, {
+					domain,
+					status,
+					errorType,
+					message,
+					confidence,
+				}),
+		});
+		for (const domain of result.cancelled ?? []) {
+			recordResult(job, { domain, status: 'cancelled' });
+		}
+		job.status = job.controller.signal.aborted ? 'cancelled' : 'completed';
+	} catch (error) {
+		job.status = 'failed';
+		job.error = ensureMcpError(error).message;
+		methodLogger.error(`Availability job ${job.id} failed`, error);
+	} finally {
+		job.finishedAt = new Date();
+		methodLogger.info(`Availability job ${job.id} ${job.status}`, {
+			...job.counts,
+		});
+	}
+}
+
+/**
+ * Starts checking a list of domains in the background.
+ *
+ * @function start
+ * @memberof AvailabilityJobService
+ * @param {string[]} domains - The domain names to check; URLs, emails, subdomains and IDNs are normalized and invalid inputs get an 'invalid' result.
+ * @param {{ fresh?: boolean }} [options] - `fresh` bypasses the result cache.
+ * @returns {AvailabilityJobSummary} The new job.
+ * @throws {McpError} 400 if the list exceeds AVAILABILITY_JOB_MAX_DOMAINS.
+ */
+function start(
+	domains: string[],
+	options: { fresh?: boolean } = {},
+): AvailabilityJobSummary {
+	const methodLogger = serviceLogger.forMethod('start');
+	pruneJobs();
+
+	const maxDomains = config.getNumber('AVAILABILITY_JOB_MAX_DOMAINS', 10000);
+	if (domains.length > maxDomains) {
+		throw createApiError(
+			`A job can check at most ${maxDomains} domains (got ${domains.length})`,
+			400,
+		);
+	}
+
+	// Inputs that are not domain names are finished right away as 'invalid'
+	const normalization = normalizeDomainNames(domains);
+	const job: AvailabilityJob = {
+		id: randomUUID(),
+		domains: normalization.domains,
+		invalidInputs: normalization.invalid.length,
+		status: 'running',
+		results: [],
+		counts: {
+			available: 0,
+			unavailable: 0,
+			failed: 0,
+			cancelled: 0,
+			invalid: 0,
+			reserved: 0,
+			premium: 0,
+		},
+		controller: new AbortController(),
+		createdAt: new Date(),
+		done: Promise.resolve(),
+	};
+	for (const { input, message } of normalization.invalid) {
+		recordResult(job, { domain: input, status: 'invalid', message });
+	}
+	job.done = runJob(job, options.fresh);
+	jobs.set(job.id, job);
+
+	methodLogger.info(
+		`Started availability job ${job.id} for ${domains.length} domains`,
+	);
+	return summarize(job);
+}
+
+/**
+ * Gets a job's state and a page of its results, in completion order.
+ *
+ * @function get
+ * @memberof AvailabilityJobService
+ * @param {string} jobId - The job ID.
+ * @param {number} startAt - Index of the first result to return.
+ * @param {number} limit - Maximum number of results to return.
+ * @returns {AvailabilityJobPage} The job summary and the requested results.
+ * @throws {McpError} 404 if the job does not exist or has expired.
+ */
+function get(
+	jobId: string,
+	startAt: number,
+	limit: number,
+): AvailabilityJobPage {
+	const job = findJob(jobId);
+	return {
+		job: summarize(job),
+		results: job.results.slice(startAt, startAt + limit),
+		startAt,
+		resultCount: job.results.length,
+	};
+}
+
+/**
+ * Cancels a running job. Queued lookups are dropped and open connections closed;
+ * results already recorded are kept.
+ *
+ * @function cancel
+ * @memberof AvailabilityJobService
+ * @param {string} jobId - The job ID.
+ * @returns {Promise<AvailabilityJobSummary>} The job once it has stopped (unchanged if it had already finished).
+ * @throws {McpError} 404 if the job does not exist or has expired.
+ */
+async function cancel(jobId: string): Promise<AvailabilityJobSummary> {
+	const job = findJob(jobId);
+	if (job.status === 'running') {
+		serviceLogger
+			.forMethod('cancel')
+			.info(`Cancelling availability job ${jobId}`);
+		job.controller.abort();
+		await job.done;
+	}
+	return summarize(job);
+}
+
+export default { start, get, cancel };
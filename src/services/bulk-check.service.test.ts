@@ -0,0 +1,246 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import bulkCheckService from './bulk-check.service.js';
+import domainAvailabilityService from './domain-availability.service.js';
+import { ErrorType } from '../utils/error.util.js';
+import { CheckDomainAvailabilityOptions } from '../tools/domain-availability.types.js';
+
+jest.mock('./domain-availability.service.js', () => ({
+	__esModule: true,
+	default: { check: jest.fn() },
+}));
+
+const mockedCheck = domainAvailabilityService.check as jest.MockedFunction<
+	typeof domainAvailabilityService.check
+>;
+
+/**
+ * Fake availability check: names starting with "free" are available, "slow" ones fail
+ * and everything else is registered. Reports each domain through onResult like the real service.
+ */
+async function fakeCheck(
+	domains: string[],
+	options: CheckDomainAvailabilityOptions = {},
+) {
+	const result = {
+		available: [] as string[],
+		unavailable: [] as string[],
+		failed: [] as {
+			domain: string;
+			errorType: ErrorType;
+			message: string;
+		}[],
+	};
+	domains.forEach((domain, index) => {
+		const status = domain.startsWith('free')
+			? 'available'
+			: domain.startsWith('slow')
+				? 'failed'
+				: 'unavailable';
+		if (status === 'failed') {
+			result.failed.push({
+				domain,
+				errorType: ErrorType.API_ERROR,
+				message: 'Timeout',
+			});
+		} else {
+			result[status].push(domain);
+		}
+		options.onResult?.({
+			domain,
+			status,
+			...(status === 'failed' && {
+				errorType: ErrorType.API_ERROR,
+				message: 'Timeout',
+			}),
+			completed: index + 1,
+			total: domains.length,
+		});
+	});
+	return result;
+}
+
+describe('BulkCheckService.run', () => {
+	let dir: string;
+	let journalPath: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bulk-check-'));
+		journalPath = path.join(dir, 'run.journal.ndjson');
+		mockedCheck.mockImplementation(fakeCheck);
+	});
+
+	afterEach(() => {
+		mockedCheck.mockReset();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('should journal each result with its line number and report progress', async () => {
+		const onProgress = jest.fn();
+
+		const summary = await bulkCheckService.run(
+			[
+				{ domain: 'free.example', line: 1 },
+				{ domain: 'taken.example', line: 2 },
+				{ domain: 'slow.example', line: 4 },
+			],
+			{ journalPath, chunkSize: 2, onProgress },
+		);
+
+		expect(mockedCheck).toHaveBeenCalledTimes(2);
+		expect(summary).toMatchObject({
+			total: 3,
+			resumed: 0,
+			checked: 3,
+			available: 1,
+			unavailable: 1,
+			failed: 1,
+			remaining: 0,
+		});
+		const journal = fs
+			.readFileSync(journalPath, 'utf8')
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line));
+		expect(journal).toEqual([
+			expect.objectContaining({
+				domain: 'free.example',
+				status: 'available',
+				line: 1,
+			}),
+			expect.objectContaining({
+				domain: 'taken.example',
+				status: 'unavailable',
+				line: 2,
+			}),
+			expect.objectContaining({
+				domain: 'slow.example',
+				status: 'failed',
+				message: 'Timeout',
+				line: 4,
+			}),
+		]);
+		expect(onProgress).toHaveBeenLastCalledWith(
+			expect.objectContaining({ completed: 3, total: 3 }),
+		);
+	});
+
+	it('should resume from the journal, skipping a line cut short by a crash', async () => {
+		fs.writeFileSync(
+			journalPath,
+			[
+				JSON.stringify({
+					domain: 'taken.example',
+					status: 'unavailable',
+					checkedAt: '2026-01-01T00:00:00.000Z',
+				}),
+				JSON.stringify({
+					domain: 'slow.example',
+					status: 'failed',
+					message: 'Timeout',
+					checkedAt: '2026-01-01T00:00:00.000Z',
+				}),
+				'{"domain":"free.exa',
+			].join('\n'),
+		);
+		const entries = [
+			{ domain: 'Taken.example' },
+			{ domain: 'slow.example' },
+			{ domain: 'free.example' },
+		];
+
+		const summary = await bulkCheckService.run(entries, { journalPath });
+		expect(mockedCheck).toHaveBeenCalledWith(
+			['free.example'],
+			expect.any(Object),
+		);
+		expect(summary).toMatchObject({
+			resumed: 2,
+			checked: 1,
+			available: 1,
+			unavailable: 1,
+			failed: 1,
+		});
+
+		mockedCheck.mockClear();
+		await bulkCheckService.run(entries, { journalPath, retryFailed: true });
+		expect(mockedCheck).toHaveBeenCalledWith(
+			['slow.example'],
+			expect.any(Object),
+		);
+	});
+
+	it('should stop after the current chunk when aborted and report the remaining domains', async () => {
+		const controller = new AbortController();
+		mockedCheck.mockImplementation(async (domains, options) => {
+			const result = await fakeCheck(domains, options);
+			controller.abort();
+			return result;
+		});
+
+		const summary = await bulkCheckService.run(
+			[
+				{ domain: 'free1.example' },
+				{ domain: 'free2.example' },
+				{ domain: 'free3.example' },
+			],
+			{ journalPath, chunkSize: 1, signal: controller.signal },
+		);
+
+		expect(mockedCheck).toHaveBeenCalledTimes(1);
+		expect(summary).toMatchObject({ checked: 1, remaining: 2 });
+	});
+
+	it('should normalize URLs, email addresses and IDNs and journal inputs that are not domains', async () => {
+		const summary = await bulkCheckService.run(
+			[
+				{ domain: 'https://www.Free.example/pricing', line: 1 },
+				{ domain: 'bob@taken.example', line: 2 },
+				{ domain: 'münchen.de', line: 3 },
+				{ domain: 'not a domain', line: 4 },
+				{ domain: 'free.example', line: 5 },
+			],
+			{ journalPath },
+		);
+
+		expect(mockedCheck).toHaveBeenCalledWith(
+			['free.example', 'taken.example', 'xn--mnchen-3ya.de'],
+			expect.any(Object),
+		);
+		expect(summary).toMatchObject({
+			total: 4,
+			available: 1,
+			unavailable: 2,
+			invalid: 1,
+		});
+		const journal = fs
+			.readFileSync(journalPath, 'utf8')
+			.trim()
+			.split('\n')
+			.map((line) => JSON.parse(line));
+		expect(journal).toEqual([
+			expect.objectContaining({
+				domain: 'not a domain',
+				status: 'invalid',
+				line: 4,
+			}),
+			expect.objectContaining({
+				domain: 'free.example',
+				status: 'available',
+				line: 1,
+			}),
+			expect.objectContaining({
+				domain: 'taken.example',
+				status: 'unavailable',
+				line: 2,
+			}),
+			expect.objectContaining({
+				domain: 'xn--mnchen-3ya.de',
+				unicode: 'münchen.de',
+				status: 'unavailable',
+				line: 3,
+			}),
+		]);
+	});
+});
@@ -0,0 +1,246 @@
+import { Logger } from '../utils/logger.util.js';
+import { createUnexpectedError } from '../utils/error.util.js';
+import { Journal } from '../utils/journal.util.js';
+import { DomainListEntry, toDomainKey } from '../utils/domain-list.util.js';
+import { normalizeDomainName } from '../utils/domain-name.util.js';
+import domainAvailabilityService from './domain-availability.service.js';
+import {
+	BulkCheckOptions,
+	BulkCheckSummary,
+	BulkJournalRecord,
+} from '../types/bulk-check.types.js';
+
+const serviceLogger = Logger.forContext('services/bulk-check.service.ts');
+
+/**
+ * Domains handed to the availability service at a time. The service queues every domain
+ * it is given at once, so chunking bounds memory on very large inputs.
+ */
+const DEFAULT_CHUNK_SIZE = 500;
+
+/**
+ * @namespace BulkCheckService
+ * @description Resumable availability checks over large domain lists. Results are appended to
+ * an NDJSON journal as they finish, and domains already in the journal are skipped on re-runs.
+ * Lookups go through the availability service, and so through its cache and lookup scheduler.
+ */
+
+/**
+ * Read the latest journaled result per domain.
+ * @param journalPath Journal file
+ * @returns Records keyed by domain key
+ */
+function readJournaled(journalPath: string): Map<string, BulkJournalRecord> {
+	const journaled = new Map<string, BulkJournalRecord>();
+	for (const record of Journal.read<BulkJournalRecord>(journalPath)) {
+		if (typeof record?.domain === 'string') {
+			journaled.set(toDomainKey(record.domain), record);
+		}
+	}
+	return journaled;
+}
+
+/**
+ * A normalized input of a bulk check: a registrable domain to look up, or an input that is not
+ * a domain name (kept as given, with why it was rejected)
+ */
+interface BulkCheckTarget {
+	domain: string;
+	line?: number;
+	unicode?: string;
+	invalid?: string;
+}
+
+/**
+ * Normalize the inputs as the availability controller does: URLs, emails, subdomains and IDNs
+ * become registrable ASCII domains. Inputs that normalize to the same domain are checked once,
+ * under the line number of the first one.
+ * @param entries Inputs with their line numbers
+ * @returns Distinct targets, in input order
+ */
+function toTargets(entries: DomainListEntry[]): BulkCheckTarget[] {
+	const targets = new Map<string, BulkCheckTarget>();
+	for (const entry of entries) {
+		const normalized = normalizeDomainName(entry.domain);
+		const target: BulkCheckTarget = normalized.valid
+			? {
+					domain: normalized.domain,
+					line: entry.line,
+					...(normalized.unicode && { unicode: normalized.unicode }),
+				}
+			: {
+					domain: entry.domain,
+					line: entry.line,
+					invalid: normalized.message,
+				};
+		const key = toDomainKey(target.domain);
+		if (!targets.has(key)) {
+			targets.set(key, target);
+		}
+	}
+	return [...targets.values()];
+}
+
+/**
+ * Checks a list of domains, journaling each result and resuming from the journal's earlier results.
+ * Inputs are normalized first; those that are not domain names are journaled as 'invalid'.
+ *
+ * @function run
+ * @memberof BulkCheckService
+ * @param {DomainListEntry[]} entries - Domains, hostnames, URLs or email addresses to check (already deduplicated), with their input line numbers.
+ * @param {BulkCheckOptions} options - Journal path and check options; `onProgress` is called after each lookup and aborting `signal` stops the run.
+ * @returns {Promise<BulkCheckSummary>} Counts over the whole input, including results resumed from the journal.
+ * @throws {McpError} If the journal cannot be written.
+ */
+async function run(
+	entries: DomainListEntry[],
+	options: BulkCheckOptions,
+): Promise<BulkCheckSummary> {
+	const methodLogger = serviceLogger.forMethod('run');
+	const startedAt = Date.now();
+	const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+
+	const targets = toTargets(entries);
+	const journaled = readJournaled(options.journalPath);
+	const results = new Map<string, BulkJournalRecord>();
+	const pending: BulkCheckTarget[] = [];
+	const invalid: BulkCheckTarget[] = [];
+	for (const target of targets) {
+		const key = toDomainKey(target.domain);
+		const record = journaled.get(key);
+		if (record && !(options.retryFailed && record.status === 'failed')) {
+			results.set(key, record);
+		} else if (target.invalid) {
+			invalid.push(target);
+		} else {
+			pending.push(target);
+		}
+	}
+	const resumed = results.size;
+	methodLogger.info(
+		`Bulk check of ${targets.length} domains: ${resumed} resumed from ${options.journalPath}, ${pending.length} to check, ${invalid.length} invalid`,
+	);
+
+	// A journal write failure stops the run: results that cannot be recorded would be lost
+	const writeFailure = new AbortController();
+	let writeError: unknown;
+	const signal = options.signal
+		? AbortSignal.any([options.signal, writeFailure.signal])
+		: writeFailure.signal;
+
+	const journal = new Journal<BulkJournalRecord>(options.journalPath);
+	let checked = 0;
+	const recordResult = (record: BulkJournalRecord) => {
+		try {
+			journal.append(record);
+		} catch (error) {
+			writeError ??= error;
+			writeFailure.abort();
+			return;
+		}
+		results.set(toDomainKey(record.domain), record);
+		checked++;
+
+		const ratePerSecond =
+			checked / Math.max((Date.now() - startedAt) / 1000, 0.001);
+		options.onProgress?.({
+			record,
+			completed: results.size,
+			total: targets.length,
+			ratePerSecond,
+			etaSeconds: (targets.length - results.size) / ratePerSecond,
+		});
+	};
+	try {
+		for (const target of invalid) {
+			if (signal.aborted) {
+				break;
+			}
+			recordResult({
+				domain: target.domain,
+				status: 'invalid',
+				message: target.invalid,
+				line: target.line,
+				checkedAt: new Date().toISOString(),
+			});
+		}
+
+		for (
+			let start = 0;
+			start < pending.length && !signal.aborted;
+			start += chunkSize
+		) {
+			const chunk = pending.slice(start, start + chunkSize);
+			const chunkTargets = new Map(
+				chunk.map((target) => [target.domain, target]),
+			);
+
+			await domainAvailabilityService.check(
+				chunk.map((target) => target.domain),
+				{
+					fresh: options.fresh,
+					signal,
+					onResult: ({
+						domain,
+						status,
+						errorType,
+						message,
+						confidence,
+					}) => {
+						const target = chunkTargets.get(domain);
+						recordResult({
+							domain,
+							status,
+							errorType,
+							message,
+							...(target?.unicode && { unicode: target.unicode }),
+							confidence,
+							line: target?.line,
+							checkedAt: new Date().toISOString(),
+						});
+					},
+				},
+			);
+		}
+	} finally {
+		journal.close();
+	}
+
+	if (writeError) {
+		throw createUnexpectedError(
+			`Failed to write journal ${options.journalPath}: ${(writeError as Error).message}`,
+			writeError,
+		);
+	}
+
+	const summary: BulkCheckSummary = {
+		journal: options.journalPath,
+		total: targets.length,
+		resumed,
+		checked,
+		available: 0,
+		unavailable: 0,
+		failed: 0,
+		invalid: 0,
+		reserved: 0,
+		premium: 0,
+		remaining: 0,
+		elapsedSeconds: (Date.now() - startedAt) / 1000,
+		ratePerSecond: 0,
+	};
+	for (const target of targets) {
+		const record = results.get(toDomainKey(target.domain));
+		if (record) {
+			summary[record.status]++;
+		} else {
+			summary.remaining++;
+		}
+	}
+	summary.ratePerSecond =
+		summary.elapsedSeconds > 0 ? checked / summary.elapsedSeconds : 0;
+
+	methodLogger.info(`Bulk check finished`, summary);
+	return summary;
+}
+
+export default { run };
@@ -0,0 +1,387 @@
+import fs from 'fs';
+import path from 'path';
+import domainAvailabilityService from './domain-availability.service.js';
+import availabilityCacheService from './availability-cache.service.js';
+import rdapService from './rdap.service.js';
+import { queryWhois } from '../utils/whois-query.util.js';
+import { createApiError } from '../utils/error.util.js';
+import {
+	LookupProvider,
+	ProviderLookupResult,
+} from '../types/lookup-provider.types.js';
+
+// Network access of the default providers: RDAP requests and WHOIS queries
+jest.mock('./rdap.service.js', () => {
+	const actual = jest.requireActual('./rdap.service.js');
+	return {
+		__esModule: true,
+		default: { ...actual.default, lookupDomain: jest.fn() },
+	};
+});
+jest.mock('../utils/whois-query.util.js', () => ({
+	...jest.requireActual('../utils/whois-query.util.js'),
+	queryWhois: jest.fn(),
+}));
+
+const mockedRdapLookup = rdapService.lookupDomain as jest.MockedFunction<
+	typeof rdapService.lookupDomain
+>;
+const mockedQueryWhois = queryWhois as jest.MockedFunction<typeof queryWhois>;
+
+/**
+ * Fake provider answering from a fixed table; domains missing from the table fail
+ */
+function createFakeProvider(
+	name: string,
+	answers: Record<
+		string,
+		'available' | 'unavailable' | 'reserved' | 'premium'
+	>,
+	supports: (domain: string) => boolean = () => true,
+): LookupProvider & { lookup: jest.Mock } {
+	return {
+		name,
+		supports,
+		lookup: jest.fn(
+			async (domain: string): Promise<ProviderLookupResult> => {
+				const status = answers[domain];
+				return status
+					? {
+							status,
+							confidence: 'high',
+							evidence: { source: name, rule: `${name}.table` },
+						}
+					: {
+							status: 'failed',
+							error: createApiError(
+								`${name} cannot answer for ${domain}`,
+							),
+						};
+			},
+		),
+	};
+}
+
+describe('Domain Availability Service', () => {
+	const originalCacheEnabled = process.env.CACHE_ENABLED;
+
+	beforeAll(() => {
+		process.env.CACHE_ENABLED = 'false';
+	});
+
+	afterAll(() => {
+		if (originalCacheEnabled === undefined) {
+			delete process.env.CACHE_ENABLED;
+		} else {
+			process.env.CACHE_ENABLED = originalCacheEnabled;
+		}
+	});
+
+	it('should keep the first definite answer and skip unsupported providers', async () => {
+		const registrar = createFakeProvider(
+			'registrar',
+			{ 'acme.io': 'unavailable' },
+			(domain) => domain.endsWith('.io'),
+		);
+		const fallback = createFakeProvider('fallback', {
+			'acme.io': 'available',
+			'acme.dev': 'available',
+		});
+
+		const result = await domainAvailabilityService.check(
+			['acme.io', 'acme.dev'],
+			{ providers: [registrar, fallback] },
+		);
+
+		expect(result.available).toEqual(['acme.dev']);
+		expect(result.unavailable).toEqual(['acme.io']);
+		expect(result.evidence?.['acme.io']).toEqual({
+			source: 'registrar',
+			rule: 'registrar.table',
+		});
+		expect(result.confidence?.['acme.dev']).toBe('high');
+		expect(registrar.lookup).toHaveBeenCalledTimes(1);
+		expect(fallback.lookup).toHaveBeenCalledWith('acme.dev', {
+			signal: undefined,
+		});
+	});
+
+	it('should try the next provider after a failure and report the last failure', async () => {
+		const first = createFakeProvider('first', {});
+		const second = createFakeProvider('second', {
+			'other.com': 'available',
+		});
+		const answer = second.lookup.getMockImplementation();
+		second.lookup.mockImplementation(async (domain: string) => {
+			if (domain === 'acme.com') {
+				throw new Error('connection reset');
+			}
+			return answer?.(domain);
+		});
+
+		const result = await domainAvailabilityService.check(
+			['acme.com', 'other.com'],
+			{ providers: [first, second] },
+		);
+
+		expect(result.failed).toEqual([
+			expect.objectContaining({
+				domain: 'acme.com',
+				message: 'connection reset',
+			}),
+		]);
+		expect(result.available).toEqual(['other.com']);
+		expect(first.lookup).toHaveBeenCalledTimes(2);
+	});
+
+	it('should not ask providers about names registry policy rules out', async () => {
+		const provider = createFakeProvider('fake', {});
+
+		const result = await domainAvailabilityService.check(
+			['ab--cd.com', 'nic.app'],
+			{ providers: [provider] },
+		);
+
+		expect(result.invalid?.map((entry) => entry.input)).toEqual([
+			'ab--cd.com',
+		]);
+		expect(result.reserved?.map((entry) => entry.domain)).toEqual([
+			'nic.app',
+		]);
+		expect(provider.lookup).not.toHaveBeenCalled();
+	});
+
+	it('should report reserved and premium names from providers and premium labels from policy', async () => {
+		const originalPolicies = process.env.DOMAIN_POLICIES;
+		process.env.DOMAIN_POLICIES = JSON.stringify({
+			io: { premiumLabels: ['gold'] },
+		});
+		const provider = createFakeProvider('fake', {
+			'held.com': 'reserved',
+			'fancy.com': 'premium',
+			'gold.io': 'available',
+			'gold.dev': 'available',
+		});
+
+		try {
+			const result = await domainAvailabilityService.check(
+				['held.com', 'fancy.com', 'gold.io', 'gold.dev'],
+				{ providers: [provider] },
+			);
+
+			expect(result.reserved).toEqual([
+				{
+					domain: 'held.com',
+					message: 'held.com is reserved according to fake',
+				},
+			]);
+			expect(result.premium?.map((entry) => entry.domain)).toEqual([
+				'fancy.com',
+				'gold.io',
+			]);
+			expect(result.evidence?.['gold.io']).toMatchObject({
+				source: 'policy',
+				rule: 'policy.io.premiumLabels',
+			});
+			expect(result.available).toEqual(['gold.dev']);
+		} finally {
+			if (originalPolicies === undefined) {
+				delete process.env.DOMAIN_POLICIES;
+			} else {
+				process.env.DOMAIN_POLICIES = originalPolicies;
+			}
+		}
+	});
+
+	it('should not credit a provider for results cached before evidence was recorded', async () => {
+		const provider = createFakeProvider('fresh', {});
+		process.env.CACHE_ENABLED = 'true';
+		try {
+			availabilityCacheService.set('legacy.com', {
+				status: 'unavailable',
+			});
+
+			const result = await domainAvailabilityService.check(
+				['legacy.com'],
+				{
+					providers: [provider],
+				},
+			);
+
+			expect(result.unavailable).toEqual(['legacy.com']);
+			expect(result.confidence?.['legacy.com']).toBe('medium');
+			expect(result.evidence?.['legacy.com']).toMatchObject({
+				source: 'unknown',
+			});
+			expect(provider.lookup).not.toHaveBeenCalled();
+		} finally {
+			availabilityCacheService.clear();
+			process.env.CACHE_ENABLED = 'false';
+		}
+	});
+
+	describe('with the default providers', () => {
+		const originalServers = process.env.WHOIS_SERVERS;
+
+		beforeAll(() => {
+			process.env.WHOIS_SERVERS = JSON.stringify({
+				xyz: 'whois.nic.xyz',
+			});
+		});
+
+		afterAll(() => {
+			if (originalServers === undefined) {
+				delete process.env.WHOIS_SERVERS;
+			} else {
+				process.env.WHOIS_SERVERS = originalServers;
+			}
+		});
+
+		afterEach(() => {
+			mockedRdapLookup.mockReset();
+			mockedQueryWhois.mockReset();
+		});
+
+		it('should confirm RDAP 404s over WHOIS, which reveals premium names', async () => {
+			mockedRdapLookup.mockImplementation(async () => ({
+				status: 'available',
+				server: 'https://rdap.centralnic.com/xyz/',
+			}));
+			mockedQueryWhois.mockImplementation(async ({ query }) => {
+				if (query.startsWith('gold.')) {
+					return fs.readFileSync(
+						path.join(
+							__dirname,
+							'../utils/fixtures/whois/xyz.premium.txt',
+						),
+						'utf8',
+					);
+				}
+				if (query.startsWith('free.')) {
+					return 'No match for "FREE.XYZ".';
+				}
+				throw createApiError('connect ECONNREFUSED');
+			});
+
+			const result = await domainAvailabilityService.check([
+				'gold.xyz',
+				'free.xyz',
+				'quiet.xyz',
+			]);
+
+			expect(result.premium).toEqual([
+				expect.objectContaining({ domain: 'gold.xyz' }),
+			]);
+			expect(result.available).toEqual(['free.xyz', 'quiet.xyz']);
+			expect(result.confidence).toMatchObject({
+				'gold.xyz': 'high',
+				'free.xyz': 'high',
+				// WHOIS could not confirm the RDAP 404
+				'quiet.xyz': 'medium',
+			});
+			expect(result.evidence?.['free.xyz'].source).toBe('whois');
+			expect(result.evidence?.['quiet.xyz']).toMatchObject({
+				source: 'rdap',
+				rule: 'rdap.404',
+			});
+		});
+	});
+
+	it('should report domains no provider supports as failed', async () => {
+		const provider = createFakeProvider('io-only', {}, () => false);
+
+		const result = await domainAvailabilityService.check(['acme.com'], {
+			providers: [provider],
+		});
+
+		expect(result.failed[0].message).toContain(
+			'No lookup provider supports acme.com',
+		);
+	});
+
+	describe('retries and deadline', () => {
+		const originalRetryDelay = process.env.LOOKUP_RETRY_DELAY;
+
+		beforeAll(() => {
+			process.env.LOOKUP_RETRY_DELAY = '10';
+		});
+
+		afterAll(() => {
+			if (originalRetryDelay === undefined) {
+				delete process.env.LOOKUP_RETRY_DELAY;
+			} else {
+				process.env.LOOKUP_RETRY_DELAY = originalRetryDelay;
+			}
+		});
+
+		it('should retry transient failures but not permanent ones', async () => {
+			const flaky: LookupProvider & { lookup: jest.Mock } = {
+				name: 'flaky',
+				supports: () => true,
+				lookup: jest
+					.fn()
+					.mockResolvedValueOnce({
+						status: 'failed',
+						error: createApiError('WHOIS lookup failed: Timeout'),
+					})
+					.mockResolvedValueOnce({
+						status: 'failed',
+						error: createApiError('Rate-limited', 429),
+					})
+					.mockResolvedValue({
+						status: 'available',
+						confidence: 'high',
+						evidence: { source: 'flaky' },
+					}),
+			};
+			const broken = createFakeProvider('broken', {});
+
+			const result = await domainAvailabilityService.check(['acme.com'], {
+				providers: [flaky],
+			});
+			const failed = await domainAvailabilityService.check(['acme.net'], {
+				providers: [broken],
+			});
+
+			expect(result.available).toEqual(['acme.com']);
+			expect(flaky.lookup).toHaveBeenCalledTimes(3);
+			expect(failed.failed).toHaveLength(1);
+			expect(broken.lookup).toHaveBeenCalledTimes(1);
+		});
+
+		it('should report lookups unfinished at the deadline as failed', async () => {
+			const slow: LookupProvider = {
+				name: 'slow',
+				supports: () => true,
+				lookup: (domain, { signal }) =>
+					domain === 'fast.com'
+						? Promise.resolve({
+								status: 'unavailable',
+								confidence: 'high',
+								evidence: { source: 'slow' },
+							})
+						: new Promise((_resolve, reject) =>
+								signal?.addEventListener('abort', () =>
+									reject(signal.reason),
+								),
+							),
+			};
+
+			const result = await domainAvailabilityService.check(
+				['fast.com', 'stuck.com'],
+				{ providers: [slow], deadline: 0.05 },
+			);
+
+			expect(result.unavailable).toEqual(['fast.com']);
+			expect(result.cancelled).toBeUndefined();
+			expect(result.failed).toEqual([
+				{
+					domain: 'stuck.com',
+					errorType: 'API_ERROR',
+					message:
+						'Lookup deadline of 0.05s exceeded before stuck.com was checked',
+				},
+			]);
+		});
+	});
+});
@@ -1,17 +1,296 @@
-import * as whoiser from 'whoiser'; // Use whoiser v1 as per docs provided
-import { Logger } from '../utils/logger.util.js'
-import { DomainAvailabilityResult } from '../tools/domain-availability.types.js'
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import lookupProviderService from './lookup-provider.service.js';
+import { excerptText } from '../utils/whois-rules.util.js';
+import availabilityCacheService from './availability-cache.service.js';
 import {
-    ensureMcpError
-} from '../utils/error.util.js'
+	findPremiumPolicy,
+	validateDomainPolicy,
+} from '../utils/domain-policy.util.js';
+import {
+	getRetryDelay,
+	getRetrySettings,
+	isTransientError,
+	waitForRetry,
+} from '../utils/retry.util.js';
+import {
+	CheckDomainAvailabilityOptions,
+	DomainAvailabilityResult,
+	VerdictConfidence,
+	VerdictEvidence,
+} from '../tools/domain-availability.types.js';
+import {
+	LookupProvider,
+	ProviderLookupResult,
+} from '../types/lookup-provider.types.js';
+import {
+	ErrorType,
+	McpError,
+	createApiError,
+	ensureMcpError,
+} from '../utils/error.util.js';
 
 const serviceLogger = Logger.forContext(
 	'services/domain-availability.service.ts',
 );
 
+/**
+ * Outcome of a single domain lookup, before it is sorted into the result buckets.
+ * Every outcome but 'cancelled' carries evidence, and every verdict a confidence level.
+ */
+type DomainLookupOutcome = {
+	domain: string;
+	confidence?: VerdictConfidence;
+	evidence?: VerdictEvidence;
+} & (
+	| { status: 'available' }
+	| { status: 'unavailable' }
+	| { status: 'failed'; error: McpError }
+	| { status: 'cancelled' }
+	| { status: 'invalid'; message: string }
+	| { status: 'reserved'; message: string }
+	| { status: 'premium'; message: string }
+);
+
+/**
+ * Look up a single domain with each provider in turn, keeping the first definite answer.
+ * Providers that do not support the domain are skipped; a provider that fails hands over to
+ * the next one, and the last failure is reported if none answers.
+ *
+ * An unconfirmed 'available' (an RDAP 404, which does not reveal premium or reserved names) is
+ * checked with the next provider that answers. Its answer is kept, unless it is an ambiguous
+ * 'unavailable' (low confidence); without one, the unconfirmed answer stands at its own confidence.
+ *
+ * @param {string} domain - The domain name to look up.
+ * @param {LookupProvider[]} providers - The providers, in the order they are asked.
+ * @param {Logger} domainLogger - Logger scoped to this domain.
+ * @param {AbortSignal} [signal] - Aborts queued and open queries; the outcome is then 'cancelled'.
+ * @returns {Promise<DomainLookupOutcome>} The classified outcome; never rejects.
+ */
+async function lookupDomain(
+	domain: string,
+	providers: LookupProvider[],
+	domainLogger: Logger,
+	signal?: AbortSignal,
+): Promise<DomainLookupOutcome> {
+	let failure: DomainLookupOutcome | undefined;
+	let unconfirmed: DomainLookupOutcome | undefined;
+	for (const provider of providers) {
+		if (!provider.supports(domain)) {
+			continue;
+		}
+		let result: ProviderLookupResult;
+		try {
+			result = await provider.lookup(domain, { signal });
+		} catch (error) {
+			if (signal?.aborted) {
+				break;
+			}
+			const mcpError = ensureMcpError(error);
+			result = {
+				status: 'failed',
+				error: mcpError,
+				evidence: {
+					source: 'error',
+					excerpt: excerptText(mcpError.message),
+				},
+			};
+		}
+		if (result.status === 'failed') {
+			domainLogger.debug(
+				`Provider ${provider.name} could not decide [${domain}]`,
+				result.error,
+			);
+			failure = { domain, ...result };
+			continue;
+		}
+		const { confidence, evidence } = result;
+		if (
+			!unconfirmed &&
+			result.status === 'available' &&
+			result.unconfirmed
+		) {
+			domainLogger.debug(
+				`Provider ${provider.name} reports [${domain}] as available; asking the next provider to confirm`,
+			);
+			unconfirmed = { domain, status: 'available', confidence, evidence };
+			continue;
+		}
+		if (
+			unconfirmed &&
+			result.status === 'unavailable' &&
+			confidence === 'low'
+		) {
+			break;
+		}
+		if (result.status === 'reserved') {
+			return {
+				domain,
+				status: 'reserved',
+				message:
+					result.message ??
+					`${domain} is reserved according to ${provider.name}`,
+				confidence,
+				evidence,
+			};
+		}
+		if (result.status === 'premium') {
+			return {
+				domain,
+				status: 'premium',
+				message:
+					result.message ??
+					`${domain} is a premium name according to ${provider.name}`,
+				confidence,
+				evidence,
+			};
+		}
+		return { domain, status: result.status, confidence, evidence };
+	}
+
+	if (signal?.aborted) {
+		domainLogger.debug(`Lookup for [${domain}] cancelled`);
+		return { domain, status: 'cancelled' };
+	}
+	return (
+		unconfirmed ??
+		failure ?? {
+			domain,
+			status: 'failed',
+			error: createApiError(
+				`No lookup provider supports ${domain} (providers: ${providers.map((provider) => provider.name).join(', ') || 'none'})`,
+			),
+		}
+	);
+}
+
+/**
+ * Look up a single domain, trying the providers again after a jittered exponential backoff while
+ * the lookup fails for a transient reason (timeouts, dropped connections, rate limiting).
+ * Retries are bounded by LOOKUP_RETRIES; a server that rate-limited the lookup is cooled down in
+ * the scheduler, so the retry also waits for the cool-down to end.
+ *
+ * @param {string} domain - The domain name to look up.
+ * @param {LookupProvider[]} providers - The providers, in the order they are asked.
+ * @param {Logger} domainLogger - Logger scoped to this domain.
+ * @param {AbortSignal} [signal] - Aborts queued and open queries and pending retries; the outcome is then 'cancelled'.
+ * @returns {Promise<DomainLookupOutcome>} The outcome of the last attempt; never rejects.
+ */
+async function lookupDomainWithRetries(
+	domain: string,
+	providers: LookupProvider[],
+	domainLogger: Logger,
+	signal?: AbortSignal,
+): Promise<DomainLookupOutcome> {
+	const settings = getRetrySettings();
+	for (let retry = 0; ; retry++) {
+		const outcome = await lookupDomain(
+			domain,
+			providers,
+			domainLogger,
+			signal,
+		);
+		if (
+			outcome.status !== 'failed' ||
+			retry >= settings.retries ||
+			!isTransientError(outcome.error)
+		) {
+			return outcome;
+		}
+
+		const delay = getRetryDelay(retry, settings);
+		domainLogger.debug(
+			`Retrying [${domain}] in ${delay}ms (retry ${retry + 1} of ${settings.retries}): ${outcome.error.message}`,
+		);
+		try {
+			await waitForRetry(delay, signal);
+		} catch {
+			domainLogger.debug(`Lookup for [${domain}] cancelled`);
+			return { domain, status: 'cancelled' };
+		}
+	}
+}
+
+/**
+ * Get a domain's cached outcome, if any.
+ *
+ * @param {string} domain - The domain name.
+ * @param {Logger} domainLogger - Logger scoped to this domain.
+ * @returns {DomainLookupOutcome | undefined} The cached outcome, or undefined on a miss.
+ */
+function getCachedOutcome(
+	domain: string,
+	domainLogger: Logger,
+): DomainLookupOutcome | undefined {
+	const cached = availabilityCacheService.get(domain);
+	if (!cached) {
+		return undefined;
+	}
+	domainLogger.debug(
+		`Domain [${domain}] served from cache (${cached.status}, checked ${cached.checkedAt})`,
+	);
+	// Entries cached before verdicts carried evidence are reported with their source unknown
+	const evidence: VerdictEvidence = {
+		source: 'unknown',
+		...cached.evidence,
+		cachedAt: cached.checkedAt,
+	};
+	const confidence = cached.confidence ?? 'medium';
+	switch (cached.status) {
+		case 'failed':
+			return {
+				domain,
+				status: 'failed',
+				error: new McpError(
+					cached.message ?? 'Lookup failed',
+					cached.errorType ?? ErrorType.UNEXPECTED_ERROR,
+				),
+				evidence,
+			};
+		case 'reserved':
+		case 'premium':
+			return {
+				domain,
+				status: cached.status,
+				message: cached.message ?? `${domain} is ${cached.status}`,
+				confidence,
+				evidence,
+			};
+		default:
+			return { domain, status: cached.status, confidence, evidence };
+	}
+}
+
+/**
+ * Report an unregistered domain as premium when its registry policy lists the label as premium.
+ *
+ * @param {DomainLookupOutcome} outcome - The outcome of the lookup (or cache).
+ * @returns {DomainLookupOutcome} The outcome, turned 'premium' for listed labels.
+ */
+function applyPremiumPolicy(outcome: DomainLookupOutcome): DomainLookupOutcome {
+	if (outcome.status !== 'available') {
+		return outcome;
+	}
+	const premium = findPremiumPolicy(outcome.domain);
+	if (!premium) {
+		return outcome;
+	}
+	return {
+		domain: outcome.domain,
+		status: 'premium',
+		message: premium.message,
+		confidence: 'high',
+		evidence: {
+			...outcome.evidence,
+			source: 'policy',
+			rule: `policy.${premium.policy}.premiumLabels`,
+		},
+	};
+}
+
 /**
  * @namespace DomainAvailabilityService
- * @description Service layer for checking domain availability using the whoiser library.
+ * @description Service layer for checking domain availability through an ordered list of lookup providers (by default RDAP, with WHOIS as the fallback, after any configured registrar APIs).
  */
 
 /**
@@ -20,136 +299,211 @@ const serviceLogger = Logger.forContext(
  * @function check
  * @memberof DomainAvailabilityService
  * @param {string[]} domains - An array of domain names to check.
- * @returns {Promise<DomainAvailabilityResult>} A promise that resolves to an object containing arrays of available and unavailable domains.
- * @throws {McpError} Throws an McpError if a fundamental issue occurs (e.g., library issue), but individual domain lookup errors are handled internally.
+ * @param {CheckDomainAvailabilityOptions} [options] - Check options: `fresh` bypasses the cache, `onResult` is called as each domain completes, aborting `signal` cancels the remaining lookups, `providers` replaces the configured lookup providers and `deadline` bounds the time the whole check may take (lookups still running then are reported as failed).
+ * @returns {Promise<DomainAvailabilityResult>} A promise that resolves to an object containing arrays of available, unavailable and failed domains, plus the cancelled ones if the signal was aborted. Domains their registry's policy rules out are listed under `invalid` or `reserved` without being looked up; names a lookup reports as withheld or premium-priced (or whose label the policy lists as premium) are listed under `reserved` or `premium`.
+ * @throws {McpError} Throws an McpError if a fundamental issue occurs (e.g., library issue), but individual domain lookup errors are reported in the `failed` list.
  */
-async function check(domains: string[]): Promise<DomainAvailabilityResult> {
+async function check(
+	domains: string[],
+	options: CheckDomainAvailabilityOptions = {},
+): Promise<DomainAvailabilityResult> {
 	const methodLogger = serviceLogger.forMethod('check');
 	methodLogger.debug(`Checking availability for ${domains.length} domains`, {
 		domains,
 	});
 
+	const providers = options.providers ?? lookupProviderService.getProviders();
+	const deadline = options.deadline ?? config.getNumber('LOOKUP_DEADLINE', 0);
+	const deadlineSignal =
+		deadline > 0 ? AbortSignal.timeout(deadline * 1000) : undefined;
+	const signal =
+		deadlineSignal && options.signal
+			? AbortSignal.any([options.signal, deadlineSignal])
+			: (deadlineSignal ?? options.signal);
+	const confidence: Record<string, VerdictConfidence> = {};
+	const evidence: Record<string, VerdictEvidence> = {};
 	const results: DomainAvailabilityResult = {
 		available: [],
 		unavailable: [],
+		failed: [],
+		confidence,
+		evidence,
 	};
 
-	// Use Promise.allSettled to handle potential errors for individual domains
+	// Use Promise.allSettled to handle potential errors for individual domains.
+	// The lookups themselves are queued by the shared scheduler, which caps concurrency
+	// and rate-limits each WHOIS/RDAP server.
+	let completed = 0;
 	const checks = await Promise.allSettled(
-		domains.map(async (domain) => {
+		domains.map(async (domain): Promise<DomainLookupOutcome> => {
 			const domainLogger = methodLogger.forMethod(`check:${domain}`);
-			try {
-				// Use whoiser.domain for potentially better parsing/handling
-				// Using default follow: 2 (Registry + Registrar) for better availability check
-				const domainInfo = await whoiser.domain(domain, { timeout: 5000 }); // 5s timeout
-
-				// Determine availability:
-				// If the lookup succeeds and returns *any* data object, assume it's registered (unavailable).
-				// The structure might vary, but non-empty object implies registration data was found.
-				if (
-					domainInfo &&
-					typeof domainInfo === 'object' &&
-					Object.keys(domainInfo).length > 0
-				) {
-					// Check for specific registrar data keys as a stronger indicator
-					const hasRegistrarData = Object.values(domainInfo).some(
-						(serverData: any) =>
-							serverData &&
-							(serverData['Registrar'] ||
-								serverData['Creation Date'] ||
-								serverData['Expiry Date']),
-					);
-
-					if (hasRegistrarData) {
-						domainLogger.debug(
-							`Domain [${domain}] is UNAVAILABLE (found registrar data)`,
-						);
-						return { domain, status: 'unavailable' };
-					} else {
-						// If no clear registrar data, but *some* response, it *might* be available but could also be an edge case.
-						// Let's lean towards available if no strong registration signs. Check for "No match" patterns.
-						const rawText = JSON.stringify(domainInfo).toLowerCase();
-						if (
-							rawText.includes('no match') ||
-							rawText.includes('not found') ||
-							rawText.includes('domain name not known') ||
-							rawText.includes('no entries found') ||
-                            rawText.includes('is available') ||
-							rawText.includes('is free')
-						) {
-							domainLogger.debug(
-								`Domain [${domain}] is AVAILABLE (explicit 'no match' found in response)`,
-							);
-							return { domain, status: 'available' };
-						} else {
-                            // If some data returned but no clear registration or "no match", treat as unavailable (safer default)
-						    domainLogger.warn(
-							    `Domain [${domain}] is treated as UNAVAILABLE (ambiguous response, no clear 'no match' or registrar data)`, domainInfo
-						    );
-						    return { domain, status: 'unavailable' };
-                        }
-					}
-				} else {
-					// Empty object response often indicates availability
-					domainLogger.debug(
-						`Domain [${domain}] is AVAILABLE (empty response object)`,
-					);
-					return { domain, status: 'available' };
-				}
-			} catch (error: any) {
-				// Handle errors: If specific "not found" errors occur, consider it available.
-				const errorMessage = (
-					error.message ||
-					String(error)
-				).toLowerCase();
-				if (
-					errorMessage.includes('no match') ||
-					errorMessage.includes('not found') ||
-					errorMessage.includes('domain name not known') ||
-                    errorMessage.includes('no entries found')
-				) {
-					domainLogger.debug(
-						`Domain [${domain}] is AVAILABLE (error indicates 'not found')`,
-						errorMessage,
-					);
-					return { domain, status: 'available' };
-				} else {
-					// Other errors (timeouts, network issues, unexpected format) are logged but don't confirm availability.
-					// We won't classify these definitively. Consider them *potentially* unavailable or lookup failed.
-					// For simplicity in this tool, we might log and skip, or treat as unavailable. Let's log and skip.
-					domainLogger.error(
-						`Failed to lookup domain [${domain}]. Skipping classification.`,
-						error,
-					);
-					// Returning null signifies a failed lookup for this domain
-					return { domain, status: 'failed', error: ensureMcpError(error) };
+
+			// Names the registry's policy rules out are settled without a lookup (and without caching)
+			const policy = validateDomainPolicy(domain);
+			const ruledOut: DomainLookupOutcome | undefined =
+				policy.verdict === 'valid'
+					? undefined
+					: {
+							domain,
+							status: policy.verdict,
+							message: policy.message ?? policy.verdict,
+							confidence: 'high',
+							evidence: {
+								source: 'policy',
+								rule: `policy.${policy.policy}`,
+							},
+						};
+			if (ruledOut) {
+				domainLogger.debug(
+					`Domain [${domain}] is ${policy.verdict.toUpperCase()} by policy (${policy.policy})`,
+				);
+			}
+
+			const cached =
+				options.fresh || ruledOut
+					? undefined
+					: getCachedOutcome(domain, domainLogger);
+			const lookedUp =
+				ruledOut ??
+				cached ??
+				(await lookupDomainWithRetries(
+					domain,
+					providers,
+					domainLogger,
+					signal,
+				));
+			// Premium lists apply on top of the cached lookup, so changes to them take effect at once
+			let outcome = applyPremiumPolicy(lookedUp);
+			if (outcome.status === 'cancelled') {
+				if (!deadlineSignal?.aborted || options.signal?.aborted) {
+					// Not cached and not reported as progress: the domain was never checked
+					return outcome;
 				}
+				// Out of time: reported as failed (so it can be retried) but not cached
+				const message = `Lookup deadline of ${deadline}s exceeded before ${domain} was checked`;
+				outcome = {
+					domain,
+					status: 'failed',
+					error: createApiError(message, 504),
+					evidence: { source: 'error', excerpt: message },
+				};
 			}
+			if (
+				!cached &&
+				!ruledOut &&
+				lookedUp.status !== 'invalid' &&
+				lookedUp.status !== 'cancelled'
+			) {
+				availabilityCacheService.set(
+					domain,
+					lookedUp.status === 'failed'
+						? {
+								status: 'failed',
+								errorType: lookedUp.error.type,
+								message: lookedUp.error.message,
+								evidence: lookedUp.evidence,
+							}
+						: {
+								status: lookedUp.status,
+								...((lookedUp.status === 'reserved' ||
+									lookedUp.status === 'premium') && {
+									message: lookedUp.message,
+								}),
+								confidence: lookedUp.confidence,
+								evidence: lookedUp.evidence,
+							},
+				);
+			}
+
+			completed++;
+			try {
+				options.onResult?.({
+					completed,
+					total: domains.length,
+					domain,
+					status: outcome.status,
+					...(outcome.status === 'failed' && {
+						errorType: outcome.error.type,
+						message: outcome.error.message,
+					}),
+					...((outcome.status === 'invalid' ||
+						outcome.status === 'reserved' ||
+						outcome.status === 'premium') && {
+						message: outcome.message,
+					}),
+					confidence: outcome.confidence,
+					evidence: outcome.evidence,
+				});
+			} catch (callbackError) {
+				domainLogger.warn('Progress callback failed', callbackError);
+			}
+			return outcome;
 		}),
 	);
 
 	// Process the results from Promise.allSettled
 	checks.forEach((result, index) => {
 		const domain = domains[index];
-		if (result.status === 'fulfilled' && result.value) {
-            const {status} = result.value;
-			if (status === 'available') {
+		if (result.status === 'fulfilled') {
+			const outcome = result.value;
+			if (outcome.confidence) {
+				confidence[domain] = outcome.confidence;
+			}
+			if (outcome.evidence) {
+				evidence[domain] = outcome.evidence;
+			}
+			if (outcome.status === 'available') {
 				results.available.push(domain);
-			} else if (status === 'unavailable') {
+			} else if (outcome.status === 'unavailable') {
 				results.unavailable.push(domain);
+			} else if (outcome.status === 'cancelled') {
+				(results.cancelled ??= []).push(domain);
+			} else if (outcome.status === 'invalid') {
+				(results.invalid ??= []).push({
+					input: domain,
+					message: outcome.message,
+				});
+			} else if (outcome.status === 'reserved') {
+				(results.reserved ??= []).push({
+					domain,
+					message: outcome.message,
+				});
+			} else if (outcome.status === 'premium') {
+				(results.premium ??= []).push({
+					domain,
+					message: outcome.message,
+				});
+			} else {
+				results.failed.push({
+					domain,
+					errorType: outcome.error.type,
+					message: outcome.error.message,
+				});
 			}
-            // 'failed' status is already logged above, so we just skip adding it to lists.
-		} else if (result.status === 'rejected') {
-			// This should ideally not happen if the inner try/catch is robust, but log it just in case.
+		} else {
+			// This should ideally not happen if the inner try/catch is robust, but report it just in case.
 			methodLogger.error(
 				`Unexpected rejection for domain [${domain}] lookup`,
 				result.reason,
 			);
+			const error = ensureMcpError(result.reason);
+			results.failed.push({
+				domain,
+				errorType: error.type,
+				message: error.message,
+			});
 		}
 	});
 
+	availabilityCacheService.persist();
+
+	if (results.cancelled) {
+		methodLogger.info(
+			`Check cancelled; ${results.cancelled.length} of ${domains.length} domains were not checked`,
+		);
+	}
 	methodLogger.debug('Finished checking domains', results);
 	return results;
 }
 
-export default { check };
\ No newline at end of file
+export default { check };
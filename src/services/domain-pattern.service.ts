@@ -0,0 +1,114 @@
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { createApiError } from '../utils/error.util.js';
+import {
+	PatternFilters,
+	countPatternExpansion,
+	expandDomainPattern,
+} from '../utils/domain-pattern.util.js';
+import { DomainCheckDryRun } from '../tools/domain-availability.types.js';
+
+const serviceLogger = Logger.forContext('services/domain-pattern.service.ts');
+
+/**
+ * Most names a single pattern may produce before filters; larger patterns are refused
+ * rather than enumerated
+ */
+const MAX_ENUMERATED = 1_000_000;
+
+/**
+ * Number of sample domains listed per pattern in a dry run
+ */
+const SAMPLE_SIZE = 10;
+
+/**
+ * @namespace DomainPatternService
+ * @description Expands domain patterns such as "[a-z]{3}.io" into the domains to check.
+ */
+
+/**
+ * Read the cap on pattern-expanded domains.
+ * @returns {number} PATTERN_MAX_DOMAINS (default 1000).
+ */
+function getMaxDomains(): number {
+	return config.getNumber('PATTERN_MAX_DOMAINS', 1000);
+}
+
+/**
+ * Expands patterns into distinct domains, in pattern and expansion order.
+ *
+ * @function expand
+ * @memberof DomainPatternService
+ * @param {string[]} patterns - The patterns.
+ * @param {PatternFilters} [filters] - Filters applied to each domain's first label.
+ * @returns {string[]} The matching domains.
+ * @throws {McpError} 400 for malformed patterns, or when the patterns expand to more than PATTERN_MAX_DOMAINS domains.
+ */
+function expand(patterns: string[], filters: PatternFilters = {}): string[] {
+	const methodLogger = serviceLogger.forMethod('expand');
+	const maxDomains = getMaxDomains();
+
+	const domains = new Set<string>();
+	for (const pattern of patterns) {
+		expandDomainPattern(pattern, filters, MAX_ENUMERATED).domains.forEach(
+			(domain) => domains.add(domain),
+		);
+		if (domains.size > maxDomains) {
+			throw createApiError(
+				`Patterns expand to more than ${maxDomains} domains (PATTERN_MAX_DOMAINS); add filters or narrow them, and use a dry run to see the counts`,
+				400,
+			);
+		}
+	}
+
+	methodLogger.debug(
+		`Expanded ${patterns.length} patterns into ${domains.size} domains`,
+		{ patterns, filters },
+	);
+	return [...domains];
+}
+
+/**
+ * Reports what the patterns expand to without checking anything, whether or not they fit the cap.
+ *
+ * @function preview
+ * @memberof DomainPatternService
+ * @param {string[]} patterns - The patterns.
+ * @param {PatternFilters} [filters] - Filters applied to each domain's first label.
+ * @param {string[]} [domains] - Literal domains that would be checked alongside the patterns.
+ * @returns {DomainCheckDryRun} Per-pattern counts and samples, and the number of distinct domains a real run would check.
+ * @throws {McpError} 400 for malformed patterns or filters.
+ */
+function preview(
+	patterns: string[],
+	filters: PatternFilters = {},
+	domains: string[] = [],
+): DomainCheckDryRun {
+	const allDomains = new Set(domains.map((domain) => domain.toLowerCase()));
+	let complete = true;
+
+	const previews = patterns.map((pattern) => {
+		const total = countPatternExpansion(pattern);
+		if (total > MAX_ENUMERATED) {
+			complete = false;
+			return { pattern, total, matching: null, sample: [] };
+		}
+		const expansion = expandDomainPattern(pattern, filters, MAX_ENUMERATED);
+		expansion.domains.forEach((domain) => allDomains.add(domain));
+		return {
+			pattern,
+			total,
+			matching: expansion.domains.length,
+			sample: expansion.domains.slice(0, SAMPLE_SIZE),
+		};
+	});
+
+	return {
+		dryRun: true,
+		patterns: previews,
+		domains: complete ? allDomains.size : null,
+		maxPatternDomains: getMaxDomains(),
+	};
+}
+
+export default { expand, preview };
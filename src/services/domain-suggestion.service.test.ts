@@ -0,0 +1,84 @@
+import domainSuggestionService from './domain-suggestion.service.js';
+import domainAvailabilityService from './domain-availability.service.js';
+import { McpError } from '../utils/error.util.js';
+
+jest.mock('./domain-availability.service.js', () => ({
+	__esModule: true,
+	default: { check: jest.fn() },
+}));
+
+const mockedCheck = domainAvailabilityService.check as jest.MockedFunction<
+	typeof domainAvailabilityService.check
+>;
+
+describe('Domain Suggestion Service', () => {
+	beforeEach(() => {
+		// Only .io names and the "getcloud" label are free
+		mockedCheck.mockReset();
+		mockedCheck.mockImplementation(async (domains) => ({
+			available: domains.filter(
+				(domain) =>
+					domain.endsWith('.io') || domain.startsWith('getcloud.'),
+			),
+			unavailable: domains.filter(
+				(domain) =>
+					!domain.endsWith('.io') && !domain.startsWith('getcloud.'),
+			),
+			failed: [],
+		}));
+	});
+
+	it('should return only available names, best first, up to the limit', async () => {
+		const result = await domainSuggestionService.suggest(['cloud'], {
+			tlds: ['com', 'io'],
+			maxLookups: 100,
+			limit: 3,
+		});
+
+		expect(result.suggestions.map((s) => s.domain)).toEqual([
+			'cloud.io',
+			'clouds.io',
+			'getcloud.com',
+		]);
+		expect(result.suggestions[0].strategy).toBe('exact');
+		expect(result.checked).toBe(result.generated);
+		expect(result.failed).toBe(0);
+	});
+
+	it('should spend at most maxLookups lookups on the best candidates', async () => {
+		const result = await domainSuggestionService.suggest(['cloud'], {
+			tlds: ['com', 'io'],
+			maxLookups: 2,
+		});
+
+		const checked = mockedCheck.mock.calls[0][0];
+		expect(checked).toEqual(['cloud.com', 'cloud.io']);
+		expect(result.checked).toBe(2);
+		expect(result.generated).toBeGreaterThan(2);
+		expect(result.suggestions.map((s) => s.domain)).toEqual(['cloud.io']);
+	});
+
+	it('should estimate the cost of the suggestions when asked', async () => {
+		const result = await domainSuggestionService.suggest(['cloud'], {
+			tlds: ['com', 'io'],
+			limit: 2,
+			includePricing: true,
+		});
+
+		expect(Object.keys(result.pricing ?? {})).toEqual([
+			'cloud.io',
+			'clouds.io',
+		]);
+		expect(result.pricing?.['cloud.io']).toMatchObject({
+			tld: 'io',
+			currency: 'USD',
+		});
+	});
+
+	it('should reject keywords that produce no candidates', async () => {
+		await expect(
+			domainSuggestionService.suggest(['!!!']),
+		).rejects.toBeInstanceOf(McpError);
+		expect(mockedCheck).not.toHaveBeenCalled();
+	});
+});
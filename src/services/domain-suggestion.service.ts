@@ -0,0 +1,84 @@
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { createApiError } from '../utils/error.util.js';
+import { generateCandidates } from '../utils/name-generator.util.js';
+import domainAvailabilityService from './domain-availability.service.js';
+import { estimateDomainPrices } from '../utils/tld-pricing.util.js';
+import {
+	DomainSuggestionResult,
+	SuggestDomainsOptions,
+} from '../tools/domain-suggestion.types.js';
+
+const serviceLogger = Logger.forContext(
+	'services/domain-suggestion.service.ts',
+);
+
+/**
+ * TLDs used when the caller does not choose any
+ */
+const DEFAULT_TLDS = ['com', 'io', 'dev', 'app', 'co'];
+
+/**
+ * @namespace DomainSuggestionService
+ * @description Generates candidate names from keywords and keeps the ones the availability service reports as available.
+ */
+
+/**
+ * Suggests available domain names for a set of keywords.
+ * Candidates are ranked first, and only the best `maxLookups` of them are looked up.
+ *
+ * @function suggest
+ * @memberof DomainSuggestionService
+ * @param {string[]} keywords - Seed keywords.
+ * @param {SuggestDomainsOptions} [options] - TLDs, lookup cap (default SUGGEST_MAX_LOOKUPS or 50), result limit (default 10), `fresh`, `includePricing` (adds the estimated cost of each suggestion) and a cancellation `signal`.
+ * @returns {Promise<DomainSuggestionResult>} Available names, best first, with how many candidates were generated and checked.
+ * @throws {McpError} 400 if the keywords produce no valid candidate.
+ */
+async function suggest(
+	keywords: string[],
+	options: SuggestDomainsOptions = {},
+): Promise<DomainSuggestionResult> {
+	const methodLogger = serviceLogger.forMethod('suggest');
+	const maxLookups =
+		options.maxLookups ?? config.getNumber('SUGGEST_MAX_LOOKUPS', 50);
+	const limit = options.limit ?? 10;
+
+	const candidates = generateCandidates(keywords, {
+		tlds: options.tlds?.length ? options.tlds : DEFAULT_TLDS,
+	});
+	if (candidates.length === 0) {
+		throw createApiError(
+			`No valid domain names can be generated from: ${keywords.join(', ')}`,
+			400,
+		);
+	}
+
+	const toCheck = candidates.slice(0, Math.max(1, maxLookups));
+	methodLogger.debug(
+		`Checking ${toCheck.length} of ${candidates.length} candidates`,
+		{ keywords },
+	);
+
+	const result = await domainAvailabilityService.check(
+		toCheck.map((candidate) => candidate.domain),
+		{ fresh: options.fresh, signal: options.signal },
+	);
+	const available = new Set(result.available);
+	const suggestions = toCheck
+		.filter((candidate) => available.has(candidate.domain))
+		.slice(0, limit);
+
+	return {
+		suggestions,
+		generated: candidates.length,
+		checked: toCheck.length - (result.cancelled?.length ?? 0),
+		failed: result.failed.length,
+		...(options.includePricing && {
+			pricing: estimateDomainPrices(
+				suggestions.map((suggestion) => suggestion.domain),
+			),
+		}),
+	};
+}
+
+export default { suggest };
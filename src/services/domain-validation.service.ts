@@ -0,0 +1,62 @@
+import { Logger } from '../utils/logger.util.js';
+import { normalizeDomainName } from '../utils/domain-name.util.js';
+import { validateDomainPolicy } from '../utils/domain-policy.util.js';
+import {
+	DomainValidation,
+	DomainValidationResult,
+} from '../tools/domain-validation.types.js';
+
+const serviceLogger = Logger.forContext(
+	'services/domain-validation.service.ts',
+);
+
+/**
+ * @namespace DomainValidationService
+ * @description Checks domain names against syntax rules and registry policies, without any WHOIS or RDAP lookup.
+ */
+
+/**
+ * Validates domain names: each input is normalized to its registrable domain, then checked
+ * against the registry policy of its TLD.
+ *
+ * @function validate
+ * @memberof DomainValidationService
+ * @param {string[]} domains - Domain names, hostnames, URLs or email addresses.
+ * @returns {DomainValidationResult} One verdict per input, in input order, with the count of each verdict.
+ */
+function validate(domains: string[]): DomainValidationResult {
+	const methodLogger = serviceLogger.forMethod('validate');
+
+	const results = domains.map((input): DomainValidation => {
+		const normalized = normalizeDomainName(input);
+		if (!normalized.valid) {
+			return { input, verdict: 'invalid', message: normalized.message };
+		}
+		const policy = validateDomainPolicy(normalized.domain);
+		return {
+			input,
+			domain: normalized.domain,
+			...(normalized.unicode && { unicode: normalized.unicode }),
+			verdict: policy.verdict,
+			policy: policy.policy,
+			...(policy.message && { message: policy.message }),
+		};
+	});
+
+	const count = (verdict: DomainValidation['verdict']) =>
+		results.filter((result) => result.verdict === verdict).length;
+	const result = {
+		results,
+		valid: count('valid'),
+		invalid: count('invalid'),
+		reserved: count('reserved'),
+	};
+	methodLogger.debug(`Validated ${domains.length} domains`, {
+		valid: result.valid,
+		invalid: result.invalid,
+		reserved: result.reserved,
+	});
+	return result;
+}
+
+export default { validate };
@@ -0,0 +1,96 @@
+import labelSweepService from './label-sweep.service.js';
+import domainAvailabilityService from './domain-availability.service.js';
+import rdapService from './rdap.service.js';
+import { ErrorType, McpError } from '../utils/error.util.js';
+import { TLD_PRESETS } from '../utils/tld-presets.util.js';
+
+jest.mock('./domain-availability.service.js', () => ({
+	__esModule: true,
+	default: { check: jest.fn() },
+}));
+
+const mockedCheck = domainAvailabilityService.check as jest.MockedFunction<
+	typeof domainAvailabilityService.check
+>;
+
+describe('Label Sweep Service', () => {
+	beforeEach(() => {
+		// .io names are free, .ai lookups time out and everything else is taken
+		mockedCheck.mockReset();
+		mockedCheck.mockImplementation(async (domains) => ({
+			available: domains.filter((domain) => domain.endsWith('.io')),
+			unavailable: domains.filter((domain) => !/\.(io|ai)$/.test(domain)),
+			failed: domains
+				.filter((domain) => domain.endsWith('.ai'))
+				.map((domain) => ({
+					domain,
+					errorType: ErrorType.API_ERROR,
+					message: 'Timeout',
+				})),
+		}));
+	});
+
+	it('should expand presets, dedupe TLDs and keep input order', () => {
+		expect(labelSweepService.resolveTlds(['.IO', 'popular'])).toEqual([
+			'io',
+			...TLD_PRESETS.popular.filter((tld) => tld !== 'io'),
+		]);
+		expect(labelSweepService.resolveTlds(['country:eu'])).toContain('de');
+	});
+
+	it('should derive all-gtlds from the RDAP bootstrap registry', () => {
+		const gtlds = labelSweepService.resolveTlds(['all-gtlds']);
+		const bootstrapTlds = rdapService
+			.getBootstrap()
+			.services.flatMap(([tlds]) => tlds);
+
+		// The bundled registry covers every gTLD, not a hand-picked subset
+		expect(gtlds.length).toBeGreaterThan(1000);
+		expect(gtlds).toEqual(expect.arrayContaining(['com', 'shop', 'xyz']));
+		expect(gtlds.every((tld) => bootstrapTlds.includes(tld))).toBe(true);
+		expect(gtlds.some((tld) => tld.length === 2)).toBe(false);
+	});
+
+	it('should reject unknown presets and invalid TLDs', () => {
+		expect(() => labelSweepService.resolveTlds(['country:mars'])).toThrow(
+			/Unknown TLD preset/,
+		);
+		expect(() => labelSweepService.resolveTlds(['co.uk'])).toThrow(
+			McpError,
+		);
+	});
+
+	it('should check every label on every TLD and return a grid', async () => {
+		const result = await labelSweepService.check(
+			['Acme', 'widget', 'acme'],
+			['com', 'io', 'ai'],
+		);
+
+		expect(mockedCheck.mock.calls[0][0]).toEqual([
+			'acme.com',
+			'acme.io',
+			'acme.ai',
+			'widget.com',
+			'widget.io',
+			'widget.ai',
+		]);
+		expect(result.labels).toEqual(['acme', 'widget']);
+		expect(result.tlds).toEqual(['com', 'io', 'ai']);
+		expect(result.matrix.acme).toEqual({
+			com: 'unavailable',
+			io: 'available',
+			ai: 'failed',
+		});
+		expect(result.failed.map((failure) => failure.domain)).toEqual([
+			'acme.ai',
+			'widget.ai',
+		]);
+	});
+
+	it('should reject labels that include a TLD before any lookup', async () => {
+		await expect(
+			labelSweepService.check(['acme.com'], ['io']),
+		).rejects.toThrow(/invalid: acme\.com/);
+		expect(mockedCheck).not.toHaveBeenCalled();
+	});
+});
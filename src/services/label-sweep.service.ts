@@ -0,0 +1,155 @@
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { createApiError } from '../utils/error.util.js';
+import {
+	ALL_GTLDS_PRESET,
+	TLD_PRESETS,
+	isGenericTld,
+	listTldPresets,
+} from '../utils/tld-presets.util.js';
+import domainAvailabilityService from './domain-availability.service.js';
+import rdapService from './rdap.service.js';
+import { estimateDomainPrices } from '../utils/tld-pricing.util.js';
+import {
+	LabelSweepOptions,
+	LabelSweepResult,
+} from '../tools/label-sweep.types.js';
+
+const serviceLogger = Logger.forContext('services/label-sweep.service.ts');
+
+/**
+ * TLD set used when the caller does not choose any
+ */
+const DEFAULT_TLDS = ['popular'];
+
+/**
+ * @namespace LabelSweepService
+ * @description Checks labels on many TLDs at once and arranges the results as a label × TLD grid.
+ */
+
+/**
+ * Expand a list of TLDs and preset names into TLDs, dropping duplicates.
+ *
+ * @function resolveTlds
+ * @memberof LabelSweepService
+ * @param {string[]} entries - TLDs (with or without a leading dot) and preset names such as "popular" or "country:eu".
+ * @returns {string[]} Lowercase TLDs without dots, in input order.
+ * @throws {McpError} 400 for an unknown preset or an entry that is not a valid TLD.
+ */
+function resolveTlds(entries: string[]): string[] {
+	const tlds = new Set<string>();
+	for (const entry of entries) {
+		const name = entry.trim().toLowerCase().replace(/^\./, '');
+		if (name === ALL_GTLDS_PRESET) {
+			// ICANN requires every gTLD registry to run RDAP, so the bootstrap registry lists them all
+			rdapService
+				.getBootstrap()
+				.services.flatMap(([serviceTlds]) => serviceTlds)
+				.map((tld) => tld.toLowerCase())
+				.filter(isGenericTld)
+				.sort()
+				.forEach((tld) => tlds.add(tld));
+		} else if (TLD_PRESETS[name]) {
+			TLD_PRESETS[name].forEach((tld) => tlds.add(tld));
+		} else if (name.includes(':')) {
+			throw createApiError(
+				`Unknown TLD preset "${entry}". Presets: ${listTldPresets().join(', ')}`,
+				400,
+			);
+		} else if (
+			/^(xn--)?[a-z0-9]{2,63}$/.test(name) &&
+			!/^\d+$/.test(name)
+		) {
+			tlds.add(name);
+		} else {
+			throw createApiError(
+				`"${entry}" is neither a TLD nor a preset (${listTldPresets().join(', ')})`,
+				400,
+			);
+		}
+	}
+	return [...tlds];
+}
+
+/**
+ * Checks every label on every TLD through the availability service, under its rate limits and cache.
+ *
+ * @function check
+ * @memberof LabelSweepService
+ * @param {string[]} labels - Names without a TLD (e.g. "acme").
+ * @param {string[]} [tlds] - TLDs and preset names (default: the "popular" preset).
+ * @param {LabelSweepOptions} [options] - `fresh` bypasses the cache, `onResult` reports each lookup, `signal` cancels the sweep and `includePricing` adds the estimated cost of each available domain.
+ * @returns {Promise<LabelSweepResult>} The expanded TLDs and the status of every label.tld.
+ * @throws {McpError} 400 for invalid labels or TLDs, or when the grid exceeds LABEL_SWEEP_MAX_DOMAINS.
+ */
+async function check(
+	labels: string[],
+	tlds: string[] = DEFAULT_TLDS,
+	options: LabelSweepOptions = {},
+): Promise<LabelSweepResult> {
+	const methodLogger = serviceLogger.forMethod('check');
+
+	const normalizedLabels = [
+		...new Set(labels.map((label) => label.trim().toLowerCase())),
+	];
+	const invalid = normalizedLabels.filter(
+		(label) => !/^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/.test(label),
+	);
+	if (invalid.length > 0) {
+		throw createApiError(
+			`Labels must be single names without a TLD (e.g. "acme"); invalid: ${invalid.join(', ')}`,
+			400,
+		);
+	}
+
+	const resolvedTlds = resolveTlds(tlds.length > 0 ? tlds : DEFAULT_TLDS);
+	const maxDomains = config.getNumber('LABEL_SWEEP_MAX_DOMAINS', 2000);
+	const total = normalizedLabels.length * resolvedTlds.length;
+	if (total > maxDomains) {
+		throw createApiError(
+			`A sweep can check at most ${maxDomains} domains (got ${normalizedLabels.length} labels × ${resolvedTlds.length} TLDs)`,
+			400,
+		);
+	}
+
+	const domains = normalizedLabels.flatMap((label) =>
+		resolvedTlds.map((tld) => `${label}.${tld}`),
+	);
+	methodLogger.debug(
+		`Checking ${normalizedLabels.length} labels on ${resolvedTlds.length} TLDs`,
+	);
+	const { includePricing, ...checkOptions } = options;
+	const result = await domainAvailabilityService.check(domains, checkOptions);
+
+	const statuses = new Map<
+		string,
+		LabelSweepResult['matrix'][string][string]
+	>();
+	result.available.forEach((domain) => statuses.set(domain, 'available'));
+	result.unavailable.forEach((domain) => statuses.set(domain, 'unavailable'));
+	result.failed.forEach(({ domain }) => statuses.set(domain, 'failed'));
+	result.cancelled?.forEach((domain) => statuses.set(domain, 'cancelled'));
+	result.invalid?.forEach(({ input }) => statuses.set(input, 'invalid'));
+	result.reserved?.forEach(({ domain }) => statuses.set(domain, 'reserved'));
+	result.premium?.forEach(({ domain }) => statuses.set(domain, 'premium'));
+
+	const matrix: LabelSweepResult['matrix'] = {};
+	for (const label of normalizedLabels) {
+		matrix[label] = {};
+		for (const tld of resolvedTlds) {
+			matrix[label][tld] = statuses.get(`${label}.${tld}`) ?? 'cancelled';
+		}
+	}
+
+	return {
+		labels: normalizedLabels,
+		tlds: resolvedTlds,
+		matrix,
+		failed: result.failed,
+		...(includePricing && {
+			pricing: estimateDomainPrices(result.available),
+		}),
+	};
+}
+
+export default { check, resolveTlds };
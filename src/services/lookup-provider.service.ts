@@ -0,0 +1,97 @@
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import rdapProvider from '../providers/rdap.provider.js';
+import whoisProvider from '../providers/whois.provider.js';
+import { createHttpRegistrarProvider } from '../providers/http-registrar.provider.js';
+import {
+	HttpRegistrarProviderConfig,
+	LookupProvider,
+} from '../types/lookup-provider.types.js';
+
+const serviceLogger = Logger.forContext('services/lookup-provider.service.ts');
+
+/**
+ * @namespace LookupProviderService
+ * @description Builds the ordered list of availability lookup providers from the configuration.
+ */
+
+/**
+ * Read the registrar providers from the REGISTRAR_PROVIDERS config value, skipping incomplete entries.
+ * @returns One provider per valid entry
+ */
+function getRegistrarProviders(): LookupProvider[] {
+	const methodLogger = serviceLogger.forMethod('getRegistrarProviders');
+	const entries = config.getJson<HttpRegistrarProviderConfig[]>(
+		'REGISTRAR_PROVIDERS',
+	);
+	if (!Array.isArray(entries)) {
+		return [];
+	}
+
+	return entries.flatMap((entry) => {
+		if (!entry?.name || !entry.url || !entry.availablePath) {
+			methodLogger.warn(
+				'Ignoring REGISTRAR_PROVIDERS entry without a name, url or availablePath',
+				entry,
+			);
+			return [];
+		}
+		try {
+			new URL(entry.url.replace('{domain}', 'example.com'));
+		} catch {
+			methodLogger.warn(
+				`Ignoring registrar provider ${entry.name}: invalid url ${entry.url}`,
+			);
+			return [];
+		}
+		return [createHttpRegistrarProvider(entry)];
+	});
+}
+
+/**
+ * Gets the providers the availability service asks, in order.
+ *
+ * By default: the registrar providers from REGISTRAR_PROVIDERS (authoritative for the TLDs they
+ * sell), then RDAP (unless RDAP_ENABLED is false), then WHOIS. LOOKUP_PROVIDERS, a comma-separated
+ * list of provider names (e.g. "acme,whois"), replaces that order.
+ *
+ * @function getProviders
+ * @memberof LookupProviderService
+ * @returns {LookupProvider[]} The providers, in the order they are asked.
+ */
+function getProviders(): LookupProvider[] {
+	const methodLogger = serviceLogger.forMethod('getProviders');
+	const available = [
+		...getRegistrarProviders(),
+		...(config.getBoolean('RDAP_ENABLED', true) ? [rdapProvider] : []),
+		whoisProvider,
+	];
+
+	const order = config
+		.get('LOOKUP_PROVIDERS')
+		?.split(',')
+		.map((name) => name.trim())
+		.filter(Boolean);
+	if (!order || order.length === 0) {
+		return available;
+	}
+
+	const providers = order.flatMap((name) => {
+		const provider = available.find((entry) => entry.name === name);
+		if (!provider) {
+			methodLogger.warn(
+				`Ignoring unknown or disabled provider "${name}" in LOOKUP_PROVIDERS`,
+			);
+		}
+		return provider ? [provider] : [];
+	});
+	if (providers.length === 0) {
+		methodLogger.warn(
+			'LOOKUP_PROVIDERS names no usable provider; using the default order',
+		);
+		return available;
+	}
+	return providers;
+}
+
+export default { getProviders };
@@ -0,0 +1,88 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import rdapService from './rdap.service.js';
+import { McpError } from '../utils/error.util.js';
+
+describe('RDAP Service', () => {
+	let server: http.Server;
+	let baseUrl: string;
+
+	beforeAll(async () => {
+		// Local stand-in for a registry RDAP server
+		server = http.createServer((req, res) => {
+			if (req.url === '/rdap/domain/registered.test') {
+				res.writeHead(200, { 'Content-Type': 'application/rdap+json' });
+				res.end(
+					JSON.stringify({
+						objectClassName: 'domain',
+						ldhName: 'REGISTERED.TEST',
+						status: ['client transfer prohibited'],
+						events: [
+							{
+								eventAction: 'registration',
+								eventDate: '2001-02-03T04:05:06Z',
+							},
+						],
+					}),
+				);
+			} else if (req.url === '/rdap/domain/broken.test') {
+				res.writeHead(503);
+				res.end();
+			} else {
+				res.writeHead(404, { 'Content-Type': 'application/rdap+json' });
+				res.end(JSON.stringify({ errorCode: 404 }));
+			}
+		});
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rdap/`;
+
+		rdapService.loadBootstrap({
+			services: [[['test'], [baseUrl]]],
+		});
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	describe('findServer', () => {
+		it('should resolve the base URL for a bootstrapped TLD', () => {
+			expect(rdapService.findServer('example.TEST')).toBe(baseUrl);
+		});
+
+		it('should return undefined for TLDs without RDAP service', () => {
+			expect(rdapService.findServer('example.invalid')).toBeUndefined();
+		});
+	});
+
+	describe('lookupDomain', () => {
+		it('should report a registered domain with its record', async () => {
+			const result = await rdapService.lookupDomain('registered.test');
+
+			expect(result).not.toBeNull();
+			expect(result!.status).toBe('registered');
+			expect(result!.server).toBe(baseUrl);
+			if (result!.status === 'registered') {
+				expect(result!.record.ldhName).toBe('REGISTERED.TEST');
+			}
+		});
+
+		it('should report a 404 as available', async () => {
+			const result = await rdapService.lookupDomain('free.test');
+
+			expect(result).toEqual({ status: 'available', server: baseUrl });
+		});
+
+		it('should return null when no RDAP server covers the TLD', async () => {
+			const result = await rdapService.lookupDomain('example.invalid');
+
+			expect(result).toBeNull();
+		});
+
+		it('should throw an McpError for unexpected HTTP statuses', async () => {
+			await expect(
+				rdapService.lookupDomain('broken.test'),
+			).rejects.toBeInstanceOf(McpError);
+		});
+	});
+});
@@ -0,0 +1,279 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { createApiError, ensureMcpError } from '../utils/error.util.js';
+import {
+	RdapBootstrap,
+	RdapDomainResponse,
+	RdapLookupResult,
+} from '../types/rdap.types.js';
+import bundledBootstrap from '../data/rdap-bootstrap.json';
+
+const serviceLogger = Logger.forContext('services/rdap.service.ts');
+
+/**
+ * Default location of the IANA RDAP bootstrap registry for DNS.
+ * Can be overridden with the RDAP_BOOTSTRAP_URL config value.
+ */
+const DEFAULT_BOOTSTRAP_URL = 'https://data.iana.org/rdap/dns.json';
+
+/**
+ * Default RDAP request timeout in milliseconds.
+ */
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Refreshed bootstrap registries are stored next to the log files.
+ */
+const BOOTSTRAP_CACHE_PATH = path.join(
+	os.homedir(),
+	'.mcp',
+	'data',
+	'rdap-bootstrap.json',
+);
+
+// TLD -> RDAP base URLs, built lazily from the active bootstrap registry
+let tldIndex: Map<string, string[]> | null = null;
+let activeBootstrap: RdapBootstrap | null = null;
+
+/**
+ * @namespace RdapService
+ * @description Service layer for RDAP domain lookups, driven by the IANA bootstrap registry.
+ */
+
+/**
+ * Check that a parsed JSON document looks like an RDAP bootstrap registry.
+ * @param data Parsed JSON value
+ * @returns true if the value has a usable `services` array
+ */
+function isBootstrap(data: unknown): data is RdapBootstrap {
+	return (
+		typeof data === 'object' &&
+		data !== null &&
+		Array.isArray((data as RdapBootstrap).services) &&
+		(data as RdapBootstrap).services.every(
+			(service) =>
+				Array.isArray(service) &&
+				Array.isArray(service[0]) &&
+				Array.isArray(service[1]),
+		)
+	);
+}
+
+/**
+ * Install a bootstrap registry as the active one and rebuild the TLD index.
+ *
+ * @function loadBootstrap
+ * @memberof RdapService
+ * @param {RdapBootstrap} bootstrap - The bootstrap registry to use for subsequent lookups.
+ */
+function loadBootstrap(bootstrap: RdapBootstrap): void {
+	const index = new Map<string, string[]>();
+	for (const [tlds, urls] of bootstrap.services) {
+		for (const tld of tlds) {
+			index.set(tld.toLowerCase(), urls);
+		}
+	}
+	activeBootstrap = bootstrap;
+	tldIndex = index;
+	serviceLogger.debug(
+		`Loaded RDAP bootstrap (${index.size} TLDs, published ${bootstrap.publication ?? 'unknown'})`,
+	);
+}
+
+/**
+ * Get the TLD index, loading the refreshed registry from disk if present and the bundled one otherwise.
+ * @returns Map of TLD to RDAP base URLs
+ */
+function getTldIndex(): Map<string, string[]> {
+	if (tldIndex) {
+		return tldIndex;
+	}
+
+	const methodLogger = serviceLogger.forMethod('getTldIndex');
+	try {
+		if (fs.existsSync(BOOTSTRAP_CACHE_PATH)) {
+			const cached = JSON.parse(
+				fs.readFileSync(BOOTSTRAP_CACHE_PATH, 'utf8'),
+			);
+			if (isBootstrap(cached)) {
+				methodLogger.debug(
+					`Using refreshed RDAP bootstrap from ${BOOTSTRAP_CACHE_PATH}`,
+				);
+				loadBootstrap(cached);
+				return tldIndex!;
+			}
+			methodLogger.warn(
+				`Ignoring invalid RDAP bootstrap at ${BOOTSTRAP_CACHE_PATH}`,
+			);
+		}
+	} catch (error) {
+		methodLogger.warn('Failed to read refreshed RDAP bootstrap', error);
+	}
+
+	loadBootstrap(bundledBootstrap as RdapBootstrap);
+	return tldIndex!;
+}
+
+/**
+ * Find the RDAP base URL responsible for a domain's TLD.
+ *
+ * @function findServer
+ * @memberof RdapService
+ * @param {string} domain - The domain name (ASCII/punycode form).
+ * @returns {string | undefined} The base URL, or undefined if the TLD has no RDAP service in the registry.
+ */
+function findServer(domain: string): string | undefined {
+	const tld = domain.toLowerCase().replace(/\.$/, '').split('.').pop();
+	if (!tld) {
+		return undefined;
+	}
+	const urls = getTldIndex().get(tld);
+	if (!urls || urls.length === 0) {
+		return undefined;
+	}
+	// Prefer HTTPS endpoints when the registry lists several
+	return urls.find((url) => url.startsWith('https://')) ?? urls[0];
+}
+
+/**
+ * Look up a domain over RDAP.
+ *
+ * @function lookupDomain
+ * @memberof RdapService
+ * @param {string} domain - The domain name to look up.
+ * @param {object} [options] - Lookup options.
+ * @param {number} [options.timeout] - Request timeout in milliseconds.
+ * @param {AbortSignal} [options.signal] - Aborts the request, rejecting with the signal's reason.
+ * @returns {Promise<RdapLookupResult | null>} The lookup outcome, or null if no RDAP server covers the TLD.
+ * @throws {McpError} If the RDAP server cannot be reached or returns an unexpected response.
+ */
+async function lookupDomain(
+	domain: string,
+	options: { timeout?: number; signal?: AbortSignal } = {},
+): Promise<RdapLookupResult | null> {
+	const methodLogger = serviceLogger.forMethod('lookupDomain');
+	const server = findServer(domain);
+	if (!server) {
+		methodLogger.debug(`No RDAP server for [${domain}]`);
+		return null;
+	}
+
+	const url = `${server}${server.endsWith('/') ? '' : '/'}domain/${encodeURIComponent(domain)}`;
+	methodLogger.debug(`Querying RDAP for [${domain}]`, { url });
+
+	const timeoutSignal = AbortSignal.timeout(
+		options.timeout ?? DEFAULT_TIMEOUT_MS,
+	);
+	let response: Response;
+	try {
+		response = await fetch(url, {
+			headers: { Accept: 'application/rdap+json, application/json' },
+			signal: options.signal
+				? AbortSignal.any([timeoutSignal, options.signal])
+				: timeoutSignal,
+		});
+	} catch (error) {
+		if (options.signal?.aborted) {
+			throw options.signal.reason;
+		}
+		throw createApiError(
+			`RDAP lookup failed for ${domain}: ${ensureMcpError(error).message}`,
+			undefined,
+			error,
+		);
+	}
+
+	if (response.status === 404) {
+		methodLogger.debug(`RDAP server returned 404 for [${domain}]`);
+		return { status: 'available', server };
+	}
+
+	if (!response.ok) {
+		throw createApiError(
+			`RDAP lookup failed for ${domain}: HTTP ${response.status}`,
+			response.status,
+		);
+	}
+
+	let record: RdapDomainResponse;
+	try {
+		record = (await response.json()) as RdapDomainResponse;
+	} catch (error) {
+		if (options.signal?.aborted) {
+			throw options.signal.reason;
+		}
+		throw createApiError(
+			`RDAP server returned invalid JSON for ${domain}`,
+			response.status,
+			error,
+		);
+	}
+
+	methodLogger.debug(`RDAP server returned a record for [${domain}]`);
+	return { status: 'registered', server, record };
+}
+
+/**
+ * Download the latest IANA bootstrap registry, persist it under $HOME/.mcp/data and make it active.
+ *
+ * @function refreshBootstrap
+ * @memberof RdapService
+ * @returns {Promise<RdapBootstrap>} The newly loaded bootstrap registry.
+ * @throws {McpError} If the registry cannot be downloaded or is malformed.
+ */
+async function refreshBootstrap(): Promise<RdapBootstrap> {
+	const methodLogger = serviceLogger.forMethod('refreshBootstrap');
+	const url = config.get('RDAP_BOOTSTRAP_URL', DEFAULT_BOOTSTRAP_URL)!;
+	methodLogger.debug(`Refreshing RDAP bootstrap from ${url}`);
+
+	let data: unknown;
+	try {
+		const response = await fetch(url, {
+			signal: AbortSignal.timeout(30000),
+		});
+		if (!response.ok) {
+			throw createApiError(
+				`Failed to download RDAP bootstrap: HTTP ${response.status}`,
+				response.status,
+			);
+		}
+		data = await response.json();
+	} catch (error) {
+		throw ensureMcpError(error);
+	}
+
+	if (!isBootstrap(data)) {
+		throw createApiError(
+			'Downloaded RDAP bootstrap registry is malformed (missing services)',
+		);
+	}
+
+	fs.mkdirSync(path.dirname(BOOTSTRAP_CACHE_PATH), { recursive: true });
+	fs.writeFileSync(BOOTSTRAP_CACHE_PATH, JSON.stringify(data), 'utf8');
+	loadBootstrap(data);
+	methodLogger.debug(`Saved RDAP bootstrap to ${BOOTSTRAP_CACHE_PATH}`);
+	return data;
+}
+
+/**
+ * Get the currently active bootstrap registry.
+ *
+ * @function getBootstrap
+ * @memberof RdapService
+ * @returns {RdapBootstrap} The active bootstrap registry.
+ */
+function getBootstrap(): RdapBootstrap {
+	getTldIndex();
+	return activeBootstrap!;
+}
+
+export default {
+	lookupDomain,
+	findServer,
+	loadBootstrap,
+	refreshBootstrap,
+	getBootstrap,
+};
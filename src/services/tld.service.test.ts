@@ -0,0 +1,58 @@
+import * as whoiser from 'whoiser';
+import tldService from './tld.service.js';
+import { McpError } from '../utils/error.util.js';
+
+jest.mock('whoiser', () => ({ tld: jest.fn() }));
+
+const mockedTld = whoiser.tld as jest.MockedFunction<typeof whoiser.tld>;
+
+describe('TldService.get', () => {
+	afterEach(() => {
+		mockedTld.mockReset();
+	});
+
+	it('should normalize the IANA delegation record', async () => {
+		// Shape produced by whoiser's parser for `whois -h whois.iana.org com`
+		mockedTld.mockResolvedValue({
+			domain: 'COM',
+			organisation: {
+				organisation: 'VeriSign Global Registry Services',
+				address: '12061 Bluemont Way',
+			},
+			nserver:
+				'A.GTLD-SERVERS.NET 192.5.6.30 2001:503:a83e:0:0:0:2:30\nB.GTLD-SERVERS.NET 192.33.14.30',
+			'ds-rdata':
+				'19718 13 2 8acbb0cd28f41250a80a491389424d341522d946b0da0c0291f2d3d771d7805a',
+			whois: 'WHOIS.VERISIGN-GRS.COM',
+			status: 'ACTIVE',
+			remarks: 'Registration information: http://www.verisigninc.com',
+			created: '1985-01-01',
+			changed: '2023-12-07',
+		} as unknown as whoiser.WhoisSearchResult);
+
+		const info = await tldService.get('.COM');
+
+		expect(mockedTld).toHaveBeenCalledWith('com', expect.anything());
+		expect(info).toEqual({
+			tld: 'com',
+			organisation: 'VeriSign Global Registry Services',
+			whoisServer: 'whois.verisign-grs.com',
+			rdapServer: 'https://rdap.verisign.com/com/v1/',
+			nameServers: ['a.gtld-servers.net', 'b.gtld-servers.net'],
+			dnssec: true,
+			status: 'ACTIVE',
+			created: '1985-01-01',
+			changed: '2023-12-07',
+			remarks: 'Registration information: http://www.verisigninc.com',
+		});
+	});
+
+	it('should report unknown TLDs as not found', async () => {
+		mockedTld.mockRejectedValue(new Error('TLD "nope" not found'));
+
+		const error = await tldService.get('nope').catch((e) => e);
+		expect(error).toBeInstanceOf(McpError);
+		expect(error.statusCode).toBe(404);
+		expect(error.message).toBe('TLD .nope not found');
+	});
+});
@@ -0,0 +1,98 @@
+import * as whoiser from 'whoiser';
+import rdapService from './rdap.service.js';
+import whoisServerService from './whois-server.service.js';
+import { Logger } from '../utils/logger.util.js';
+import { createApiError } from '../utils/error.util.js';
+import { getLookupScheduler } from '../utils/scheduler.util.js';
+import { TldInfo } from '../types/tld.types.js';
+
+const serviceLogger = Logger.forContext('services/tld.service.ts');
+
+/**
+ * IANA's WHOIS server, which holds the delegation record of every TLD.
+ */
+const IANA_WHOIS_SERVER = 'whois.iana.org';
+
+/**
+ * @namespace TldService
+ * @description Service layer for retrieving registry information about top-level domains.
+ */
+
+/**
+ * Read a string field from a parsed IANA response.
+ * @param data Parsed response
+ * @param key Field name
+ * @returns The trimmed value, or undefined if missing or not a string
+ */
+function getText(
+	data: Record<string, unknown>,
+	key: string,
+): string | undefined {
+	const value = data[key];
+	return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Retrieves the IANA delegation record of a TLD, together with its RDAP servers.
+ *
+ * @function get
+ * @memberof TldService
+ * @param {string} tld - The TLD, with or without a leading dot (e.g. "com" or ".dev").
+ * @returns {Promise<TldInfo>} The TLD's registry details.
+ * @throws {McpError} 404 if IANA has no record of the TLD, or an API error if the query fails.
+ */
+async function get(tld: string): Promise<TldInfo> {
+	const methodLogger = serviceLogger.forMethod('get');
+	const normalized = tld.trim().toLowerCase().replace(/^\./, '');
+	methodLogger.debug(`Retrieving TLD info for .${normalized}`);
+
+	let data: Record<string, unknown>;
+	try {
+		data = (await getLookupScheduler().schedule(IANA_WHOIS_SERVER, () =>
+			whoiser.tld(normalized, {
+				timeout: whoisServerService.getQuerySettings().timeout,
+			}),
+		)) as Record<string, unknown>;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		if (/not found/i.test(message)) {
+			throw createApiError(`TLD .${normalized} not found`, 404, error);
+		}
+		throw createApiError(
+			`IANA lookup failed for .${normalized}: ${message}`,
+			undefined,
+			error,
+		);
+	}
+
+	// The organisation block is parsed as its own group
+	const organisationGroup = data.organisation;
+	const organisation =
+		typeof organisationGroup === 'object' && organisationGroup !== null
+			? getText(
+					organisationGroup as Record<string, unknown>,
+					'organisation',
+				)
+			: getText(data, 'organisation');
+
+	const info: TldInfo = {
+		tld: normalized,
+		organisation,
+		whoisServer: getText(data, 'whois')?.toLowerCase(),
+		rdapServer: rdapService.findServer(normalized),
+		nameServers: (getText(data, 'nserver') ?? '')
+			.split('\n')
+			.map((line) => line.trim().split(/\s+/)[0]?.toLowerCase())
+			.filter((ns): ns is string => Boolean(ns)),
+		dnssec: Boolean(getText(data, 'ds-rdata')),
+		status: getText(data, 'status'),
+		created: getText(data, 'created'),
+		changed: getText(data, 'changed'),
+		remarks: getText(data, 'remarks'),
+	};
+
+	methodLogger.debug(`Retrieved TLD info for .${normalized}`, info);
+	return info;
+}
+
+export default { get };
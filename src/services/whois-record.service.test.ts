@@ -0,0 +1,267 @@
+import * as whoiser from 'whoiser';
+import whoisRecordService from './whois-record.service.js';
+import whoisServerService from './whois-server.service.js';
+import { McpError } from '../utils/error.util.js';
+
+jest.mock('whoiser', () => ({ domain: jest.fn() }));
+jest.mock('./whois-server.service.js', () => ({
+	__esModule: true,
+	default: {
+		getServers: jest.fn(),
+		getQuerySettings: jest.fn(() => ({ timeout: 5000, followDepth: 2 })),
+	},
+}));
+
+const mockedDomain = whoiser.domain as jest.MockedFunction<
+	typeof whoiser.domain
+>;
+const mockedGetServers = whoisServerService.getServers as jest.MockedFunction<
+	typeof whoisServerService.getServers
+>;
+
+// Shape produced by whoiser's parser for a .com domain, registry first
+const REGISTRY_RESPONSE = {
+	'Domain Name': 'EXAMPLE.COM',
+	Registrar: 'Example Registrar, Inc.',
+	'Created Date': '1995-08-14T04:00:00Z',
+	'Updated Date': '2024-08-14T07:01:34Z',
+	'Expiry Date': '2025-08-13T04:00:00Z',
+	'Domain Status': [
+		'clientDeleteProhibited https://icann.org/epp#clientDeleteProhibited',
+		'clientTransferProhibited https://icann.org/epp#clientTransferProhibited',
+	],
+	'Name Server': ['A.IANA-SERVERS.NET', 'B.IANA-SERVERS.NET'],
+	DNSSEC: 'signedDelegation',
+	text: [],
+};
+
+const REGISTRAR_RESPONSE = {
+	'Domain Name': 'example.com',
+	Registrar: 'Example Registrar, Inc.',
+	'Registrant Organization': 'Example Org',
+	'Created Date': '14 Aug 1995',
+	'Domain Status': [
+		'clientTransferProhibited https://icann.org/epp#clientTransferProhibited',
+		'clientUpdateProhibited https://icann.org/epp#clientUpdateProhibited',
+	],
+	'Name Server': ['b.iana-servers.net.', 'c.iana-servers.net.'],
+	text: [],
+};
+
+/**
+ * Answer whoiser queries from a table of parsed responses by server, the way whoiser answers a
+ * single-server query. Referrals to the next server go in the raw response, as in real WHOIS output.
+ */
+function mockServers(
+	responses: Record<string, Record<string, unknown>>,
+	referrals: Record<string, string> = {},
+) {
+	mockedDomain.mockImplementation(async (_domain, options) => {
+		const host = options?.host as string;
+		return {
+			[host]: {
+				...responses[host],
+				__raw: referrals[host]
+					? `Registrar WHOIS Server: ${referrals[host]}\n`
+					: '',
+			},
+		} as unknown as Awaited<ReturnType<typeof whoiser.domain>>;
+	});
+}
+
+const REFERRAL = { 'whois.verisign-grs.com': 'whois.example-registrar.com' };
+
+describe('WhoisRecordService.get', () => {
+	beforeEach(() => {
+		mockedGetServers.mockResolvedValue(['whois.verisign-grs.com']);
+	});
+
+	afterEach(() => {
+		mockedDomain.mockReset();
+		mockedGetServers.mockReset();
+	});
+
+	it('should merge the follow chain and record the source of each field', async () => {
+		mockServers(
+			{
+				'whois.verisign-grs.com': REGISTRY_RESPONSE,
+				'whois.example-registrar.com': REGISTRAR_RESPONSE,
+			},
+			REFERRAL,
+		);
+
+		const record = await whoisRecordService.get('example.com');
+
+		// Each server is queried (and scheduled) on its own
+		expect(mockedDomain.mock.calls.map(([, options]) => options)).toEqual([
+			expect.objectContaining({
+				host: 'whois.verisign-grs.com',
+				follow: 1,
+			}),
+			expect.objectContaining({
+				host: 'whois.example-registrar.com',
+				follow: 1,
+			}),
+		]);
+
+		expect(record).toEqual({
+			domain: 'example.com',
+			registrar: 'Example Registrar, Inc.',
+			registrantOrganization: 'Example Org',
+			createdDate: '1995-08-14T04:00:00.000Z',
+			updatedDate: '2024-08-14T07:01:34.000Z',
+			expiryDate: '2025-08-13T04:00:00.000Z',
+			statuses: [
+				'clientDeleteProhibited',
+				'clientTransferProhibited',
+				'clientUpdateProhibited',
+			],
+			nameServers: [
+				'a.iana-servers.net',
+				'b.iana-servers.net',
+				'c.iana-servers.net',
+			],
+			dnssec: 'signedDelegation',
+			servers: ['whois.verisign-grs.com', 'whois.example-registrar.com'],
+			fieldSources: {
+				registrar: [
+					'whois.verisign-grs.com',
+					'whois.example-registrar.com',
+				],
+				registrantOrganization: ['whois.example-registrar.com'],
+				createdDate: [
+					'whois.verisign-grs.com',
+					'whois.example-registrar.com',
+				],
+				updatedDate: ['whois.verisign-grs.com'],
+				expiryDate: ['whois.verisign-grs.com'],
+				statuses: [
+					'whois.verisign-grs.com',
+					'whois.example-registrar.com',
+				],
+				nameServers: [
+					'whois.verisign-grs.com',
+					'whois.example-registrar.com',
+				],
+				dnssec: ['whois.verisign-grs.com'],
+			},
+		});
+	});
+
+	it('should leave out redacted registrant organizations', async () => {
+		mockServers(
+			{
+				'whois.verisign-grs.com': REGISTRY_RESPONSE,
+				'whois.example-registrar.com': {
+					...REGISTRAR_RESPONSE,
+					'Registrant Organization': 'REDACTED FOR PRIVACY',
+				},
+			},
+			REFERRAL,
+		);
+
+		const record = await whoisRecordService.get('example.com');
+
+		expect(record.registrantOrganization).toBeUndefined();
+		expect(record.fieldSources.registrantOrganization).toBeUndefined();
+	});
+
+	it('should keep dates it cannot parse as given', async () => {
+		mockServers({
+			'whois.verisign-grs.com': {
+				...REGISTRY_RESPONSE,
+				'Expiry Date': 'no date given',
+			},
+		});
+
+		const record = await whoisRecordService.get('example.com');
+
+		expect(record.createdDate).toBe('1995-08-14T04:00:00.000Z');
+		expect(record.expiryDate).toBe('no date given');
+	});
+
+	it('should use the registry answer when the registrar server fails', async () => {
+		mockServers(
+			{
+				'whois.verisign-grs.com': REGISTRY_RESPONSE,
+				'whois.example-registrar.com': {
+					error: 'connect ECONNREFUSED',
+				},
+			},
+			REFERRAL,
+		);
+
+		const record = await whoisRecordService.get('example.com');
+
+		expect(record.servers).toEqual([
+			'whois.verisign-grs.com',
+			'whois.example-registrar.com',
+		]);
+		expect(record.registrar).toBe('Example Registrar, Inc.');
+		expect(record.registrantOrganization).toBeUndefined();
+		expect(record.fieldSources.registrar).toEqual([
+			'whois.verisign-grs.com',
+		]);
+	});
+
+	it('should fail over to the next registry server', async () => {
+		mockedGetServers.mockResolvedValue([
+			'whois.verisign-grs.com',
+			'whois.fallback.example',
+		]);
+		mockServers({ 'whois.fallback.example': REGISTRY_RESPONSE });
+		mockedDomain.mockRejectedValueOnce(new Error('Timeout'));
+
+		const record = await whoisRecordService.get('example.com');
+
+		expect(mockedDomain).toHaveBeenLastCalledWith(
+			'example.com',
+			expect.objectContaining({ host: 'whois.fallback.example' }),
+		);
+		expect(record.servers).toEqual(['whois.fallback.example']);
+		expect(record.failedServers).toEqual(['whois.verisign-grs.com']);
+	});
+
+	it('should report domains without a registration record as not found', async () => {
+		mockServers({
+			'whois.verisign-grs.com': {
+				text: ['No match for "FREE-DOMAIN-12345.COM".'],
+			},
+		});
+
+		const error = await whoisRecordService
+			.get('free-domain-12345.com')
+			.catch((e) => e);
+
+		expect(error).toBeInstanceOf(McpError);
+		expect(error.statusCode).toBe(404);
+		expect(error.message).toBe(
+			'No registration record found for free-domain-12345.com',
+		);
+	});
+
+	it('should look up the registrable domain of the input', async () => {
+		mockServers({ 'whois.verisign-grs.com': REGISTRY_RESPONSE });
+
+		const record = await whoisRecordService.get(
+			'https://WWW.Example.com/path',
+		);
+
+		expect(mockedGetServers).toHaveBeenCalledWith('example.com');
+		expect(mockedDomain).toHaveBeenCalledWith(
+			'example.com',
+			expect.objectContaining({ host: 'whois.verisign-grs.com' }),
+		);
+		expect(record.domain).toBe('example.com');
+	});
+
+	it('should reject inputs that are not domain names', async () => {
+		const error = await whoisRecordService
+			.get('not a domain')
+			.catch((e) => e);
+
+		expect(error).toBeInstanceOf(McpError);
+		expect(error.statusCode).toBe(400);
+		expect(mockedDomain).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,323 @@
+import * as whoiser from 'whoiser';
+import { Logger } from '../utils/logger.util.js';
+import whoisServerService, {
+	WhoisQuerySettings,
+} from './whois-server.service.js';
+import { createApiError, ensureMcpError } from '../utils/error.util.js';
+import { getLookupScheduler } from '../utils/scheduler.util.js';
+import { normalizeDomainName } from '../utils/domain-name.util.js';
+import { findWhoisReferral } from '../utils/whois-query.util.js';
+import { WhoisRecord, WhoisRecordField } from '../tools/whois-record.types.js';
+
+const serviceLogger = Logger.forContext('services/whois-record.service.ts');
+
+/**
+ * Values that registries and registrars use in place of redacted registrant data.
+ */
+const REDACTED_PATTERNS = [
+	'redacted',
+	'privacy',
+	'private',
+	'data protected',
+	'not disclosed',
+	'withheld',
+];
+
+/**
+ * @namespace WhoisRecordService
+ * @description Service layer for retrieving normalized WHOIS registration records using the whoiser library.
+ */
+
+/**
+ * Read a string field from a server's parsed WHOIS response.
+ * @param serverData Parsed response for one WHOIS server
+ * @param key Field label as produced by whoiser
+ * @returns The trimmed value, or undefined if missing or empty
+ */
+function readString(
+	serverData: whoiser.WhoisSearchResult,
+	key: string,
+): string | undefined {
+	const value = serverData[key];
+	if (typeof value === 'string' && value.trim()) {
+		return value.trim();
+	}
+	if (Array.isArray(value) && value.length > 0 && value[0].trim()) {
+		return value[0].trim();
+	}
+	return undefined;
+}
+
+/**
+ * Read a list field from a server's parsed WHOIS response.
+ * @param serverData Parsed response for one WHOIS server
+ * @param key Field label as produced by whoiser
+ * @returns Non-empty values of the field
+ */
+function readList(
+	serverData: whoiser.WhoisSearchResult,
+	key: string,
+): string[] {
+	const value = serverData[key];
+	if (Array.isArray(value)) {
+		return value.map((item) => item.trim()).filter(Boolean);
+	}
+	if (typeof value === 'string' && value.trim()) {
+		return value.split(/\s+/).filter(Boolean);
+	}
+	return [];
+}
+
+/**
+ * Normalize a WHOIS date to ISO 8601, keeping the raw text if it cannot be parsed.
+ * @param value Raw date text
+ * @returns ISO date string or the raw value
+ */
+function normalizeDate(value?: string): string | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * Reduce a status line such as "clientTransferProhibited https://icann.org/epp#clientTransferProhibited"
+ * to its EPP status code.
+ * @param status Raw status line
+ * @returns The status code
+ */
+function normalizeStatus(status: string): string {
+	return status.split(/\s+/)[0];
+}
+
+/**
+ * Query the registry WHOIS server for a domain and follow its referrals one server at a time,
+ * so that each hop is scheduled against its own server (the registrar's included).
+ * @param domain The domain name
+ * @param registryHost The registry WHOIS server
+ * @param settings Query timeout and how many servers to follow
+ * @returns Each server's parsed response, registry first; a server that failed has an entry with an error
+ */
+async function queryChain(
+	domain: string,
+	registryHost: string,
+	settings: WhoisQuerySettings,
+): Promise<Record<string, whoiser.WhoisSearchResult>> {
+	const chain: Record<string, whoiser.WhoisSearchResult> = {};
+	let host: string | undefined = registryHost;
+	while (
+		host &&
+		!(host in chain) &&
+		Object.keys(chain).length < settings.followDepth
+	) {
+		const server: string = host;
+		const response = await getLookupScheduler().schedule(server, () =>
+			whoiser.domain(domain, {
+				host: server,
+				timeout: settings.timeout,
+				follow: 1,
+				raw: true,
+			}),
+		);
+		const { __raw: raw, ...result } = (Object.values(response)[0] ??
+			{}) as whoiser.WhoisSearchResult;
+		chain[server] = result;
+		host = typeof raw === 'string' ? findWhoisReferral(raw) : undefined;
+	}
+	return chain;
+}
+
+/**
+ * Retrieves the normalized WHOIS record for a domain, following the referral chain from the
+ * registry to the registrar. The input is reduced to its registrable domain first, as for
+ * availability checks, and each server in the chain is queried through the lookup scheduler,
+ * rate-limited as that server. When the registry server
+ * times out or refuses the query, the WHOIS_FALLBACK_SERVERS of the TLD are tried in order.
+ *
+ * @function get
+ * @memberof WhoisRecordService
+ * @param {string} input - The domain name to look up (hostnames, URLs and Unicode names are accepted).
+ * @returns {Promise<WhoisRecord>} The normalized registration record.
+ * @throws {McpError} If the input is not a domain name, the lookup fails on every server or the domain has no registration record.
+ */
+async function get(input: string): Promise<WhoisRecord> {
+	const methodLogger = serviceLogger.forMethod('get');
+
+	const normalized = normalizeDomainName(input);
+	if (!normalized.valid) {
+		throw createApiError(normalized.message, 400);
+	}
+	const { domain } = normalized;
+	methodLogger.debug(`Retrieving WHOIS record for [${domain}]`);
+
+	const settings = whoisServerService.getQuerySettings();
+	const hosts = await whoisServerService.getServers(domain);
+	if (hosts.length === 0) {
+		throw createApiError(
+			`WHOIS lookup failed for ${domain}: no WHOIS server found for .${domain.split('.').pop()}`,
+		);
+	}
+	const failedServers: string[] = [];
+	let domainInfo: whoiser.WhoisSearchResult | undefined;
+	for (const [index, host] of hosts.entries()) {
+		try {
+			const info = await queryChain(domain, host, settings);
+			// whoiser reports a registry server that fails as an entry with an error
+			const registry = Object.values(info)[0];
+			const registryFailed =
+				typeof registry === 'object' &&
+				!Array.isArray(registry) &&
+				'error' in registry;
+			if (registryFailed && index < hosts.length - 1) {
+				methodLogger.warn(
+					`WHOIS server ${host} failed for [${domain}]; failing over to the next server`,
+				);
+				failedServers.push(host);
+				continue;
+			}
+			domainInfo = info;
+			break;
+		} catch (error) {
+			if (index < hosts.length - 1) {
+				methodLogger.warn(
+					`WHOIS server ${host} failed for [${domain}]; failing over to the next server`,
+					error,
+				);
+				failedServers.push(host);
+				continue;
+			}
+			throw createApiError(
+				`WHOIS lookup failed for ${domain}: ${ensureMcpError(error).message}`,
+				undefined,
+				error,
+			);
+		}
+	}
+	if (!domainInfo) {
+		throw createApiError(`WHOIS lookup failed for ${domain}`);
+	}
+
+	const record: WhoisRecord = {
+		domain,
+		statuses: [],
+		nameServers: [],
+		servers: [],
+		...(failedServers.length > 0 && { failedServers }),
+		fieldSources: {},
+	};
+
+	const addSource = (field: WhoisRecordField, server: string) => {
+		const sources = (record.fieldSources[field] ??= []);
+		if (!sources.includes(server)) {
+			sources.push(server);
+		}
+	};
+
+	// Scalar fields take the first value in chain order (the registry answers first);
+	// every server that supplied a value is recorded as a source.
+	const setScalar = (
+		field: Exclude<WhoisRecordField, 'statuses' | 'nameServers'>,
+		value: string | undefined,
+		server: string,
+	) => {
+		if (!value) {
+			return;
+		}
+		if (record[field] === undefined) {
+			record[field] = value;
+		}
+		addSource(field, server);
+	};
+
+	const errors: string[] = [];
+	for (const [server, serverData] of Object.entries(domainInfo)) {
+		if (typeof serverData !== 'object' || Array.isArray(serverData)) {
+			continue;
+		}
+		record.servers.push(server);
+
+		if ('error' in serverData) {
+			methodLogger.warn(
+				`WHOIS server ${server} failed for [${domain}]`,
+				serverData.error,
+			);
+			errors.push(`${server}: ${String(serverData.error)}`);
+			continue;
+		}
+
+		setScalar('registrar', readString(serverData, 'Registrar'), server);
+
+		const registrantOrganization = readString(
+			serverData,
+			'Registrant Organization',
+		);
+		if (
+			registrantOrganization &&
+			!REDACTED_PATTERNS.some((pattern) =>
+				registrantOrganization.toLowerCase().includes(pattern),
+			)
+		) {
+			setScalar('registrantOrganization', registrantOrganization, server);
+		}
+
+		setScalar(
+			'createdDate',
+			normalizeDate(readString(serverData, 'Created Date')),
+			server,
+		);
+		setScalar(
+			'updatedDate',
+			normalizeDate(readString(serverData, 'Updated Date')),
+			server,
+		);
+		setScalar(
+			'expiryDate',
+			normalizeDate(readString(serverData, 'Expiry Date')),
+			server,
+		);
+		setScalar('dnssec', readString(serverData, 'DNSSEC'), server);
+
+		const statuses = readList(serverData, 'Domain Status').map(
+			normalizeStatus,
+		);
+		for (const status of statuses) {
+			if (!record.statuses.includes(status)) {
+				record.statuses.push(status);
+			}
+		}
+		if (statuses.length > 0) {
+			addSource('statuses', server);
+		}
+
+		const nameServers = readList(serverData, 'Name Server').map((ns) =>
+			ns.toLowerCase().replace(/\.$/, ''),
+		);
+		for (const nameServer of nameServers) {
+			if (!record.nameServers.includes(nameServer)) {
+				record.nameServers.push(nameServer);
+			}
+		}
+		if (nameServers.length > 0) {
+			addSource('nameServers', server);
+		}
+	}
+
+	if (record.servers.length > 0 && errors.length === record.servers.length) {
+		throw createApiError(
+			`WHOIS lookup failed for ${domain}: ${errors.join('; ')}`,
+		);
+	}
+
+	if (Object.keys(record.fieldSources).length === 0) {
+		throw createApiError(`No registration record found for ${domain}`, 404);
+	}
+
+	methodLogger.debug(`Retrieved WHOIS record for [${domain}]`, {
+		servers: record.servers,
+		fields: Object.keys(record.fieldSources),
+	});
+	return record;
+}
+
+export default { get };
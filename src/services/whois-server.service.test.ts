@@ -0,0 +1,165 @@
+import whoisServerService from './whois-server.service.js';
+import { queryWhois } from '../utils/whois-query.util.js';
+import { isTransientError } from '../utils/retry.util.js';
+
+jest.mock('../utils/whois-query.util.js', () => ({ queryWhois: jest.fn() }));
+
+const mockedQueryWhois = queryWhois as jest.MockedFunction<typeof queryWhois>;
+
+describe('WhoisServerService', () => {
+	const originalEnv = { ...process.env };
+
+	beforeEach(() => {
+		// Shape of IANA's answer for a TLD
+		mockedQueryWhois.mockImplementation(async ({ query }) =>
+			query === 'nowhois'
+				? 'domain: NOWHOIS\n'
+				: `domain: ${query.toUpperCase()}\nwhois: whois.nic.${query}\n`,
+		);
+	});
+
+	afterEach(() => {
+		mockedQueryWhois.mockReset();
+		for (const key of [
+			'WHOIS_SERVERS',
+			'WHOIS_FALLBACK_SERVERS',
+			'WHOIS_TIMEOUT',
+			'WHOIS_FOLLOW_DEPTH',
+		]) {
+			if (originalEnv[key] === undefined) {
+				delete process.env[key];
+			} else {
+				process.env[key] = originalEnv[key];
+			}
+		}
+	});
+
+	describe('getServers', () => {
+		it('should use the server IANA names for the TLD', async () => {
+			await expect(
+				whoisServerService.getServers('acme.alpha'),
+			).resolves.toEqual(['whois.nic.alpha']);
+			await expect(
+				whoisServerService.getServers('acme.nowhois'),
+			).resolves.toEqual([]);
+		});
+
+		it('should send one IANA query for concurrent lookups on the same TLD', async () => {
+			const servers = await Promise.all(
+				['a.epsilon', 'b.epsilon', 'c.epsilon'].map((domain) =>
+					whoisServerService.getServers(domain),
+				),
+			);
+
+			expect(servers).toEqual([
+				['whois.nic.epsilon'],
+				['whois.nic.epsilon'],
+				['whois.nic.epsilon'],
+			]);
+			expect(mockedQueryWhois).toHaveBeenCalledTimes(1);
+		});
+
+		it('should stop waiting for a shared query when the signal is aborted', async () => {
+			const controller = new AbortController();
+			const waiting = whoisServerService.resolve('a.zeta', {
+				signal: controller.signal,
+			});
+			const other = whoisServerService.resolve('b.zeta');
+			controller.abort(new Error('stopped'));
+
+			await expect(waiting).rejects.toThrow('stopped');
+			await expect(other).resolves.toBe('whois.nic.zeta');
+			expect(mockedQueryWhois).toHaveBeenCalledTimes(1);
+		});
+
+		it('should report an unreachable IANA as a transient failure, not a missing server', async () => {
+			mockedQueryWhois.mockRejectedValueOnce(
+				new Error('connect ECONNREFUSED whois.iana.org:43'),
+			);
+
+			const error = await whoisServerService
+				.getServers('acme.theta')
+				.catch((e) => e);
+
+			expect(error.message).toBe(
+				'Could not ask whois.iana.org for the WHOIS server of .theta: connect ECONNREFUSED whois.iana.org:43',
+			);
+			expect(isTransientError(error)).toBe(true);
+			// The failure is not cached: the next lookup asks IANA again
+			await expect(
+				whoisServerService.getServers('acme.theta'),
+			).resolves.toEqual(['whois.nic.theta']);
+		});
+
+		it('should fall back to the fallback servers when IANA is unreachable', async () => {
+			process.env.WHOIS_FALLBACK_SERVERS = JSON.stringify({
+				iota: ['whois.backup.iota'],
+			});
+			mockedQueryWhois.mockRejectedValueOnce(new Error('Timeout'));
+
+			await expect(
+				whoisServerService.getServers('acme.iota'),
+			).resolves.toEqual(['whois.backup.iota']);
+		});
+
+		it('should put overrides first and fallbacks after, by most specific suffix', async () => {
+			process.env.WHOIS_SERVERS = JSON.stringify({
+				'.beta': 'WHOIS.Example.net',
+				'co.beta': 'whois.co.example.net',
+			});
+			process.env.WHOIS_FALLBACK_SERVERS = JSON.stringify({
+				beta: ['whois2.example.net', 'whois.example.net'],
+				gamma: ['whois.backup.gamma'],
+			});
+
+			await expect(
+				whoisServerService.getServers('acme.beta'),
+			).resolves.toEqual(['whois.example.net', 'whois2.example.net']);
+			await expect(
+				whoisServerService.getServers('acme.co.beta'),
+			).resolves.toEqual([
+				'whois.co.example.net',
+				'whois2.example.net',
+				'whois.example.net',
+			]);
+			await expect(
+				whoisServerService.getServers('acme.gamma'),
+			).resolves.toEqual(['whois.nic.gamma', 'whois.backup.gamma']);
+			expect(mockedQueryWhois).toHaveBeenCalledTimes(1);
+		});
+
+		it('should ignore entries of the wrong type', async () => {
+			process.env.WHOIS_SERVERS = JSON.stringify({ delta: ['a', 'b'] });
+			process.env.WHOIS_FALLBACK_SERVERS = JSON.stringify({
+				delta: 'whois.backup.delta',
+			});
+
+			await expect(
+				whoisServerService.getServers('acme.delta'),
+			).resolves.toEqual(['whois.nic.delta']);
+		});
+	});
+
+	describe('getQuerySettings', () => {
+		it('should read the timeout and follow depth, with defaults for invalid values', () => {
+			expect(whoisServerService.getQuerySettings()).toEqual({
+				timeout: 5000,
+				followDepth: 2,
+			});
+
+			process.env.WHOIS_TIMEOUT = '12000';
+			process.env.WHOIS_FOLLOW_DEPTH = '1';
+			expect(whoisServerService.getQuerySettings()).toEqual({
+				timeout: 12000,
+				followDepth: 1,
+			});
+
+			process.env.WHOIS_TIMEOUT = '-1';
+			process.env.WHOIS_FOLLOW_DEPTH = '0';
+			expect(whoisServerService.getQuerySettings()).toEqual({
+				timeout: 5000,
+				followDepth: 2,
+			});
+		});
+	});
+});
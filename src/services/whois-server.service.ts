@@ -0,0 +1,232 @@
+import { Logger } from '../utils/logger.util.js';
+import { config } from '../utils/config.util.js';
+import { getLookupScheduler } from '../utils/scheduler.util.js';
+import { queryWhois } from '../utils/whois-query.util.js';
+import { createApiError, ensureMcpError } from '../utils/error.util.js';
+
+const serviceLogger = Logger.forContext('services/whois-server.service.ts');
+
+/**
+ * IANA's WHOIS server, which knows the registry WHOIS server of every TLD.
+ */
+const IANA_WHOIS_SERVER = 'whois.iana.org';
+
+// TLD -> registry WHOIS server (null when IANA has none)
+const serverCache = new Map<string, string | null>();
+
+// TLD -> IANA query in flight, shared by every lookup that needs the TLD's server meanwhile
+const pendingResolutions = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Timeout and referral depth of WHOIS queries
+ */
+export interface WhoisQuerySettings {
+	/** Idle timeout of each query in milliseconds (WHOIS_TIMEOUT, default 5000) */
+	timeout: number;
+	/** Servers queried per domain: the registry, then the registrars it refers to (WHOIS_FOLLOW_DEPTH, default 2) */
+	followDepth: number;
+}
+
+/**
+ * @namespace WhoisServerService
+ * @description Service layer for resolving the registry WHOIS servers responsible for a domain, honouring
+ * the WHOIS_SERVERS overrides and WHOIS_FALLBACK_SERVERS failover lists.
+ */
+
+/**
+ * Gets the timeout and referral depth of WHOIS queries from the configuration.
+ *
+ * @function getQuerySettings
+ * @memberof WhoisServerService
+ * @returns {WhoisQuerySettings} The settings, with defaults for missing or invalid values.
+ */
+function getQuerySettings(): WhoisQuerySettings {
+	const timeout = config.getNumber('WHOIS_TIMEOUT', 5000);
+	const followDepth = config.getNumber('WHOIS_FOLLOW_DEPTH', 2);
+	return {
+		timeout: timeout > 0 ? timeout : 5000,
+		followDepth: followDepth >= 1 ? Math.floor(followDepth) : 2,
+	};
+}
+
+/**
+ * Read a per-TLD server map from the configuration, keyed by the most specific suffix of the domain.
+ * @param key Config key, e.g. WHOIS_SERVERS
+ * @param domain The domain name
+ * @returns The configured value for the domain's suffix, if any
+ */
+function getConfiguredServers<T>(key: string, domain: string): T | undefined {
+	const entries = config.getJson<Record<string, T>>(key);
+	if (!entries || typeof entries !== 'object') {
+		return undefined;
+	}
+	const normalized = Object.fromEntries(
+		Object.entries(entries).map(([suffix, value]) => [
+			suffix.toLowerCase().replace(/^\./, ''),
+			value,
+		]),
+	);
+	const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+	for (let i = 1; i < labels.length; i++) {
+		const value = normalized[labels.slice(i).join('.')];
+		if (value !== undefined) {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Ask IANA for the registry WHOIS server of a TLD and cache the answer.
+ * The query is shared by concurrent callers, so it is not tied to any caller's signal;
+ * it ends by itself once it times out.
+ * @param tld The TLD
+ * @param timeout IANA query timeout in milliseconds
+ * @returns The WHOIS server host, or undefined if IANA has none
+ * @throws {McpError} If IANA could not be reached (keeping the cause's message, so timeouts and
+ * refused connections still read as transient)
+ */
+async function queryIana(
+	tld: string,
+	timeout: number,
+): Promise<string | undefined> {
+	const methodLogger = serviceLogger.forMethod('resolve');
+	try {
+		const response = await getLookupScheduler().schedule(
+			IANA_WHOIS_SERVER,
+			() =>
+				queryWhois({
+					host: IANA_WHOIS_SERVER,
+					query: tld,
+					timeout,
+				}),
+		);
+		const server =
+			response.match(/^whois:\s*(\S+)/im)?.[1].toLowerCase() ?? null;
+		serverCache.set(tld, server);
+		methodLogger.debug(`Resolved WHOIS server for .${tld}`, { server });
+		return server ?? undefined;
+	} catch (error) {
+		// Not cached, so the next lookup for this TLD tries again
+		methodLogger.warn(`Failed to resolve WHOIS server for .${tld}`, error);
+		const mcpError = ensureMcpError(error);
+		throw createApiError(
+			`Could not ask ${IANA_WHOIS_SERVER} for the WHOIS server of .${tld}: ${mcpError.message}`,
+			mcpError.statusCode,
+			error,
+		);
+	}
+}
+
+/**
+ * Resolves the registry WHOIS server for a domain's TLD, asking IANA once per TLD.
+ * The IANA query goes through the lookup scheduler like every other WHOIS query, and
+ * concurrent lookups for the same TLD wait for the same query.
+ *
+ * @function resolve
+ * @memberof WhoisServerService
+ * @param {string} domain - The domain name.
+ * @param {object} [options] - Lookup options.
+ * @param {number} [options.timeout] - IANA query timeout in milliseconds.
+ * @param {AbortSignal} [options.signal] - Stops waiting for the IANA query, rejecting with the signal's reason.
+ * @returns {Promise<string | undefined>} The WHOIS server host, or undefined if IANA names none.
+ * @throws {McpError} If IANA cannot be reached.
+ */
+async function resolve(
+	domain: string,
+	options: { timeout?: number; signal?: AbortSignal } = {},
+): Promise<string | undefined> {
+	const tld = domain.toLowerCase().replace(/\.$/, '').split('.').pop();
+	if (!tld) {
+		return undefined;
+	}
+
+	if (serverCache.has(tld)) {
+		return serverCache.get(tld) ?? undefined;
+	}
+
+	let pending = pendingResolutions.get(tld);
+	if (!pending) {
+		pending = queryIana(
+			tld,
+			options.timeout ?? getQuerySettings().timeout,
+		).finally(() => pendingResolutions.delete(tld));
+		pendingResolutions.set(tld, pending);
+	}
+
+	const { signal } = options;
+	if (!signal) {
+		return pending;
+	}
+	if (signal.aborted) {
+		throw signal.reason;
+	}
+	// An aborted caller stops waiting; the shared query carries on for the others
+	return new Promise<string | undefined>((resolvePromise, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener('abort', onAbort, { once: true });
+		pending
+			.then(resolvePromise, reject)
+			.finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
+
+/**
+ * Gets the registry WHOIS servers to query for a domain, in failover order: the WHOIS_SERVERS
+ * override for its TLD (or the server IANA names), then the WHOIS_FALLBACK_SERVERS of the TLD.
+ * Keys of both config values may be TLDs or public suffixes ("co.uk" before "uk"). When IANA cannot
+ * be reached, the fallbacks alone are returned.
+ *
+ * @function getServers
+ * @memberof WhoisServerService
+ * @param {string} domain - The domain name.
+ * @param {object} [options] - Lookup options.
+ * @param {AbortSignal} [options.signal] - Stops waiting for the IANA query, rejecting with the signal's reason.
+ * @returns {Promise<string[]>} The servers, without duplicates; empty if none is known.
+ * @throws {McpError} If IANA cannot be reached and the TLD has no fallback servers.
+ */
+async function getServers(
+	domain: string,
+	options: { signal?: AbortSignal } = {},
+): Promise<string[]> {
+	const methodLogger = serviceLogger.forMethod('getServers');
+	const override = getConfiguredServers<unknown>('WHOIS_SERVERS', domain);
+	if (override !== undefined && typeof override !== 'string') {
+		methodLogger.warn(
+			`Ignoring WHOIS_SERVERS entry for ${domain}: expected a host name`,
+		);
+	}
+	const fallbacks = getConfiguredServers<unknown>(
+		'WHOIS_FALLBACK_SERVERS',
+		domain,
+	);
+	if (fallbacks !== undefined && !Array.isArray(fallbacks)) {
+		methodLogger.warn(
+			`Ignoring WHOIS_FALLBACK_SERVERS entry for ${domain}: expected a list of host names`,
+		);
+	}
+
+	let primary: string | undefined;
+	if (typeof override === 'string' && override.trim()) {
+		primary = override;
+	} else {
+		try {
+			primary = await resolve(domain, { signal: options.signal });
+		} catch (error) {
+			if (options.signal?.aborted || !Array.isArray(fallbacks)) {
+				throw error;
+			}
+			methodLogger.warn(
+				`Using only the fallback WHOIS servers for ${domain}`,
+				error,
+			);
+		}
+	}
+	const servers = [primary, ...(Array.isArray(fallbacks) ? fallbacks : [])]
+		.filter((server): server is string => typeof server === 'string')
+		.map((server) => server.trim().toLowerCase())
+		.filter(Boolean);
+	return [...new Set(servers)];
+}
+
+export default { resolve, getServers, getQuerySettings };
@@ -0,0 +1,199 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import domainAvailabilityService from '../services/domain-availability.service.js';
+import availabilityJobTool from './availability-job.tool.js';
+import { CheckDomainAvailabilityOptions } from './domain-availability.types.js';
+
+jest.mock('../services/domain-availability.service.js', () => ({
+	__esModule: true,
+	default: { check: jest.fn() },
+}));
+
+const mockedCheck = domainAvailabilityService.check as jest.MockedFunction<
+	typeof domainAvailabilityService.check
+>;
+
+const DOMAINS = [
+	'a.example',
+	'b.example',
+	'c.example',
+	'd.example',
+	'e.example',
+];
+
+describe('availability job tools', () => {
+	let client: Client;
+	let release: () => void;
+
+	/**
+	 * Call a tool and return its text content
+	 */
+	async function callTool(name: string, args: Record<string, unknown>) {
+		const result = await client.callTool({ name, arguments: args });
+		const [content] = result.content as Array<{ text: string }>;
+		return content.text;
+	}
+
+	/**
+	 * Call a tool and parse its JSON text content
+	 */
+	async function callToolJson(name: string, args: Record<string, unknown>) {
+		return JSON.parse(await callTool(name, args));
+	}
+
+	beforeEach(async () => {
+		// The first three domains finish immediately; the rest wait for release() or cancellation
+		mockedCheck.mockImplementation(
+			async (
+				domains: string[],
+				options?: CheckDomainAvailabilityOptions,
+			) => {
+				const report = (domain: string, index: number) =>
+					options?.onResult?.({
+						domain,
+						status: 'available',
+						completed: index + 1,
+						total: domains.length,
+					});
+				domains.slice(0, 3).forEach(report);
+
+				const released = await new Promise<boolean>((resolve) => {
+					release = () => resolve(true);
+					options?.signal?.addEventListener('abort', () =>
+						resolve(false),
+					);
+				});
+				if (released) {
+					domains
+						.slice(3)
+						.forEach((domain, i) => report(domain, i + 3));
+					return { available: domains, unavailable: [], failed: [] };
+				}
+				return {
+					available: domains.slice(0, 3),
+					unavailable: [],
+					failed: [],
+					cancelled: domains.slice(3),
+				};
+			},
+		);
+
+		const server = new McpServer({ name: 'test', version: '1.0.0' });
+		availabilityJobTool.registerTools(server);
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		client = new Client({ name: 'test-client', version: '1.0.0' });
+		await Promise.all([
+			server.connect(serverTransport),
+			client.connect(clientTransport),
+		]);
+	});
+
+	afterEach(async () => {
+		await client.close();
+		mockedCheck.mockReset();
+	});
+
+	it('should page through results while the job runs and after it completes', async () => {
+		const started = await callToolJson('start-availability-job', {
+			domains: DOMAINS,
+		});
+		expect(started).toMatchObject({ status: 'running', total: 5 });
+		const { jobId } = started;
+
+		const first = await callToolJson('get-availability-job', {
+			jobId,
+			limit: 2,
+		});
+		expect(first).toMatchObject({
+			status: 'running',
+			completed: 3,
+			counts: { available: 3 },
+			results: [
+				{ domain: 'a.example', status: 'available' },
+				{ domain: 'b.example', status: 'available' },
+			],
+			pagination: { hasMore: true, nextCursor: '2', count: 2 },
+		});
+
+		// Only one more result exists yet, but the running job still has more to come
+		const second = await callToolJson('get-availability-job', {
+			jobId,
+			limit: 2,
+			cursor: first.pagination.nextCursor,
+		});
+		expect(second.results.map((r: { domain: string }) => r.domain)).toEqual(
+			['c.example'],
+		);
+		expect(second.pagination).toMatchObject({
+			hasMore: true,
+			nextCursor: '3',
+		});
+
+		release();
+		await new Promise((resolve) => setImmediate(resolve));
+
+		const last = await callToolJson('get-availability-job', {
+			jobId,
+			limit: 2,
+			cursor: second.pagination.nextCursor,
+		});
+		expect(last).toMatchObject({
+			status: 'completed',
+			completed: 5,
+			results: [{ domain: 'd.example' }, { domain: 'e.example' }],
+			pagination: { hasMore: false, count: 2 },
+		});
+		expect(last.finishedAt).toEqual(expect.any(String));
+	});
+
+	it('should cancel a running job and keep its finished results', async () => {
+		const { jobId } = await callToolJson('start-availability-job', {
+			domains: DOMAINS,
+			fresh: true,
+		});
+		expect(mockedCheck).toHaveBeenCalledWith(DOMAINS, {
+			fresh: true,
+			signal: expect.any(AbortSignal),
+			onResult: expect.any(Function),
+		});
+
+		const cancelled = await callToolJson('cancel-availability-job', {
+			jobId,
+		});
+		expect(cancelled).toMatchObject({
+			status: 'cancelled',
+			completed: 3,
+			counts: { available: 3, cancelled: 2 },
+		});
+
+		const page = await callToolJson('get-availability-job', {
+			jobId,
+			cursor: '3',
+		});
+		expect(page.results).toEqual([
+			{ domain: 'd.example', status: 'cancelled' },
+			{ domain: 'e.example', status: 'cancelled' },
+		]);
+		expect(page.pagination.hasMore).toBe(false);
+	});
+
+	it('should report unknown jobs and invalid cursors as errors', async () => {
+		const unknown = await callTool('get-availability-job', {
+			jobId: 'no-such-job',
+		});
+		expect(unknown).toMatch(/^Error: .*not found/);
+
+		const { jobId } = await callToolJson('start-availability-job', {
+			domains: DOMAINS,
+		});
+		const invalid = await callTool('get-availability-job', {
+			jobId,
+			cursor: 'abc',
+		});
+		expect(invalid).toMatch(/^Error: Invalid pagination cursor/);
+
+		await callToolJson('cancel-availability-job', { jobId });
+	});
+});
@@ -0,0 +1,149 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+	ServerNotification,
+	ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import availabilityJobController from '../controllers/availability-job.controller.js';
+import {
+	CancelAvailabilityJobArgs,
+	CancelAvailabilityJobArgsType,
+	GetAvailabilityJobArgs,
+	GetAvailabilityJobArgsType,
+	StartAvailabilityJobArgs,
+	StartAvailabilityJobArgsType,
+} from './availability-job.types.js';
+
+const toolLogger = Logger.forContext('tools/availability-job.tool.ts');
+
+/**
+ * MCP Tool handler function for starting a background availability check.
+ *
+ * @param {StartAvailabilityJobArgsType} args - Arguments containing the list of domains and the optional `fresh` flag.
+ * @param {RequestHandlerExtra} _extra - Additional request context (unused; the job outlives the request).
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP tool response containing the new job as JSON.
+ */
+async function handleStartAvailabilityJob(
+	args: StartAvailabilityJobArgsType,
+	_extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+	const methodLogger = toolLogger.forMethod('handleStartAvailabilityJob');
+	methodLogger.debug('Tool start-availability-job called', {
+		domainCount: args.domains.length,
+		fresh: args.fresh,
+	});
+
+	try {
+		const result = await availabilityJobController.start(args.domains, {
+			fresh: args.fresh,
+		});
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+		};
+	} catch (error) {
+		methodLogger.error('Tool start-availability-job failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool handler function for retrieving a job's status and results.
+ *
+ * @param {GetAvailabilityJobArgsType} args - Arguments containing the job ID and the optional page `limit` and `cursor`.
+ * @param {RequestHandlerExtra} _extra - Additional request context (unused).
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP tool response containing the job, a page of results and the pagination information as JSON.
+ */
+async function handleGetAvailabilityJob(
+	args: GetAvailabilityJobArgsType,
+	_extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+	const methodLogger = toolLogger.forMethod('handleGetAvailabilityJob');
+	methodLogger.debug('Tool get-availability-job called', args);
+
+	try {
+		const result = await availabilityJobController.get(args.jobId, {
+			limit: args.limit,
+			cursor: args.cursor,
+		});
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+		};
+	} catch (error) {
+		methodLogger.error('Tool get-availability-job failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * MCP Tool handler function for cancelling a running job.
+ *
+ * @param {CancelAvailabilityJobArgsType} args - Arguments containing the job ID.
+ * @param {RequestHandlerExtra} _extra - Additional request context (unused).
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP tool response containing the stopped job as JSON.
+ */
+async function handleCancelAvailabilityJob(
+	args: CancelAvailabilityJobArgsType,
+	_extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+	const methodLogger = toolLogger.forMethod('handleCancelAvailabilityJob');
+	methodLogger.debug('Tool cancel-availability-job called', args);
+
+	try {
+		const result = await availabilityJobController.cancel(args.jobId);
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+		};
+	} catch (error) {
+		methodLogger.error('Tool cancel-availability-job failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Registers the availability job tools with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = toolLogger.forMethod('registerTools');
+	methodLogger.debug('Registering availability job tools...');
+
+	server.tool(
+		'start-availability-job',
+		`PURPOSE: Starts checking a large list of domain names in the background and returns immediately.
+        INPUT: An array of domain names (up to 10,000 by default), and optionally 'fresh' (boolean) to bypass cached results.
+        OUTPUT: A JSON object describing the job: 'jobId', 'status' ('running'), 'total', 'completed' and per-status 'counts'.
+        WHEN TO USE: Use this instead of 'check-domain-availability' for batches too large to finish within one tool call (hundreds of domains or more). Poll 'get-availability-job' with the returned 'jobId' for progress and results.
+        EXAMPLE: { "domains": ["example.com", "example.net", "example.org"] }`,
+		StartAvailabilityJobArgs.shape,
+		handleStartAvailabilityJob,
+	);
+
+	server.tool(
+		'get-availability-job',
+		`PURPOSE: Reports a background availability job's status and returns a page of its results.
+        INPUT: The 'jobId', and optionally 'limit' (1-100, default 25) and the 'cursor' from the previous response's 'pagination.nextCursor'.
+        OUTPUT: A JSON object with the job's 'status' ('running', 'completed', 'cancelled' or 'failed'), 'total', 'completed', per-status 'counts', 'results' (one { domain, status, errorType?, message? } per domain, in completion order) and 'pagination' ({ hasMore, nextCursor, count }).
+        WHEN TO USE: Use this to follow a job started with 'start-availability-job'. While the job is running 'hasMore' stays true and a page may be empty; call again with the same 'nextCursor' later. Jobs are kept for an hour after they finish.
+        EXAMPLE: { "jobId": "3f2b8c1e-...", "limit": 100, "cursor": "100" }`,
+		GetAvailabilityJobArgs.shape,
+		handleGetAvailabilityJob,
+	);
+
+	server.tool(
+		'cancel-availability-job',
+		`PURPOSE: Cancels a running background availability job.
+        INPUT: The 'jobId'.
+        OUTPUT: The stopped job as JSON. Results recorded before the cancellation are kept; unchecked domains are reported with status 'cancelled'.
+        WHEN TO USE: Use this when the results of a job are no longer needed, to stop its remaining lookups.
+        EXAMPLE: { "jobId": "3f2b8c1e-..." }`,
+		CancelAvailabilityJobArgs.shape,
+		handleCancelAvailabilityJob,
+	);
+
+	methodLogger.debug('Successfully registered availability job tools.');
+}
+
+export default { registerTools };
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { DomainResultRow } from './domain-availability.types.js';
+
+// Schema for the arguments expected by the start-availability-job tool
+export const StartAvailabilityJobArgs = z.object({
+	domains: z
+		.array(z.string().min(1, 'Domain name cannot be empty'))
+		.min(1, 'At least one domain name is required')
+		.describe('An array of domain names to check in the background'),
+	fresh: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to bypass cached results and query WHOIS/RDAP again',
+		),
+});
+
+export type StartAvailabilityJobArgsType = z.infer<
+	typeof StartAvailabilityJobArgs
+>;
+
+// Schema for the arguments expected by the get-availability-job tool
+export const GetAvailabilityJobArgs = z.object({
+	jobId: z
+		.string()
+		.min(1, 'Job ID cannot be empty')
+		.describe('The job ID returned by start-availability-job'),
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(100)
+		.optional()
+		.describe('Maximum number of results to return (1-100, default 25)'),
+	cursor: z
+		.string()
+		.optional()
+		.describe(
+			'Pagination cursor from the previous response (pagination.nextCursor); omit to start from the first result',
+		),
+});
+
+export type GetAvailabilityJobArgsType = z.infer<typeof GetAvailabilityJobArgs>;
+
+// Schema for the arguments expected by the cancel-availability-job tool
+export const CancelAvailabilityJobArgs = z.object({
+	jobId: z
+		.string()
+		.min(1, 'Job ID cannot be empty')
+		.describe('The job ID returned by start-availability-job'),
+});
+
+export type CancelAvailabilityJobArgsType = z.infer<
+	typeof CancelAvailabilityJobArgs
+>;
+
+// Lifecycle of a job: 'failed' means the job itself broke, not that some lookups failed
+export type AvailabilityJobStatus =
+	| 'running'
+	| 'completed'
+	| 'cancelled'
+	| 'failed';
+
+// A job's state, as reported by the tools
+export interface AvailabilityJobSummary {
+	jobId: string;
+	status: AvailabilityJobStatus;
+	total: number;
+	// Domains whose lookup has finished
+	completed: number;
+	counts: Record<DomainResultRow['status'], number>;
+	createdAt: string;
+	finishedAt?: string;
+	// Set when status is 'failed'
+	error?: string;
+}
+
+// A page of a job's results, in completion order
+export interface AvailabilityJobPage {
+	job: AvailabilityJobSummary;
+	results: DomainResultRow[];
+	// Index of the first result in the page
+	startAt: number;
+	// Results recorded so far
+	resultCount: number;
+}
@@ -0,0 +1,100 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Progress } from '@modelcontextprotocol/sdk/types.js';
+import domainAvailabilityController from '../controllers/domain-availability.controller.js';
+import domainAvailabilityTool from './domain-availability.tool.js';
+import { CheckDomainAvailabilityOptions } from './domain-availability.types.js';
+import { ErrorType } from '../utils/error.util.js';
+
+jest.mock('../controllers/domain-availability.controller.js', () => ({
+	__esModule: true,
+	default: { check: jest.fn() },
+}));
+
+const mockedCheck = domainAvailabilityController.check as jest.MockedFunction<
+	typeof domainAvailabilityController.check
+>;
+
+describe('check-domain-availability tool', () => {
+	let client: Client;
+
+	beforeEach(async () => {
+		// Report one result per domain through the progress callback
+		mockedCheck.mockImplementation(
+			async (
+				domains: string[],
+				options?: CheckDomainAvailabilityOptions,
+			) => {
+				options?.onResult?.({
+					completed: 1,
+					total: domains.length,
+					domain: domains[0],
+					status: 'available',
+				});
+				options?.onResult?.({
+					completed: 2,
+					total: domains.length,
+					domain: domains[1],
+					status: 'failed',
+					errorType: ErrorType.API_ERROR,
+					message: 'Timeout',
+				});
+				return { content: '{}' };
+			},
+		);
+
+		const server = new McpServer({ name: 'test', version: '1.0.0' });
+		domainAvailabilityTool.registerTools(server);
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		client = new Client({ name: 'test-client', version: '1.0.0' });
+		await Promise.all([
+			server.connect(serverTransport),
+			client.connect(clientTransport),
+		]);
+	});
+
+	afterEach(async () => {
+		await client.close();
+		mockedCheck.mockReset();
+	});
+
+	it('should send progress notifications when the caller supplies a progress token', async () => {
+		const updates: Progress[] = [];
+
+		await client.callTool(
+			{
+				name: 'check-domain-availability',
+				arguments: { domains: ['free.example', 'slow.example'] },
+			},
+			undefined,
+			{ onprogress: (progress) => updates.push(progress) },
+		);
+
+		expect(updates).toEqual([
+			{ progress: 1, total: 2, message: 'free.example: available' },
+			{
+				progress: 2,
+				total: 2,
+				message: 'slow.example: failed (Timeout)',
+			},
+		]);
+	});
+
+	it('should not ask the controller for progress without a progress token', async () => {
+		await client.callTool({
+			name: 'check-domain-availability',
+			arguments: { domains: ['free.example', 'slow.example'] },
+		});
+
+		expect(mockedCheck).toHaveBeenCalledWith(
+			['free.example', 'slow.example'],
+			{
+				fresh: undefined,
+				onResult: undefined,
+				signal: expect.any(AbortSignal),
+			},
+		);
+	});
+});
@@ -1,32 +1,84 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
-import { Logger } from '../utils/logger.util.js'
-import { formatErrorForMcpTool } from '../utils/error.util.js'
-import domainAvailabilityController from '../controllers/domain-availability.controller.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
-    CheckDomainAvailabilityArgs,
-    CheckDomainAvailabilityArgsType
-} from './domain-availability.types.js'
+	ServerNotification,
+	ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import domainAvailabilityController from '../controllers/domain-availability.controller.js';
+import {
+	CheckDomainAvailabilityArgs,
+	CheckDomainAvailabilityArgsType,
+	DomainCheckProgress,
+} from './domain-availability.types.js';
 
 const toolLogger = Logger.forContext('tools/domain-availability.tool.ts');
 
+/**
+ * Describe the latest domain result for a progress notification.
+ *
+ * @param {DomainCheckProgress} progress - The progress reported by the service.
+ * @returns {string} e.g. "example.com: available" or "slow.example: failed (Timeout)"
+ */
+function formatProgressMessage(progress: DomainCheckProgress): string {
+	return progress.message
+		? `${progress.domain}: ${progress.status} (${progress.message})`
+		: `${progress.domain}: ${progress.status}`;
+}
+
 /**
  * MCP Tool handler function for checking domain availability.
  *
- * @param {CheckDomainAvailabilityArgsType} args - Arguments containing the list of domains.
- * @param {RequestHandlerExtra} _extra - Additional request context (unused).
+ * @param {CheckDomainAvailabilityArgsType} args - Arguments containing the list of domains and/or patterns, the optional pattern filters and the `dryRun`, `fresh`, `explain` and `includePricing` flags.
+ * @param {RequestHandlerExtra} extra - Additional request context; its progress token, if any, enables progress notifications, and its signal cancels the lookups.
  * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP tool response containing the availability results as JSON.
  */
 async function handleCheckDomainAvailability(
 	args: CheckDomainAvailabilityArgsType,
-	_extra: RequestHandlerExtra<any, any>,
+	extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
 ) {
 	const methodLogger = toolLogger.forMethod('handleCheckDomainAvailability');
 	methodLogger.debug('Tool check-domain-availability called', args);
 
+	const progressToken = extra._meta?.progressToken;
+	const onResult =
+		progressToken === undefined
+			? undefined
+			: (progress: DomainCheckProgress) => {
+					extra
+						.sendNotification({
+							method: 'notifications/progress',
+							params: {
+								progressToken,
+								progress: progress.completed,
+								total: progress.total,
+								message: formatProgressMessage(progress),
+							},
+						})
+						.catch((error) =>
+							methodLogger.warn(
+								'Failed to send progress notification',
+								error,
+							),
+						);
+				};
+
 	try {
 		// Call the controller to perform the check
-		const result = await domainAvailabilityController.check(args.domains);
+		const result = await domainAvailabilityController.check(
+			args.domains ?? [],
+			{
+				patterns: args.patterns,
+				filters: args.filters,
+				dryRun: args.dryRun,
+				fresh: args.fresh,
+				explain: args.explain,
+				includePricing: args.includePricing,
+				onResult,
+				signal: extra.signal,
+			},
+		);
 
 		// The controller already formats the content as a JSON string
 		methodLogger.debug('Successfully retrieved domain availability info.');
@@ -57,15 +109,17 @@ function registerTools(server: McpServer) {
 	server.tool(
 		'check-domain-availability',
 		`PURPOSE: Checks the availability of one or more domain names.
-        INPUT: An array of domain names.
-        OUTPUT: A JSON object containing two arrays: 'available' (domains that appear to be unregistered) and 'unavailable' (domains that appear to be registered). Note: Availability checks depend on WHOIS server responses and might not be 100% accurate for all TLDs or due to temporary network issues. Domains where lookup failed are omitted.
-        WHEN TO USE: Use this tool when you need to determine if specific domain names can potentially be registered.
-        EXAMPLE: { "domains": ["google.com", "example-domain-that-is-likely-free-12345.com"] }`,
+        INPUT: An array of 'domains' and/or 'patterns', and optionally 'fresh' (boolean) to bypass cached results 'explain' (boolean) to include the evidence behind each verdict and 'includePricing' (boolean) to estimate what each available domain costs. Patterns are expanded on the server: [a-z0-9-] character classes, '?' for any letter or digit, {get,try} alternatives and {n} or {m,n} repeats ("[a-z]{3}.io", "go??.dev", "{get,try,use}acme.com", "acme[0-9].ai"). 'filters' narrow the expansion ('noDigits', 'noHyphens', and 'shape' such as "CVCV" for consonant/vowel patterns). Patterns may expand to at most PATTERN_MAX_DOMAINS domains (default 1000); set 'dryRun': true to get each pattern's 'total' and 'matching' counts and a 'sample' without checking anything.
+        OUTPUT: A JSON object containing three arrays: 'available' (domains that appear to be unregistered), 'unavailable' (domains that appear to be registered) and 'failed' (domains whose lookup could not be completed, each with an 'errorType' and 'message'). Note: Availability checks depend on WHOIS server responses and might not be 100% accurate for all TLDs. Domains in 'failed' were never classified and may be retried. Inputs are normalized first: URLs, email addresses and subdomains are reduced to the registrable domain (per the Public Suffix List) and Unicode names are converted to punycode; rewritten inputs are listed in 'normalized' (with the 'unicode' form for IDNs), and inputs that are not domain names are listed in 'invalid' with a 'message' instead of failing the whole check. Names their registry's policy rules out (label too short or long for the TLD, hyphens in positions 3-4, characters outside the TLD's IDN table, TLDs that do not exist) are also listed in 'invalid', and names the registry withholds are listed in 'reserved', both without a WHOIS query. Names a lookup reports as withheld or blocked by the registry are listed in 'reserved' as well, and unregistered names sold above the standard price (reported by WHOIS or a registrar, or listed as premium in the registry policy) in 'premium', each with a 'message'; neither is included in 'available'. 'confidence' maps each classified domain to 'high' (RDAP domain record, registry policy or a WHOIS response matched by a known rule), 'medium' (an RDAP 404 no other provider confirmed, a lookup error that reads as "not found", or a cached result from before confidence was recorded) or 'low' (an ambiguous WHOIS response no rule matched, reported as unavailable); with 'explain', 'evidence' maps each domain to its 'source' (rdap, whois, a registrar provider's name, policy, error, or unknown for results cached before evidence was recorded), the 'server' that answered (and 'failedServers', the WHOIS servers it failed over from), the 'rule' that fired, a trimmed 'excerpt' of the response and 'cachedAt' for cached results. With 'includePricing', 'pricing' maps each available domain to its estimated 'firstYear' and 'renewal' cost and 'currency', from a catalog of typical retail prices per TLD ('tld' is the catalog entry used; TLDs missing from the catalog are left out). Results are cached (registered domains for a day, available domains for an hour, failures for a minute by default); pass 'fresh': true to force new lookups.
+        WHEN TO USE: Use this tool when you need to determine if specific domain names can potentially be registered. Large batches report progress (completed/total and the latest domain result) when the request carries a progress token.
+        EXAMPLE: { "domains": ["google.com", "example-domain-that-is-likely-free-12345.com"] } or { "patterns": ["[a-z]{4}.io"], "filters": { "shape": "CVCV" }, "dryRun": true }`,
 		CheckDomainAvailabilityArgs.shape, // Use the Zod schema shape for validation
 		handleCheckDomainAvailability,
 	);
 
-	methodLogger.debug('Successfully registered check-domain-availability tool.');
+	methodLogger.debug(
+		'Successfully registered check-domain-availability tool.',
+	);
 }
 
-export default { registerTools };
\ No newline at end of file
+export default { registerTools };
@@ -1,11 +1,73 @@
-import { z } from 'zod'
+import { z } from 'zod';
+import { ErrorType } from '../utils/error.util.js';
+import { PatternFilters } from '../utils/domain-pattern.util.js';
+import { LookupProvider } from '../types/lookup-provider.types.js';
+import { DomainPriceEstimate } from '../utils/tld-pricing.util.js';
+import {
+	InvalidDomainInput,
+	NormalizedDomain,
+} from '../utils/domain-name.util.js';
 
 // Schema for the arguments expected by the tool
 export const CheckDomainAvailabilityArgs = z.object({
 	domains: z
 		.array(z.string().min(1, 'Domain name cannot be empty'))
-		.min(1, 'At least one domain name is required')
-		.describe('An array of domain names to check for availability'),
+		.optional()
+		.describe(
+			'An array of domain names to check for availability (optional when patterns are given). URLs, email addresses, subdomains and Unicode names are reduced to the registrable domain in punycode',
+		),
+	patterns: z
+		.array(z.string().min(1, 'Pattern cannot be empty'))
+		.optional()
+		.describe(
+			'Patterns expanded into domains on the server: [a-z0-9-] character classes, ? for any letter or digit, {get,try} alternatives and {n} or {m,n} repeats, e.g. "[a-z]{3}.io", "go??.dev", "{get,try,use}acme.com", "acme[0-9].ai"',
+		),
+	filters: z
+		.object({
+			noDigits: z
+				.boolean()
+				.optional()
+				.describe('Drop expanded names containing digits'),
+			noHyphens: z
+				.boolean()
+				.optional()
+				.describe('Drop expanded names containing hyphens'),
+			shape: z
+				.string()
+				.regex(/^[CVDcvd?]+$/, 'Use C, V, D and ? only')
+				.optional()
+				.describe(
+					'Required shape of expanded names: C = consonant, V = vowel, D = digit, ? = anything (e.g. "CVCV")',
+				),
+		})
+		.optional()
+		.describe(
+			'Filters applied to the first label of every pattern-expanded domain',
+		),
+	dryRun: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to only report how many domains the patterns expand to, with a sample, without checking them',
+		),
+	fresh: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to bypass cached results and query WHOIS/RDAP again',
+		),
+	explain: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to include the evidence behind each verdict: the rule that fired, the server that answered and an excerpt of its response',
+		),
+	includePricing: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to attach estimated first-year and renewal costs to each available domain, from the TLD pricing catalog',
+		),
 });
 
 // Infer the TypeScript type from the Zod schema
@@ -13,8 +75,173 @@ export type CheckDomainAvailabilityArgsType = z.infer<
 	typeof CheckDomainAvailabilityArgs
 >;
 
+// How far a verdict can be trusted: 'high' for RDAP domain records, registry policy and WHOIS
+// responses a rule matched, 'medium' for RDAP 404s no other provider confirmed and lookup errors
+// whose message reads as "not found", 'low' for ambiguous WHOIS responses no rule matched (reported
+// as unavailable, the safer default)
+export type VerdictConfidence = 'high' | 'medium' | 'low';
+
+// What a verdict (or failure) was based on
+export interface VerdictEvidence {
+	// Where the verdict came from: the provider that answered ('rdap', 'whois' or a registrar
+	// provider's name), 'policy', 'error' when it is based on a failed request, or 'unknown' for
+	// results cached before evidence was recorded
+	source: string;
+	// Server that answered: the WHOIS host or the RDAP base URL
+	server?: string;
+	// Registry WHOIS servers that timed out, refused the connection or rate-limited the query before
+	// `server` answered (or all of them, when the lookup failed)
+	failedServers?: string[];
+	// Rule that fired, e.g. "de.available /^Status:\s*free$/im", "rdap.404" or a policy key
+	rule?: string;
+	// Trimmed raw response (or error message) the verdict is based on
+	excerpt?: string;
+	// When the lookup behind a cached result was made (ISO 8601); absent for fresh lookups
+	cachedAt?: string;
+}
+
+// One domain's result, as streamed to callers and rendered by the CLI formats
+export interface DomainResultRow {
+	domain: string;
+	status:
+		| 'available'
+		| 'unavailable'
+		| 'failed'
+		| 'cancelled'
+		| 'invalid'
+		| 'reserved'
+		| 'premium';
+	// Set when status is 'failed' (message also when 'invalid', 'reserved' or 'premium'; for inputs
+	// that are not domain names, domain is the input as given)
+	errorType?: ErrorType;
+	message?: string;
+	// Unicode form of an internationalized domain
+	unicode?: string;
+	// Set for every domain that was classified or ruled out by policy
+	confidence?: VerdictConfidence;
+	// Set when the caller asked for an explanation
+	evidence?: VerdictEvidence;
+	// Estimated cost of an available domain, set when the caller asked for pricing
+	price?: DomainPriceEstimate;
+	// Line of the input list the domain was read from (CLI --input only)
+	line?: number;
+}
+
+// Progress reported after each domain's lookup completes, or once registry policy rules it out
+export interface DomainCheckProgress extends DomainResultRow {
+	status: Exclude<DomainResultRow['status'], 'cancelled'>;
+	// Number of domains finished so far, including this one
+	completed: number;
+	total: number;
+}
+
+// Options accepted by the controller/service check
+export interface CheckDomainAvailabilityOptions {
+	// Bypass the result cache
+	fresh?: boolean;
+	// Called once per domain, in completion order
+	onResult?: (progress: DomainCheckProgress) => void;
+	// Aborting skips queued lookups, closes open connections and returns partial results
+	signal?: AbortSignal;
+	// Providers to ask, in order (default: the configured providers; see LOOKUP_PROVIDERS)
+	providers?: LookupProvider[];
+	// Seconds the whole check may take; lookups not finished by then are reported as failed
+	// (default: LOOKUP_DEADLINE; 0 for no deadline)
+	deadline?: number;
+}
+
+// Output formats the controller can render the result in
+export type AvailabilityOutputFormat =
+	| 'json'
+	| 'ndjson'
+	| 'table'
+	| 'csv'
+	| 'markdown';
+
+// Options accepted by the controller check: the service options plus the output format
+export interface CheckDomainAvailabilityControllerOptions
+	extends CheckDomainAvailabilityOptions {
+	// Defaults to 'json'. In 'ndjson', rows already passed to onResult are left out of the content.
+	format?: AvailabilityOutputFormat;
+	// Input line number per domain, added to each row (and as a `lines` map in json output)
+	lineNumbers?: Record<string, number>;
+	// Patterns expanded into more domains to check, subject to PATTERN_MAX_DOMAINS
+	patterns?: string[];
+	// Filters applied to the pattern-expanded domains
+	filters?: PatternFilters;
+	// Report the size of the expansion instead of checking anything
+	dryRun?: boolean;
+	// Include the evidence behind each verdict (and in table formats, an Evidence column)
+	explain?: boolean;
+	// Include the estimated cost of each available domain (and in table formats, a Price column)
+	includePricing?: boolean;
+	// Leave out available domains whose estimated first-year cost is higher (implies includePricing)
+	maxPrice?: number;
+}
+
+// Expansion of one pattern, as reported by a dry run
+export interface PatternPreview {
+	pattern: string;
+	// Names produced before filters
+	total: number;
+	// Valid domains left after the filters (null when the pattern is too large to enumerate)
+	matching: number | null;
+	// First few matching domains
+	sample: string[];
+}
+
+// Result of a dry run
+export interface DomainCheckDryRun {
+	dryRun: true;
+	patterns: PatternPreview[];
+	// Distinct domains a real run would check, literal domains included (null if unknown)
+	domains: number | null;
+	// PATTERN_MAX_DOMAINS: most pattern-expanded domains a real run accepts
+	maxPatternDomains: number;
+}
+
+// A domain whose lookup could not be completed (timeout, network error, etc.)
+export interface DomainLookupFailure {
+	domain: string;
+	errorType: ErrorType;
+	message: string;
+}
+
+// A domain the registry withholds from registration, according to its policy or a lookup
+export interface ReservedDomain {
+	domain: string;
+	message: string;
+}
+
+// An unregistered domain the registry sells above the standard price
+export interface PremiumDomain {
+	domain: string;
+	message: string;
+}
+
 // Define the structure of the result object returned by the controller/service
 export interface DomainAvailabilityResult {
 	available: string[];
 	unavailable: string[];
-}
\ No newline at end of file
+	failed: DomainLookupFailure[];
+	// Domains left unchecked because the request was cancelled (only present after a cancellation)
+	cancelled?: string[];
+	// Inputs rewritten to a different registrable domain or with a Unicode form (controller only)
+	normalized?: NormalizedDomain[];
+	// Inputs that are not domain names or break their registry's policy, never looked up
+	invalid?: InvalidDomainInput[];
+	// Domains the registry withholds from registration (by policy, without a lookup, or as a lookup reported)
+	reserved?: ReservedDomain[];
+	// Unregistered domains sold at a premium price (listed in the registry policy or reported by a lookup)
+	premium?: PremiumDomain[];
+	// Confidence of each verdict, by domain
+	confidence?: Record<string, VerdictConfidence>;
+	// Evidence behind each verdict or failure, by domain (service always; controller only with explain)
+	evidence?: Record<string, VerdictEvidence>;
+	// Estimated cost of each available domain whose TLD is in the pricing catalog (controller only, with includePricing)
+	pricing?: Record<string, DomainPriceEstimate>;
+	// Available domains left out because their estimated first-year cost exceeds maxPrice (controller only)
+	overBudget?: string[];
+	// Available domains left out under maxPrice because they have no estimate in the catalog currency (controller only)
+	unpriced?: string[];
+}
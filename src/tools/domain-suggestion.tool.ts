@@ -0,0 +1,72 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+	ServerNotification,
+	ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import domainSuggestionController from '../controllers/domain-suggestion.controller.js';
+import {
+	SuggestDomainsArgs,
+	SuggestDomainsArgsType,
+} from './domain-suggestion.types.js';
+
+const toolLogger = Logger.forContext('tools/domain-suggestion.tool.ts');
+
+/**
+ * MCP Tool handler function for suggesting available domain names.
+ *
+ * @param {SuggestDomainsArgsType} args - Arguments containing the keywords and the optional TLDs, lookup cap, limit and the `fresh` and `includePricing` flags.
+ * @param {RequestHandlerExtra} extra - Additional request context; its signal cancels the lookups.
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP tool response containing the ranked suggestions as JSON.
+ */
+async function handleSuggestDomains(
+	args: SuggestDomainsArgsType,
+	extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+	const methodLogger = toolLogger.forMethod('handleSuggestDomains');
+	methodLogger.debug('Tool suggest-domains called', args);
+
+	try {
+		const result = await domainSuggestionController.suggest(args.keywords, {
+			tlds: args.tlds,
+			maxLookups: args.maxLookups,
+			limit: args.limit,
+			fresh: args.fresh,
+			includePricing: args.includePricing,
+			signal: extra.signal,
+		});
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+		};
+	} catch (error) {
+		methodLogger.error('Tool suggest-domains failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Registers the domain suggestion tool with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = toolLogger.forMethod('registerTools');
+	methodLogger.debug('Registering suggest-domains tool...');
+
+	server.tool(
+		'suggest-domains',
+		`PURPOSE: Suggests available domain names for a product or idea.
+        INPUT: Seed 'keywords', and optionally 'tlds' (most preferred first; default com, io, dev, app, co), 'maxLookups' (how many candidates to check, default 50), 'limit' (how many names to return, default 10), 'fresh' (boolean) to bypass cached results and 'includePricing' (boolean) to estimate what each suggestion costs.
+        OUTPUT: A JSON object with 'suggestions' (available names, best first, each with the 'strategy' that produced it and its 'score'), how many candidates were 'generated', 'checked' and 'failed' and, with 'includePricing', 'pricing' mapping each suggestion to its estimated 'firstYear' and 'renewal' cost.
+        WHEN TO USE: Use this instead of inventing names and checking them one by one. Candidates are built from the keywords themselves, compounds of two keywords, plurals, common prefixes/suffixes (get-, -hq, -ly, ...), vowel dropping (flickr style) and TLD hacks (delicio.us), ranked by shortness and closeness to the keywords; only the best 'maxLookups' are checked.
+        EXAMPLE: { "keywords": ["cloud", "notes"], "tlds": ["com", "io"], "limit": 5 }`,
+		SuggestDomainsArgs.shape,
+		handleSuggestDomains,
+	);
+
+	methodLogger.debug('Successfully registered suggest-domains tool.');
+}
+
+export default { registerTools };
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { SuggestionStrategy } from '../utils/name-generator.util.js';
+import { DomainPriceEstimate } from '../utils/tld-pricing.util.js';
+
+// Schema for the arguments expected by the tool
+export const SuggestDomainsArgs = z.object({
+	keywords: z
+		.array(z.string().min(1, 'Keyword cannot be empty'))
+		.min(1, 'At least one keyword is required')
+		.describe('Seed keywords describing the product or idea'),
+	tlds: z
+		.array(z.string().min(1, 'TLD cannot be empty'))
+		.optional()
+		.describe(
+			'TLDs to generate names on, most preferred first (default: com, io, dev, app, co)',
+		),
+	maxLookups: z
+		.number()
+		.int()
+		.min(1)
+		.max(500)
+		.optional()
+		.describe(
+			'Maximum number of candidates to check (default: SUGGEST_MAX_LOOKUPS, 50)',
+		),
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(100)
+		.optional()
+		.describe('Maximum number of available names to return (default 10)'),
+	fresh: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to bypass cached results and query WHOIS/RDAP again',
+		),
+	includePricing: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to attach estimated first-year and renewal costs to each suggestion, from the TLD pricing catalog',
+		),
+});
+
+// Infer the TypeScript type from the Zod schema
+export type SuggestDomainsArgsType = z.infer<typeof SuggestDomainsArgs>;
+
+// Options accepted by the controller/service suggest
+export interface SuggestDomainsOptions {
+	tlds?: string[];
+	maxLookups?: number;
+	limit?: number;
+	fresh?: boolean;
+	// Include the estimated cost of each suggestion
+	includePricing?: boolean;
+	// Aborting stops the remaining lookups; names found so far are still returned
+	signal?: AbortSignal;
+}
+
+// An available name, with how it was generated
+export interface DomainSuggestion {
+	domain: string;
+	strategy: SuggestionStrategy;
+	score: number;
+}
+
+// Result returned by the controller/service
+export interface DomainSuggestionResult {
+	// Available names, best first
+	suggestions: DomainSuggestion[];
+	// Candidates generated from the keywords
+	generated: number;
+	// Candidates looked up (at most maxLookups)
+	checked: number;
+	// Lookups that could not be completed; those names may still be available
+	failed: number;
+	// Estimated cost of each suggestion whose TLD is in the pricing catalog (with includePricing)
+	pricing?: Record<string, DomainPriceEstimate>;
+}
@@ -0,0 +1,56 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import domainValidationController from '../controllers/domain-validation.controller.js';
+import {
+	ValidateDomainsArgs,
+	ValidateDomainsArgsType,
+} from './domain-validation.types.js';
+
+const toolLogger = Logger.forContext('tools/domain-validation.tool.ts');
+
+/**
+ * MCP Tool handler function for validating domain names.
+ *
+ * @param {ValidateDomainsArgsType} args - Arguments containing the domain names to validate.
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP tool response containing the verdicts as JSON.
+ */
+async function handleValidateDomains(args: ValidateDomainsArgsType) {
+	const methodLogger = toolLogger.forMethod('handleValidateDomains');
+	methodLogger.debug('Tool validate-domains called', args);
+
+	try {
+		const result = await domainValidationController.validate(args.domains);
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+		};
+	} catch (error) {
+		methodLogger.error('Tool validate-domains failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Registers the domain validation tool with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = toolLogger.forMethod('registerTools');
+	methodLogger.debug('Registering validate-domains tool...');
+
+	server.tool(
+		'validate-domains',
+		`PURPOSE: Checks whether domain names can be registered at all, without any WHOIS or RDAP lookup.
+        INPUT: 'domains', an array of domain names (URLs, email addresses, subdomains and Unicode names are reduced to the registrable domain first).
+        OUTPUT: A JSON object with one entry per input in 'results' ('input', the normalized 'domain' and 'unicode' form, a 'verdict' of 'valid', 'invalid' or 'reserved', the 'policy' that applied and a 'message' explaining the verdict), plus the 'valid', 'invalid' and 'reserved' counts.
+        WHEN TO USE: Use this to screen candidate names before checking availability. Names are 'invalid' when they are not domain names, their TLD does not exist, the label is too short or too long for the TLD, it has hyphens in positions 3-4, or it uses characters outside the TLD's IDN table; 'reserved' when the registry withholds them (e.g. "nic", "whois", single-character .com names). check-domain-availability applies the same rules itself.
+        EXAMPLE: { "domains": ["x.com", "ab--cd.io", "smörgås.nl", "example.notatld"] }`,
+		ValidateDomainsArgs.shape,
+		handleValidateDomains,
+	);
+
+	methodLogger.debug('Successfully registered validate-domains tool.');
+}
+
+export default { registerTools };
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { DomainPolicyVerdict } from '../utils/domain-policy.util.js';
+
+// Schema for the arguments expected by the tool
+export const ValidateDomainsArgs = z.object({
+	domains: z
+		.array(z.string().min(1, 'Domain name cannot be empty'))
+		.min(1, 'At least one domain name is required')
+		.describe(
+			'Domain names to validate. URLs, email addresses, subdomains and Unicode names are reduced to the registrable domain first',
+		),
+});
+
+// Infer the TypeScript type from the Zod schema
+export type ValidateDomainsArgsType = z.infer<typeof ValidateDomainsArgs>;
+
+// Verdict for one input
+export interface DomainValidation {
+	// The input as given
+	input: string;
+	// Registrable domain in ASCII, when the input is a domain name at all
+	domain?: string;
+	// Unicode form of an internationalized domain
+	unicode?: string;
+	verdict: DomainPolicyVerdict;
+	// Policy that decided the verdict, e.g. "de" or "*" for the generic policy
+	policy?: string;
+	// Why the input is invalid or reserved
+	message?: string;
+}
+
+// Result returned by the controller/service
+export interface DomainValidationResult {
+	// One verdict per input, in input order
+	results: DomainValidation[];
+	valid: number;
+	invalid: number;
+	reserved: number;
+}
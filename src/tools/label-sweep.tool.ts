@@ -0,0 +1,73 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+	ServerNotification,
+	ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import labelSweepController from '../controllers/label-sweep.controller.js';
+import {
+	CheckLabelAcrossTldsArgs,
+	CheckLabelAcrossTldsArgsType,
+} from './label-sweep.types.js';
+
+const toolLogger = Logger.forContext('tools/label-sweep.tool.ts');
+
+/**
+ * MCP Tool handler function for checking labels across TLDs.
+ *
+ * @param {CheckLabelAcrossTldsArgsType} args - Arguments containing the labels, the optional TLDs/presets and the `fresh` and `includePricing` flags.
+ * @param {RequestHandlerExtra} extra - Additional request context; its signal cancels the lookups.
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP tool response containing the label × TLD grid as JSON.
+ */
+async function handleCheckLabelAcrossTlds(
+	args: CheckLabelAcrossTldsArgsType,
+	extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+	const methodLogger = toolLogger.forMethod('handleCheckLabelAcrossTlds');
+	methodLogger.debug('Tool check-label-across-tlds called', args);
+
+	try {
+		const result = await labelSweepController.check(
+			args.labels,
+			args.tlds,
+			{
+				fresh: args.fresh,
+				includePricing: args.includePricing,
+				signal: extra.signal,
+			},
+		);
+		return {
+			content: [{ type: 'text' as const, text: result.content }],
+		};
+	} catch (error) {
+		methodLogger.error('Tool check-label-across-tlds failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Registers the label sweep tool with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = toolLogger.forMethod('registerTools');
+	methodLogger.debug('Registering check-label-across-tlds tool...');
+
+	server.tool(
+		'check-label-across-tlds',
+		`PURPOSE: Checks whether one or more names are free on each of a set of TLDs.
+        INPUT: 'labels' (names without a TLD), optional 'tlds', 'fresh' (boolean) to bypass cached results and 'includePricing' (boolean) to estimate what each available domain costs. 'tlds' mixes TLDs and presets: popular (default), tech, country:eu, country:nordics, country:dach, country:americas, country:apac and all-gtlds.
+        OUTPUT: A JSON object with the normalized 'labels', the expanded 'tlds', a 'matrix' mapping each label to each TLD's status (available, unavailable, failed, cancelled, invalid, reserved or premium), 'failed' with the error of each failed lookup and, with 'includePricing', 'pricing' mapping each available domain to its estimated 'firstYear' and 'renewal' cost.
+        WHEN TO USE: Use this instead of check-domain-availability when the question is "where is this name free?" rather than about specific domains.
+        EXAMPLE: { "labels": ["acme"], "tlds": ["com", "io", "dev", "ai", "co", "app"] }`,
+		CheckLabelAcrossTldsArgs.shape,
+		handleCheckLabelAcrossTlds,
+	);
+
+	methodLogger.debug('Successfully registered check-label-across-tlds tool.');
+}
+
+export default { registerTools };
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import {
+	CheckDomainAvailabilityOptions,
+	DomainLookupFailure,
+	DomainResultRow,
+} from './domain-availability.types.js';
+import { DomainPriceEstimate } from '../utils/tld-pricing.util.js';
+
+// Schema for the arguments expected by the tool
+export const CheckLabelAcrossTldsArgs = z.object({
+	labels: z
+		.array(z.string().min(1, 'Label cannot be empty'))
+		.min(1, 'At least one label is required')
+		.describe(
+			'Names to check without a TLD (e.g. "acme"); each one is checked on every TLD',
+		),
+	tlds: z
+		.array(z.string().min(1, 'TLD cannot be empty'))
+		.optional()
+		.describe(
+			'TLDs and/or presets to check the labels on, e.g. ["com", "io"] or ["tech", "country:eu"]. Presets: popular, tech, country:eu, country:nordics, country:dach, country:americas, country:apac, all-gtlds (default: popular)',
+		),
+	fresh: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to bypass cached results and query WHOIS/RDAP again',
+		),
+	includePricing: z
+		.boolean()
+		.optional()
+		.describe(
+			'Set to true to attach estimated first-year and renewal costs to each available domain, from the TLD pricing catalog',
+		),
+});
+
+// Infer the TypeScript type from the Zod schema
+export type CheckLabelAcrossTldsArgsType = z.infer<
+	typeof CheckLabelAcrossTldsArgs
+>;
+
+// Output formats the controller can render the grid in
+export type LabelSweepOutputFormat = 'json' | 'table';
+
+// Options accepted by the controller/service check
+export interface LabelSweepOptions extends CheckDomainAvailabilityOptions {
+	// Include the estimated cost of each available domain
+	includePricing?: boolean;
+}
+
+// Options accepted by the controller check: the service options plus the output format
+export interface LabelSweepControllerOptions extends LabelSweepOptions {
+	// Defaults to 'json'
+	format?: LabelSweepOutputFormat;
+}
+
+// Result returned by the controller/service
+export interface LabelSweepResult {
+	// Normalized labels, in input order
+	labels: string[];
+	// TLDs after expanding presets, in input order
+	tlds: string[];
+	// Status of every label.tld, keyed by label then TLD
+	matrix: Record<string, Record<string, DomainResultRow['status']>>;
+	// Details of the lookups that could not be completed
+	failed: DomainLookupFailure[];
+	// Estimated cost of each available domain whose TLD is in the pricing catalog (with includePricing)
+	pricing?: Record<string, DomainPriceEstimate>;
+}
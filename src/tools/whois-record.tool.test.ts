@@ -0,0 +1,69 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import whoisRecordController from '../controllers/whois-record.controller.js';
+import whoisRecordTool from './whois-record.tool.js';
+import { WhoisRecord } from './whois-record.types.js';
+
+jest.mock('../controllers/whois-record.controller.js', () => ({
+	__esModule: true,
+	default: { get: jest.fn() },
+}));
+
+const mockedGet = whoisRecordController.get as jest.MockedFunction<
+	typeof whoisRecordController.get
+>;
+
+const RECORD: WhoisRecord = {
+	domain: 'example.com',
+	registrar: 'Example Registrar, Inc.',
+	expiryDate: '2025-08-13T04:00:00.000Z',
+	statuses: ['clientTransferProhibited'],
+	nameServers: ['a.iana-servers.net'],
+	servers: ['whois.verisign-grs.com'],
+	fieldSources: {
+		registrar: ['whois.verisign-grs.com'],
+		expiryDate: ['whois.verisign-grs.com'],
+		statuses: ['whois.verisign-grs.com'],
+		nameServers: ['whois.verisign-grs.com'],
+	},
+};
+
+describe('get-whois-record tool', () => {
+	let client: Client;
+
+	beforeEach(async () => {
+		mockedGet.mockResolvedValue({
+			content: '# WHOIS Record: example.com',
+			record: RECORD,
+		});
+
+		const server = new McpServer({ name: 'test', version: '1.0.0' });
+		whoisRecordTool.registerTools(server);
+		const [clientTransport, serverTransport] =
+			InMemoryTransport.createLinkedPair();
+		client = new Client({ name: 'test-client', version: '1.0.0' });
+		await Promise.all([
+			server.connect(serverTransport),
+			client.connect(clientTransport),
+		]);
+	});
+
+	afterEach(async () => {
+		await client.close();
+		mockedGet.mockReset();
+	});
+
+	it('should return the record as Markdown and as JSON', async () => {
+		const result = await client.callTool({
+			name: 'get-whois-record',
+			arguments: { domain: 'example.com' },
+		});
+
+		const content = result.content as Array<{ type: string; text: string }>;
+		expect(mockedGet).toHaveBeenCalledWith('example.com');
+		expect(content).toHaveLength(2);
+		expect(content[0].text).toBe('# WHOIS Record: example.com');
+		expect(JSON.parse(content[1].text)).toEqual(RECORD);
+	});
+});
@@ -0,0 +1,76 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+	ServerNotification,
+	ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.util.js';
+import { formatErrorForMcpTool } from '../utils/error.util.js';
+import whoisRecordController from '../controllers/whois-record.controller.js';
+import {
+	GetWhoisRecordArgs,
+	GetWhoisRecordArgsType,
+} from './whois-record.types.js';
+
+const toolLogger = Logger.forContext('tools/whois-record.tool.ts');
+
+/**
+ * MCP Tool handler function for retrieving a domain's WHOIS record.
+ *
+ * @param {GetWhoisRecordArgsType} args - Arguments containing the domain name.
+ * @param {RequestHandlerExtra} _extra - Additional request context (unused).
+ * @returns {Promise<{ content: Array<{ type: 'text', text: string }> }>} MCP tool response containing the formatted record and the record as JSON.
+ */
+async function handleGetWhoisRecord(
+	args: GetWhoisRecordArgsType,
+	_extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) {
+	const methodLogger = toolLogger.forMethod('handleGetWhoisRecord');
+	methodLogger.debug('Tool get-whois-record called', args);
+
+	try {
+		const result = await whoisRecordController.get(args.domain);
+
+		methodLogger.debug('Successfully retrieved WHOIS record.');
+		return {
+			content: [
+				{
+					type: 'text' as const,
+					text: result.content,
+				},
+				{
+					type: 'text' as const,
+					text: JSON.stringify(result.record, null, 2),
+				},
+			],
+		};
+	} catch (error) {
+		methodLogger.error('Tool get-whois-record failed', error);
+		return formatErrorForMcpTool(error);
+	}
+}
+
+/**
+ * Registers the WHOIS record tool with the MCP server.
+ *
+ * @param {McpServer} server - The MCP server instance.
+ */
+function registerTools(server: McpServer) {
+	const methodLogger = toolLogger.forMethod('registerTools');
+	methodLogger.debug('Registering get-whois-record tool...');
+
+	server.tool(
+		'get-whois-record',
+		`PURPOSE: Retrieves the registration record of a registered domain name.
+        INPUT: A single domain name.
+        OUTPUT: Markdown with the registrar, registrant organization (unless redacted), created/updated/expiry dates, EPP status codes, name servers and DNSSEC state, plus which WHOIS servers in the registry → registrar follow chain supplied each field. A second text item holds the same record as JSON ('domain', 'registrar', 'registrantOrganization', 'createdDate', 'updatedDate', 'expiryDate' as ISO 8601, 'statuses', 'nameServers', 'dnssec', 'servers', 'failedServers' and 'fieldSources').
+        WHEN TO USE: Use this tool when you need details about who holds a domain, when it expires or how it is configured. Use 'check-domain-availability' for a simple available/taken answer.
+        EXAMPLE: { "domain": "google.com" }`,
+		GetWhoisRecordArgs.shape,
+		handleGetWhoisRecord,
+	);
+
+	methodLogger.debug('Successfully registered get-whois-record tool.');
+}
+
+export default { registerTools };
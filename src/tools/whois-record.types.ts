@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { ControllerResponse } from '../types/common.types.js';
+
+// Schema for the arguments expected by the tool
+export const GetWhoisRecordArgs = z.object({
+	domain: z
+		.string()
+		.min(1, 'Domain name cannot be empty')
+		.describe('The domain name to retrieve the WHOIS record for'),
+});
+
+// Infer the TypeScript type from the Zod schema
+export type GetWhoisRecordArgsType = z.infer<typeof GetWhoisRecordArgs>;
+
+// Fields of a WHOIS record whose origin in the follow chain is tracked
+export type WhoisRecordField =
+	| 'registrar'
+	| 'registrantOrganization'
+	| 'createdDate'
+	| 'updatedDate'
+	| 'expiryDate'
+	| 'statuses'
+	| 'nameServers'
+	| 'dnssec';
+
+// Normalized registration record returned by the controller/service
+export interface WhoisRecord {
+	domain: string;
+	registrar?: string;
+	registrantOrganization?: string;
+	createdDate?: string;
+	updatedDate?: string;
+	expiryDate?: string;
+	statuses: string[];
+	nameServers: string[];
+	dnssec?: string;
+	// WHOIS servers queried, in follow-chain order (registry first)
+	servers: string[];
+	// Registry WHOIS servers that failed before the one in `servers` answered (failover)
+	failedServers?: string[];
+	// WHOIS servers that supplied each field
+	fieldSources: Partial<Record<WhoisRecordField, string[]>>;
+}
+
+// Controller response: the record formatted as Markdown, plus the record itself
+export interface WhoisRecordResponse extends ControllerResponse {
+	record: WhoisRecord;
+}
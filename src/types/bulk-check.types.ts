@@ -0,0 +1,122 @@
+/**
+ * Type definitions for resumable bulk availability checks.
+ */
+
+import { DomainResultRow } from '../tools/domain-availability.types.js';
+
+/**
+ * One line of a bulk-check journal: a finished lookup.
+ */
+export interface BulkJournalRecord extends DomainResultRow {
+	/**
+	 * Never 'cancelled': only domains that were looked up or ruled out by registry policy are journaled.
+	 */
+	status: Exclude<DomainResultRow['status'], 'cancelled'>;
+
+	/**
+	 * When the lookup finished (ISO 8601).
+	 */
+	checkedAt: string;
+}
+
+/**
+ * Options for a bulk check.
+ */
+export interface BulkCheckOptions {
+	/**
+	 * Journal file results are appended to and resumed from.
+	 */
+	journalPath: string;
+
+	/**
+	 * Check domains whose journaled lookup failed again instead of keeping the failure.
+	 */
+	retryFailed?: boolean;
+
+	/**
+	 * Bypass the result cache.
+	 */
+	fresh?: boolean;
+
+	/**
+	 * Number of domains handed to the availability service at a time.
+	 */
+	chunkSize?: number;
+
+	/**
+	 * Called after each lookup finishes.
+	 */
+	onProgress?: (progress: BulkCheckProgress) => void;
+
+	/**
+	 * Aborting stops the check; everything finished so far is already journaled.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * Progress reported after each lookup of a bulk check.
+ */
+export interface BulkCheckProgress {
+	/**
+	 * The lookup that just finished.
+	 */
+	record: BulkJournalRecord;
+
+	/**
+	 * Domains done, including those resumed from the journal.
+	 */
+	completed: number;
+
+	/**
+	 * Distinct domains in the input, after normalization.
+	 */
+	total: number;
+
+	/**
+	 * Lookups per second in this run.
+	 */
+	ratePerSecond: number;
+
+	/**
+	 * Estimated seconds until the remaining domains are checked, once a rate is known.
+	 */
+	etaSeconds?: number;
+}
+
+/**
+ * Final summary of a bulk check, covering the whole input (including resumed results).
+ */
+export interface BulkCheckSummary {
+	journal: string;
+	total: number;
+	/**
+	 * Domains whose result was taken from the journal of an earlier run.
+	 */
+	resumed: number;
+	/**
+	 * Domains looked up in this run.
+	 */
+	checked: number;
+	available: number;
+	unavailable: number;
+	failed: number;
+	/**
+	 * Domains that break their registry's policy, never looked up.
+	 */
+	invalid: number;
+	/**
+	 * Domains the registry withholds.
+	 */
+	reserved: number;
+	/**
+	 * Unregistered domains sold at a premium price.
+	 */
+	premium: number;
+	/**
+	 * Domains not checked yet (the run was cancelled); re-run to resume.
+	 */
+	remaining: number;
+	elapsedSeconds: number;
+	ratePerSecond: number;
+}
@@ -0,0 +1,126 @@
+/**
+ * Type definitions for availability lookup providers.
+ */
+
+import { McpError } from '../utils/error.util.js';
+import {
+	VerdictConfidence,
+	VerdictEvidence,
+} from '../tools/domain-availability.types.js';
+
+/**
+ * Answer of a provider for one domain.
+ */
+export type ProviderLookupResult =
+	| {
+			/**
+			 * 'reserved': withheld by the registry; 'premium': unregistered but sold above the standard price.
+			 */
+			status: 'available' | 'unavailable' | 'reserved' | 'premium';
+			confidence: VerdictConfidence;
+			evidence: VerdictEvidence;
+			/**
+			 * Why the name is reserved or premium, as reported by the provider.
+			 */
+			message?: string;
+			/**
+			 * Set on 'available' answers from a source that cannot tell premium or reserved names from
+			 * free ones (an RDAP 404). The next provider is asked to confirm the answer.
+			 */
+			unconfirmed?: boolean;
+	  }
+	| {
+			/**
+			 * The provider could not decide; the next provider is tried.
+			 */
+			status: 'failed';
+			error: McpError;
+			evidence?: VerdictEvidence;
+	  };
+
+/**
+ * Options passed to each lookup.
+ */
+export interface ProviderLookupOptions {
+	/**
+	 * Aborts queued and open requests; the provider then rejects with the signal's reason.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * A source of availability answers, such as RDAP, WHOIS or a registrar's API.
+ * The availability service asks its providers in order and keeps the first definite answer.
+ */
+export interface LookupProvider {
+	/**
+	 * Name used in LOOKUP_PROVIDERS and as the evidence source, e.g. "rdap".
+	 */
+	readonly name: string;
+
+	/**
+	 * Whether the provider can look up a domain at all (e.g. it covers the TLD).
+	 * Providers that do not support a domain are skipped without counting as a failure.
+	 */
+	supports(domain: string): boolean;
+
+	/**
+	 * Look up one domain. Requests should go through the shared lookup scheduler.
+	 * Rejections are treated like a 'failed' result.
+	 */
+	lookup(
+		domain: string,
+		options: ProviderLookupOptions,
+	): Promise<ProviderLookupResult>;
+}
+
+/**
+ * Configuration of a generic HTTP registrar provider, as written in the REGISTRAR_PROVIDERS config value.
+ */
+export interface HttpRegistrarProviderConfig {
+	/**
+	 * Provider name, used in LOOKUP_PROVIDERS and evidence.
+	 */
+	name: string;
+
+	/**
+	 * Endpoint URL; "{domain}" is replaced with the URL-encoded domain.
+	 */
+	url: string;
+
+	/**
+	 * HTTP method (default GET).
+	 */
+	method?: 'GET' | 'POST';
+
+	/**
+	 * Request headers, e.g. an API key.
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * Request body for POST; "{domain}" is replaced with the domain.
+	 */
+	body?: string;
+
+	/**
+	 * Dot path of the availability flag in the JSON response, e.g. "data.available".
+	 */
+	availablePath: string;
+
+	/**
+	 * Dot path of a flag marking premium names in the JSON response, e.g. "data.premium".
+	 * The values "premium", "reserved" and "blocked" at availablePath are recognized as well.
+	 */
+	premiumPath?: string;
+
+	/**
+	 * TLDs the provider covers (default: all).
+	 */
+	tlds?: string[];
+
+	/**
+	 * Request timeout in milliseconds (default 5000).
+	 */
+	timeout?: number;
+}
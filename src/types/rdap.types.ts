@@ -0,0 +1,90 @@
+/**
+ * Type definitions for RDAP (Registration Data Access Protocol) lookups.
+ * See RFC 9224 (bootstrap) and RFC 9083 (JSON responses).
+ */
+
+/**
+ * A single bootstrap service entry: the TLDs it covers and the RDAP base URLs serving them.
+ */
+export type RdapBootstrapService = [string[], string[]];
+
+/**
+ * The IANA RDAP bootstrap registry for DNS (https://data.iana.org/rdap/dns.json).
+ */
+export interface RdapBootstrap {
+	/**
+	 * Human-readable description of the registry.
+	 */
+	description?: string;
+
+	/**
+	 * Publication timestamp of the registry (ISO 8601).
+	 */
+	publication?: string;
+
+	/**
+	 * Bootstrap format version.
+	 */
+	version?: string;
+
+	/**
+	 * List of TLD-to-base-URL mappings.
+	 */
+	services: RdapBootstrapService[];
+}
+
+/**
+ * An RDAP event (e.g., registration, expiration, last changed).
+ */
+export interface RdapEvent {
+	eventAction: string;
+	eventDate?: string;
+	eventActor?: string;
+}
+
+/**
+ * An RDAP entity (registrar, registrant, etc.). Only the fields we read are typed.
+ */
+export interface RdapEntity {
+	objectClassName?: string;
+	handle?: string;
+	roles?: string[];
+	vcardArray?: [string, unknown[][]];
+	publicIds?: Array<{ type: string; identifier: string }>;
+	entities?: RdapEntity[];
+}
+
+/**
+ * An RDAP nameserver object.
+ */
+export interface RdapNameserver {
+	objectClassName?: string;
+	ldhName?: string;
+	unicodeName?: string;
+}
+
+/**
+ * The subset of an RDAP domain object response we rely on.
+ */
+export interface RdapDomainResponse {
+	objectClassName?: string;
+	handle?: string;
+	ldhName?: string;
+	unicodeName?: string;
+	status?: string[];
+	events?: RdapEvent[];
+	entities?: RdapEntity[];
+	nameservers?: RdapNameserver[];
+	secureDNS?: {
+		delegationSigned?: boolean;
+		zoneSigned?: boolean;
+	};
+}
+
+/**
+ * Outcome of an RDAP domain lookup.
+ * `registered` is returned for HTTP 200 with a domain object, `available` for HTTP 404.
+ */
+export type RdapLookupResult =
+	| { status: 'registered'; server: string; record: RdapDomainResponse }
+	| { status: 'available'; server: string };
@@ -0,0 +1,58 @@
+/**
+ * Type definitions for top-level domain information, as published by IANA.
+ */
+
+/**
+ * Registry details for a single TLD.
+ */
+export interface TldInfo {
+	/**
+	 * The TLD, lowercase and without a leading dot.
+	 */
+	tld: string;
+
+	/**
+	 * The sponsoring organisation (registry operator).
+	 */
+	organisation?: string;
+
+	/**
+	 * The registry WHOIS server, if the TLD has one.
+	 */
+	whoisServer?: string;
+
+	/**
+	 * RDAP base URL from the bootstrap registry, if the TLD offers RDAP.
+	 */
+	rdapServer?: string;
+
+	/**
+	 * Authoritative name servers for the TLD zone.
+	 */
+	nameServers: string[];
+
+	/**
+	 * Whether DS records are published for the TLD zone.
+	 */
+	dnssec: boolean;
+
+	/**
+	 * IANA delegation status (e.g. ACTIVE).
+	 */
+	status?: string;
+
+	/**
+	 * Date the TLD was delegated.
+	 */
+	created?: string;
+
+	/**
+	 * Date the delegation record was last changed.
+	 */
+	changed?: string;
+
+	/**
+	 * Registration information remarks (usually the registry's website).
+	 */
+	remarks?: string;
+}
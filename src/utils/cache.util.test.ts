@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LruCache } from './cache.util.js';
+
+describe('LruCache', () => {
+	it('should evict the least recently used entry when full', () => {
+		const cache = new LruCache<number>(2);
+		cache.set('a', 1, 60_000);
+		cache.set('b', 2, 60_000);
+		// Reading "a" makes "b" the least recently used entry
+		expect(cache.get('a')).toBe(1);
+		cache.set('c', 3, 60_000);
+
+		expect(cache.get('b')).toBeUndefined();
+		expect(cache.get('a')).toBe(1);
+		expect(cache.get('c')).toBe(3);
+		expect(cache.getStats()).toEqual({ entries: 2, hits: 3, misses: 1 });
+	});
+
+	it('should expire entries after their TTL and skip non-positive TTLs', () => {
+		const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+		try {
+			const cache = new LruCache<string>(10);
+			cache.set('short', 'x', 100);
+			cache.set('long', 'y', 10_000);
+			cache.set('never', 'z', 0);
+
+			now.mockReturnValue(1_500);
+			expect(cache.get('short')).toBeUndefined();
+			expect(cache.get('long')).toBe('y');
+			expect(cache.get('never')).toBeUndefined();
+		} finally {
+			now.mockRestore();
+		}
+	});
+
+	it('should round-trip unexpired entries through a file', () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lru-cache-'));
+		const filePath = path.join(dir, 'cache.json');
+		try {
+			const cache = new LruCache<{ status: string }>(10);
+			cache.set('example.com', { status: 'unavailable' }, 60_000);
+			cache.saveTo(filePath);
+
+			const restored = new LruCache<{ status: string }>(10);
+			restored.loadFrom(filePath);
+			expect(restored.get('example.com')).toEqual({
+				status: 'unavailable',
+			});
+
+			// A missing file is not an error
+			const empty = new LruCache<string>(10);
+			empty.loadFrom(path.join(dir, 'missing.json'));
+			expect(empty.getStats().entries).toBe(0);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,178 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger.util.js';
+
+const cacheLogger = Logger.forContext('utils/cache.util.ts');
+
+/**
+ * A cached value with its expiry time
+ */
+interface CacheEntry<V> {
+	value: V;
+	expiresAt: number;
+}
+
+/**
+ * Serialized form of a cache, as written to disk
+ */
+interface CacheFile<V> {
+	version: 1;
+	entries: Array<[string, CacheEntry<V>]>;
+}
+
+/**
+ * In-memory LRU cache with a TTL per entry and optional JSON file persistence.
+ * Map insertion order is used as recency order: reads move an entry to the end,
+ * and the first entry is evicted when the cache is full.
+ */
+export class LruCache<V> {
+	private entries = new Map<string, CacheEntry<V>>();
+	private maxEntries: number;
+	private hits = 0;
+	private misses = 0;
+
+	/**
+	 * Create a new cache
+	 * @param maxEntries Maximum number of entries kept before the least recently used is evicted
+	 */
+	constructor(maxEntries: number) {
+		this.maxEntries = Math.max(1, Math.floor(maxEntries));
+	}
+
+	/**
+	 * Get a value if present and not expired
+	 * @param key Cache key
+	 * @returns The cached value, or undefined on a miss
+	 */
+	get(key: string): V | undefined {
+		const entry = this.entries.get(key);
+		if (!entry || entry.expiresAt <= Date.now()) {
+			if (entry) {
+				this.entries.delete(key);
+			}
+			this.misses++;
+			return undefined;
+		}
+		// Refresh recency
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		this.hits++;
+		return entry.value;
+	}
+
+	/**
+	 * Store a value
+	 * @param key Cache key
+	 * @param value Value to cache
+	 * @param ttlMs Time to live in milliseconds; values with a TTL of 0 or less are not stored
+	 */
+	set(key: string, value: V, ttlMs: number): void {
+		this.entries.delete(key);
+		if (ttlMs <= 0) {
+			return;
+		}
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+		while (this.entries.size > this.maxEntries) {
+			const oldestKey = this.entries.keys().next().value as string;
+			this.entries.delete(oldestKey);
+		}
+	}
+
+	/**
+	 * Remove every entry and reset the hit/miss counters
+	 */
+	clear(): void {
+		this.entries.clear();
+		this.hits = 0;
+		this.misses = 0;
+	}
+
+	/**
+	 * Remove expired entries
+	 */
+	prune(): void {
+		const now = Date.now();
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt <= now) {
+				this.entries.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Get the unexpired values currently cached
+	 * @returns Array of [key, value] pairs, least recently used first
+	 */
+	values(): Array<[string, V]> {
+		this.prune();
+		return Array.from(this.entries, ([key, entry]) => [key, entry.value]);
+	}
+
+	/**
+	 * Get cache counters
+	 * @returns Entry count and hits/misses since the cache was created or cleared
+	 */
+	getStats(): { entries: number; hits: number; misses: number } {
+		this.prune();
+		return {
+			entries: this.entries.size,
+			hits: this.hits,
+			misses: this.misses,
+		};
+	}
+
+	/**
+	 * Load unexpired entries from a JSON file written by saveTo. Missing or unreadable files are ignored.
+	 * @param filePath Path of the cache file
+	 */
+	loadFrom(filePath: string): void {
+		const methodLogger = cacheLogger.forMethod('loadFrom');
+		try {
+			if (!fs.existsSync(filePath)) {
+				return;
+			}
+			const data = JSON.parse(
+				fs.readFileSync(filePath, 'utf8'),
+			) as CacheFile<V>;
+			if (data.version !== 1 || !Array.isArray(data.entries)) {
+				methodLogger.warn(`Ignoring cache file with unknown format`, {
+					filePath,
+				});
+				return;
+			}
+			const now = Date.now();
+			for (const [key, entry] of data.entries) {
+				if (entry.expiresAt > now) {
+					this.entries.set(key, entry);
+				}
+			}
+			methodLogger.debug(
+				`Loaded ${this.entries.size} cache entries from ${filePath}`,
+			);
+		} catch (error) {
+			methodLogger.warn(`Failed to load cache file ${filePath}`, error);
+		}
+	}
+
+	/**
+	 * Write unexpired entries to a JSON file
+	 * @param filePath Path of the cache file
+	 */
+	saveTo(filePath: string): void {
+		const methodLogger = cacheLogger.forMethod('saveTo');
+		this.prune();
+		try {
+			const data: CacheFile<V> = {
+				version: 1,
+				entries: Array.from(this.entries),
+			};
+			fs.mkdirSync(path.dirname(filePath), { recursive: true });
+			fs.writeFileSync(filePath, JSON.stringify(data), 'utf8');
+			methodLogger.debug(
+				`Saved ${this.entries.size} cache entries to ${filePath}`,
+			);
+		} catch (error) {
+			methodLogger.warn(`Failed to save cache file ${filePath}`, error);
+		}
+	}
+}
@@ -65,7 +65,7 @@ class ConfigLoader {
 			});
 			if (result.error) {
 				// It's okay if .env doesn't exist
-				if ((result.error as any).code !== 'ENOENT') {
+				if ((result.error as NodeJS.ErrnoException).code !== 'ENOENT') {
 					methodLogger.warn(
 						`Error reading .env file: ${result.error.message}`,
 					);
@@ -122,7 +122,11 @@ class ConfigLoader {
 			for (const [key, value] of Object.entries(environments)) {
 				// Only set if not already defined in process.env (respecting higher priority)
 				if (process.env[key] === undefined) {
-					process.env[key] = String(value);
+					// Structured values (e.g. rule overrides) are kept as JSON for getJson()
+					process.env[key] =
+						typeof value === 'object' && value !== null
+							? JSON.stringify(value)
+							: String(value);
 					loadedCount++;
 				}
 			}
@@ -170,6 +174,47 @@ class ConfigLoader {
 		// Any other non-empty value is considered true
 		return true;
 	}
+
+	/**
+	 * Get a numeric configuration value
+	 * @param key The configuration key
+	 * @param defaultValue The default value if the key is not found or not a number
+	 * @returns The numeric configuration value or the default value
+	 */
+	getNumber(key: string, defaultValue: number): number {
+		const value = this.get(key);
+		if (value === undefined || value.trim() === '') {
+			return defaultValue;
+		}
+		const parsed = Number(value);
+		return Number.isFinite(parsed) ? parsed : defaultValue;
+	}
+
+	/**
+	 * Get a JSON configuration value
+	 * Values can be JSON strings in the environment, or nested objects in the global config file.
+	 * @param key The configuration key
+	 * @returns The parsed value, or undefined if the key is not set or is not valid JSON
+	 */
+	getJson<T>(key: string): T | undefined {
+		const methodLogger = Logger.forContext(
+			'utils/config.util.ts',
+			'getJson',
+		);
+		const value = this.get(key);
+		if (value === undefined || value.trim() === '') {
+			return undefined;
+		}
+		try {
+			return JSON.parse(value) as T;
+		} catch (error) {
+			methodLogger.warn(
+				`Ignoring ${key}: value is not valid JSON`,
+				error,
+			);
+			return undefined;
+		}
+	}
 }
 
 // Create and export a singleton instance using the package name constant
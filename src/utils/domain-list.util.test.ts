@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	dedupeDomainEntries,
+	parseDomainList,
+	readDomainList,
+} from './domain-list.util.js';
+
+describe('Domain list util', () => {
+	describe('parseDomainList', () => {
+		it('should read one domain per line, skipping comments and blank lines', () => {
+			const text = [
+				'# candidates',
+				'example.com',
+				'',
+				'  example.net  # trailing comment',
+				'#example.org',
+			].join('\n');
+
+			expect(parseDomainList(text, { format: 'text' })).toEqual([
+				{ domain: 'example.com', line: 2 },
+				{ domain: 'example.net', line: 4 },
+			]);
+		});
+
+		it('should read the "domain" column of a CSV file with a header', () => {
+			const text = [
+				'name,domain,notes',
+				'Shop,shop.example,"first, best"',
+				'Blog,blog.example,"spans',
+				'two lines"',
+				'Docs,docs.example,',
+			].join('\r\n');
+
+			expect(parseDomainList(text, { format: 'csv' })).toEqual([
+				{ domain: 'shop.example', line: 2 },
+				{ domain: 'blog.example', line: 3 },
+				{ domain: 'docs.example', line: 5 },
+			]);
+		});
+
+		it('should select a CSV column by name or number', () => {
+			const withHeader = 'id,Host\n1,a.example\n2,b.example';
+			expect(
+				parseDomainList(withHeader, { format: 'csv', column: 'host' }),
+			).toEqual([
+				{ domain: 'a.example', line: 2 },
+				{ domain: 'b.example', line: 3 },
+			]);
+			expect(
+				parseDomainList(withHeader, { format: 'csv', column: '2' }),
+			).toEqual([
+				{ domain: 'a.example', line: 2 },
+				{ domain: 'b.example', line: 3 },
+			]);
+
+			// Without a header row the first line is data
+			expect(
+				parseDomainList('1,a.example\n2,b.example', {
+					format: 'csv',
+					column: '2',
+				}),
+			).toEqual([
+				{ domain: 'a.example', line: 1 },
+				{ domain: 'b.example', line: 2 },
+			]);
+		});
+
+		it('should reject a CSV column missing from the header', () => {
+			expect(() =>
+				parseDomainList('id,host\n1,a.example', {
+					format: 'csv',
+					column: 'domain',
+				}),
+			).toThrow('CSV column "domain" not found');
+		});
+
+		it('should read JSON arrays of strings or objects with their line numbers', () => {
+			const strings = '[\n  "a.example",\n  "b.example", "c.example"\n]';
+			expect(parseDomainList(strings)).toEqual([
+				{ domain: 'a.example', line: 2 },
+				{ domain: 'b.example', line: 3 },
+				{ domain: 'c.example', line: 3 },
+			]);
+
+			const objects = [
+				'[',
+				'  { "domain": "a.example", "tags": ["x", "y"] },',
+				'  {',
+				'    "domain": "b.example"',
+				'  }',
+				']',
+			].join('\n');
+			expect(parseDomainList(objects, { format: 'json' })).toEqual([
+				{ domain: 'a.example', line: 2 },
+				{ domain: 'b.example', line: 3 },
+			]);
+		});
+
+		it('should reject JSON that is not an array of domains', () => {
+			expect(() =>
+				parseDomainList('{"domain": "a.example"}', { format: 'json' }),
+			).toThrow('JSON domain list must be an array');
+			expect(() =>
+				parseDomainList('[\n"a.example",\n42\n]', { format: 'json' }),
+			).toThrow('Invalid entry on line 3');
+		});
+	});
+
+	describe('dedupeDomainEntries', () => {
+		it('should keep the first occurrence of each domain', () => {
+			expect(
+				dedupeDomainEntries([
+					{ domain: 'example.com' },
+					{ domain: 'Example.com.', line: 3 },
+					{ domain: 'example.net', line: 4 },
+					{ domain: 'example.net', line: 9 },
+				]),
+			).toEqual({
+				entries: [
+					{ domain: 'example.com' },
+					{ domain: 'example.net', line: 4 },
+				],
+				duplicates: 2,
+			});
+		});
+	});
+
+	describe('readDomainList', () => {
+		let dir: string;
+
+		beforeAll(() => {
+			dir = fs.mkdtempSync(path.join(os.tmpdir(), 'domain-list-'));
+		});
+
+		afterAll(() => {
+			fs.rmSync(dir, { recursive: true, force: true });
+		});
+
+		it('should detect the format from the file extension', async () => {
+			const file = path.join(dir, 'domains.csv');
+			fs.writeFileSync(file, '\uFEFFdomain\na.example\n');
+
+			await expect(readDomainList(file)).resolves.toEqual([
+				{ domain: 'a.example', line: 2 },
+			]);
+		});
+
+		it('should report unreadable files', async () => {
+			await expect(
+				readDomainList(path.join(dir, 'missing.txt')),
+			).rejects.toThrow('Cannot read domain list');
+		});
+	});
+});
@@ -0,0 +1,330 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createApiError } from './error.util.js';
+
+/**
+ * Formats a domain list can be read from
+ */
+export type DomainListFormat = 'text' | 'csv' | 'json';
+
+/**
+ * A domain read from a list, with the line it was found on (1-based)
+ */
+export interface DomainListEntry {
+	domain: string;
+	line?: number;
+}
+
+/**
+ * Options for parsing a domain list
+ */
+export interface DomainListOptions {
+	/** Input format; detected from the file extension or content when omitted */
+	format?: DomainListFormat;
+	/**
+	 * CSV column (header name, or 1-based number) or JSON object key holding the domain.
+	 * Defaults to a "domain" column when the header has one, else the first column.
+	 */
+	column?: string;
+}
+
+/**
+ * Key used to match domains: case-insensitive, ignoring a trailing dot
+ * @param domain Domain name
+ * @returns Comparison key
+ */
+export function toDomainKey(domain: string): string {
+	return domain.toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Remove duplicate domains, keeping the first occurrence (and its line number)
+ * @param entries Domains in input order
+ * @returns The unique entries and the number of duplicates removed
+ */
+export function dedupeDomainEntries(entries: DomainListEntry[]): {
+	entries: DomainListEntry[];
+	duplicates: number;
+} {
+	const seen = new Set<string>();
+	const unique = entries.filter((entry) => {
+		const key = toDomainKey(entry.domain);
+		if (seen.has(key)) {
+			return false;
+		}
+		seen.add(key);
+		return true;
+	});
+	return { entries: unique, duplicates: entries.length - unique.length };
+}
+
+/**
+ * Parse a plain-text list: one domain per line, `#` starts a comment, blank lines are skipped
+ */
+function parseText(text: string): DomainListEntry[] {
+	const entries: DomainListEntry[] = [];
+	text.split(/\r?\n/).forEach((raw, index) => {
+		const domain = raw.replace(/#.*$/, '').trim();
+		if (domain) {
+			entries.push({ domain, line: index + 1 });
+		}
+	});
+	return entries;
+}
+
+/**
+ * Split CSV text into records (RFC 4180 quoting), each with the line it starts on
+ */
+function splitCsvRecords(text: string): { cells: string[]; line: number }[] {
+	const records: { cells: string[]; line: number }[] = [];
+	let cells: string[] = [];
+	let cell = '';
+	let quoted = false;
+	let line = 1;
+	let recordLine = 1;
+
+	const endRecord = () => {
+		cells.push(cell);
+		if (cells.some((value) => value.trim() !== '')) {
+			records.push({ cells, line: recordLine });
+		}
+		cells = [];
+		cell = '';
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (char === '\n') {
+			line++;
+		}
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			cells.push(cell);
+			cell = '';
+		} else if (char === '\n') {
+			endRecord();
+			recordLine = line;
+		} else if (char !== '\r') {
+			cell += char;
+		}
+	}
+	endRecord();
+	return records;
+}
+
+/**
+ * Parse a CSV list, taking the domain from the selected column.
+ * A column selected by name requires a header row. With a numbered column (or no header match),
+ * the first row is treated as a header when its cell does not look like a domain.
+ */
+function parseCsv(text: string, column?: string): DomainListEntry[] {
+	const records = splitCsvRecords(text);
+	if (records.length === 0) {
+		return [];
+	}
+
+	const header = records[0].cells.map((cell) => cell.trim().toLowerCase());
+	let index: number;
+	let hasHeader: boolean;
+	if (column && /^\d+$/.test(column)) {
+		index = Number(column) - 1;
+		if (index < 0) {
+			throw createApiError(`Invalid CSV column number: ${column}`, 400);
+		}
+		hasHeader = !(records[0].cells[index] ?? '').includes('.');
+	} else {
+		const name = (column ?? 'domain').toLowerCase();
+		index = header.indexOf(name);
+		if (index === -1 && column) {
+			throw createApiError(
+				`CSV column "${column}" not found in header: ${records[0].cells.join(', ')}`,
+				400,
+			);
+		}
+		hasHeader = index !== -1 || !(records[0].cells[0] ?? '').includes('.');
+		index = Math.max(index, 0);
+	}
+
+	return records
+		.slice(hasHeader ? 1 : 0)
+		.map(({ cells, line }) => ({
+			domain: (cells[index] ?? '').trim(),
+			line,
+		}))
+		.filter((entry) => entry.domain !== '');
+}
+
+/**
+ * Find the line each top-level array element starts on, by scanning the JSON text
+ */
+function findJsonElementLines(text: string): number[] {
+	const lines: number[] = [];
+	let line = 1;
+	let depth = 0;
+	let inString = false;
+	let expectingValue = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (char === '\n') {
+			line++;
+		}
+		if (inString) {
+			if (char === '\\') {
+				i++;
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+		if (/\s/.test(char)) {
+			continue;
+		}
+		if (depth === 1 && expectingValue && char !== ']') {
+			lines.push(line);
+			expectingValue = false;
+		}
+		if (char === '"') {
+			inString = true;
+		} else if (char === '[' || char === '{') {
+			depth++;
+			if (depth === 1) {
+				expectingValue = true;
+			}
+		} else if (char === ']' || char === '}') {
+			depth--;
+		} else if (char === ',' && depth === 1) {
+			expectingValue = true;
+		}
+	}
+	return lines;
+}
+
+/**
+ * Parse a JSON array of domain strings, or of objects holding the domain under the selected key
+ */
+function parseJson(text: string, column?: string): DomainListEntry[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch (error) {
+		throw createApiError(
+			`Invalid JSON domain list: ${(error as Error).message}`,
+			400,
+			error,
+		);
+	}
+	if (!Array.isArray(data)) {
+		throw createApiError('JSON domain list must be an array', 400);
+	}
+
+	const key = column ?? 'domain';
+	const lines = findJsonElementLines(text);
+	return data
+		.map((item: unknown, index): DomainListEntry => {
+			const value =
+				item !== null && typeof item === 'object'
+					? (item as Record<string, unknown>)[key]
+					: item;
+			if (typeof value !== 'string') {
+				throw createApiError(
+					`Invalid entry on line ${lines[index]} of JSON domain list: expected a string${typeof item === 'object' ? ` in "${key}"` : ''}`,
+					400,
+				);
+			}
+			return { domain: value.trim(), line: lines[index] };
+		})
+		.filter((entry) => entry.domain !== '');
+}
+
+/**
+ * Parse a domain list in any supported format, keeping each domain's line number
+ * @param text List content
+ * @param options Format and column selector; the format is detected from the content when omitted
+ * @returns Domains in input order, including duplicates
+ */
+export function parseDomainList(
+	text: string,
+	options: DomainListOptions = {},
+): DomainListEntry[] {
+	const format =
+		options.format ?? (text.trimStart().startsWith('[') ? 'json' : 'text');
+	switch (format) {
+		case 'csv':
+			return parseCsv(text, options.column);
+		case 'json':
+			return parseJson(text, options.column);
+		case 'text':
+			return parseText(text);
+	}
+}
+
+/**
+ * Read a domain list from a file, or from stdin when the path is `-`.
+ * The format is taken from the options, then the file extension (.csv, .json), then the content.
+ * @param source File path, or `-` for stdin
+ * @param options Format and column selector
+ * @returns Domains in input order, including duplicates
+ */
+export async function readDomainList(
+	source: string,
+	options: DomainListOptions = {},
+): Promise<DomainListEntry[]> {
+	let text: string;
+	if (source === '-') {
+		const chunks: Buffer[] = [];
+		for await (const chunk of process.stdin) {
+			chunks.push(chunk as Buffer);
+		}
+		text = Buffer.concat(chunks).toString('utf8');
+	} else {
+		try {
+			text = await fs.readFile(source, 'utf8');
+		} catch (error) {
+			throw createApiError(
+				`Cannot read domain list ${source}: ${(error as Error).message}`,
+				400,
+				error,
+			);
+		}
+	}
+
+	const extension = path.extname(source).toLowerCase();
+	const format =
+		options.format ??
+		(extension === '.csv'
+			? 'csv'
+			: extension === '.json'
+				? 'json'
+				: undefined);
+	return parseDomainList(text.replace(/^\uFEFF/, ''), { ...options, format });
+}
+
+/**
+ * Combine domains given on the command line with those read from an input list, removing duplicates
+ * @param domains Domains given directly (no line numbers)
+ * @param input File path or `-` for stdin, if a list should be read
+ * @param options Format and column selector for the list
+ * @returns The unique entries, in order, and the number of duplicates removed
+ */
+export async function collectDomains(
+	domains: string[],
+	input: string | undefined,
+	options: DomainListOptions = {},
+): Promise<{ entries: DomainListEntry[]; duplicates: number }> {
+	const listed = input ? await readDomainList(input, options) : [];
+	return dedupeDomainEntries([
+		...domains.map((domain) => ({ domain })),
+		...listed,
+	]);
+}
@@ -0,0 +1,112 @@
+import {
+	getRegistrableDomain,
+	normalizeDomainName,
+	normalizeDomainNames,
+} from './domain-name.util.js';
+
+describe('Domain name util', () => {
+	describe('getRegistrableDomain', () => {
+		it('should keep one label below the longest public suffix', () => {
+			expect(getRegistrableDomain('www.example.co.uk')).toBe(
+				'example.co.uk',
+			);
+			expect(getRegistrableDomain('a.b.example.com')).toBe('example.com');
+			expect(getRegistrableDomain('example.unlisted-tld')).toBe(
+				'example.unlisted-tld',
+			);
+		});
+
+		it('should apply wildcard and exception rules', () => {
+			// *.ck and !www.ck
+			expect(getRegistrableDomain('shop.example.ck')).toBe(
+				'shop.example.ck',
+			);
+			expect(getRegistrableDomain('a.www.ck')).toBe('www.ck');
+		});
+
+		it('should only use the ICANN section of the list', () => {
+			expect(getRegistrableDomain('someone.github.io')).toBe('github.io');
+		});
+
+		it('should return undefined for public suffixes', () => {
+			expect(getRegistrableDomain('co.uk')).toBeUndefined();
+			expect(getRegistrableDomain('com')).toBeUndefined();
+		});
+	});
+
+	describe('normalizeDomainName', () => {
+		it.each([
+			['https://www.example.co.uk/path?q=1', 'example.co.uk'],
+			['bob@example.com', 'example.com'],
+			['mailto:bob@Example.org', 'example.org'],
+			['EXAMPLE.COM.', 'example.com'],
+			['example.com:8080/index.html', 'example.com'],
+			['  example.net  ', 'example.net'],
+		])('should reduce %s to %s', (input, domain) => {
+			expect(normalizeDomainName(input)).toEqual({
+				valid: true,
+				input,
+				domain,
+			});
+		});
+
+		it('should convert Unicode names to punycode and keep both forms', () => {
+			expect(normalizeDomainName('MÜNCHEN.de')).toEqual({
+				valid: true,
+				input: 'MÜNCHEN.de',
+				domain: 'xn--mnchen-3ya.de',
+				unicode: 'münchen.de',
+			});
+			expect(normalizeDomainName('xn--mnchen-3ya.de')).toMatchObject({
+				domain: 'xn--mnchen-3ya.de',
+				unicode: 'münchen.de',
+			});
+		});
+
+		it.each([
+			['', /it is empty/],
+			['localhost', /a TLD is missing/],
+			['192.168.0.1', /IP addresses/],
+			['ex_ample.com', /label "ex_ample" may only contain/],
+			['-example.com', /starts or ends with a hyphen/],
+			['ab--cd.com', /third and fourth positions/],
+			[`${'a'.repeat(64)}.com`, /longer than 63 characters/],
+			['co.uk', /co\.uk is a public suffix/],
+		])('should reject %j with a clear message', (input, message) => {
+			const result = normalizeDomainName(input);
+			expect(result.valid).toBe(false);
+			expect(!result.valid && result.message).toMatch(message);
+		});
+	});
+
+	describe('normalizeDomainNames', () => {
+		it('should dedupe by registrable domain and report rewrites and invalid inputs', () => {
+			const result = normalizeDomainNames([
+				'example.com',
+				'https://www.example.com/',
+				'not a domain',
+				'münchen.de',
+			]);
+
+			expect(result.domains).toEqual([
+				'example.com',
+				'xn--mnchen-3ya.de',
+			]);
+			expect(result.normalized).toEqual([
+				{ input: 'https://www.example.com/', domain: 'example.com' },
+				{
+					input: 'münchen.de',
+					domain: 'xn--mnchen-3ya.de',
+					unicode: 'münchen.de',
+				},
+			]);
+			expect(result.invalid).toEqual([
+				{
+					input: 'not a domain',
+					message: expect.stringContaining('"not a domain"'),
+				},
+			]);
+			expect(result.items).toHaveLength(4);
+		});
+	});
+});
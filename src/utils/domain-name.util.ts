@@ -0,0 +1,260 @@
+import { domainToASCII, domainToUnicode } from 'url';
+import publicSuffixList from '../data/public-suffix-list.json';
+
+/**
+ * A user-supplied domain reduced to the registrable domain to look up
+ */
+export interface NormalizedDomain {
+	/** The input as given */
+	input: string;
+	/** Registrable domain in ASCII (punycode for IDNs), e.g. "example.co.uk" */
+	domain: string;
+	/** Unicode form of the domain, when it differs from the ASCII one */
+	unicode?: string;
+}
+
+/**
+ * An input that cannot be turned into a domain name
+ */
+export interface InvalidDomainInput {
+	input: string;
+	/** Why the input was rejected */
+	message: string;
+}
+
+/**
+ * Outcome of normalizing one input
+ */
+export type DomainNormalization =
+	| ({ valid: true } & NormalizedDomain)
+	| ({ valid: false } & InvalidDomainInput);
+
+/**
+ * Outcome of normalizing a list of inputs
+ */
+export interface DomainNormalizationResult {
+	/** Distinct registrable domains, in input order */
+	domains: string[];
+	/** Inputs whose domain differs from the input as given, or that have a Unicode form */
+	normalized: NormalizedDomain[];
+	invalid: InvalidDomainInput[];
+	/** Normalization of each input, in input order */
+	items: DomainNormalization[];
+}
+
+/**
+ * Public suffix rules, split by kind, built lazily from the bundled list
+ */
+let suffixRules:
+	| { exact: Set<string>; wildcard: Set<string>; exception: Set<string> }
+	| undefined;
+
+/**
+ * Build the rule sets from the bundled ICANN section of the Public Suffix List
+ */
+function getSuffixRules(): NonNullable<typeof suffixRules> {
+	if (!suffixRules) {
+		suffixRules = {
+			exact: new Set(),
+			wildcard: new Set(),
+			exception: new Set(),
+		};
+		for (const rule of publicSuffixList.rules) {
+			if (rule.startsWith('!')) {
+				suffixRules.exception.add(rule.slice(1));
+			} else if (rule.startsWith('*.')) {
+				suffixRules.wildcard.add(rule.slice(2));
+			} else {
+				suffixRules.exact.add(rule);
+			}
+		}
+	}
+	return suffixRules;
+}
+
+/**
+ * Check whether a TLD is delegated, according to the bundled Public Suffix List
+ * @param tld A lowercase ASCII TLD without a dot, e.g. "com" or "xn--p1ai"
+ */
+export function isKnownTld(tld: string): boolean {
+	const { exact, wildcard } = getSuffixRules();
+	return exact.has(tld) || wildcard.has(tld);
+}
+
+/**
+ * Reduce a hostname to its registrable domain (the public suffix plus one label),
+ * following the Public Suffix List algorithm.
+ *
+ * @param host A lowercase ASCII hostname, e.g. "www.example.co.uk"
+ * @returns The registrable domain, e.g. "example.co.uk", or undefined if the host is itself a public suffix
+ */
+export function getRegistrableDomain(host: string): string | undefined {
+	const { exact, wildcard, exception } = getSuffixRules();
+	const labels = host.split('.');
+
+	// The first (longest) matching rule wins; unlisted TLDs are public suffixes by default
+	let suffixLength = 1;
+	for (let i = 0; i < labels.length; i++) {
+		const candidate = labels.slice(i).join('.');
+		if (exception.has(candidate)) {
+			suffixLength = labels.length - i - 1;
+			break;
+		}
+		if (
+			exact.has(candidate) ||
+			(i + 1 < labels.length &&
+				wildcard.has(labels.slice(i + 1).join('.')))
+		) {
+			suffixLength = labels.length - i;
+			break;
+		}
+	}
+
+	return labels.length > suffixLength
+		? labels.slice(-(suffixLength + 1)).join('.')
+		: undefined;
+}
+
+/**
+ * Extract the hostname from a URL, an email address or a bare domain
+ * @param input The trimmed input
+ * @returns The hostname as written, or undefined if the input is a URL that cannot be parsed
+ */
+function extractHost(input: string): string | undefined {
+	if (/^[a-z][a-z0-9+.-]*:\/\//i.test(input)) {
+		try {
+			return new URL(input).hostname;
+		} catch {
+			return undefined;
+		}
+	}
+	return input
+		.slice(input.lastIndexOf('@') + 1)
+		.split(/[/?#]/)[0]
+		.replace(/:\d*$/, '');
+}
+
+/**
+ * Explain why an ASCII hostname is not a valid domain name
+ * @param host A lowercase ASCII hostname without a trailing dot
+ * @returns The problem, or undefined if the hostname is valid
+ */
+function findHostProblem(host: string): string | undefined {
+	if (/^\d+\.\d+\.\d+\.\d+$/.test(host) || host.startsWith('[')) {
+		return 'IP addresses are not domain names';
+	}
+	const labels = host.split('.');
+	if (labels.length < 2) {
+		return 'a TLD is missing';
+	}
+	if (host.length > 253) {
+		return 'it is longer than 253 characters';
+	}
+	for (const label of labels) {
+		if (label.length === 0) {
+			return 'it contains an empty label';
+		}
+		if (label.length > 63) {
+			return `label "${label}" is longer than 63 characters`;
+		}
+		if (!/^[a-z0-9-]+$/.test(label)) {
+			return `label "${label}" may only contain letters, digits and hyphens`;
+		}
+		if (label.startsWith('-') || label.endsWith('-')) {
+			return `label "${label}" starts or ends with a hyphen`;
+		}
+		if (label.slice(2, 4) === '--' && !label.startsWith('xn--')) {
+			return `label "${label}" has hyphens in the third and fourth positions`;
+		}
+	}
+	if (/^\d+$/.test(labels[labels.length - 1])) {
+		return 'the TLD is numeric';
+	}
+	return undefined;
+}
+
+/**
+ * Normalize one input to the registrable domain to look up. Accepts URLs
+ * ("https://www.example.co.uk/path"), email addresses ("bob@example.com"), uppercase and
+ * trailing dots ("EXAMPLE.COM.") and Unicode names ("münchen.de", converted to punycode).
+ *
+ * @param input A domain, hostname, URL or email address
+ * @returns The registrable domain and its Unicode form, or why the input was rejected
+ */
+export function normalizeDomainName(input: string): DomainNormalization {
+	const invalid = (reason: string): DomainNormalization => ({
+		valid: false,
+		input,
+		message: `"${input}" is not a valid domain name: ${reason}`,
+	});
+
+	const trimmed = input.trim();
+	if (!trimmed) {
+		return invalid('it is empty');
+	}
+	const host = extractHost(trimmed);
+	if (host === undefined) {
+		return invalid('the URL cannot be parsed');
+	}
+
+	// domainToASCII applies IDNA mapping (case folding, full-width dots, punycode) and returns '' when that fails
+	const withoutDot = host.replace(/\.+$/, '');
+	const ascii = withoutDot.startsWith('[')
+		? withoutDot
+		: domainToASCII(withoutDot);
+	if (!ascii) {
+		return invalid(
+			'it contains characters that are not allowed in hostnames',
+		);
+	}
+	const problem = findHostProblem(ascii);
+	if (problem) {
+		return invalid(problem);
+	}
+
+	const domain = getRegistrableDomain(ascii);
+	if (!domain) {
+		return invalid(
+			`${ascii} is a public suffix; add the name to register under it`,
+		);
+	}
+	const unicode = domainToUnicode(domain);
+	return {
+		valid: true,
+		input,
+		domain,
+		...(unicode && unicode !== domain && { unicode }),
+	};
+}
+
+/**
+ * Normalize a list of inputs, keeping the first occurrence of each registrable domain.
+ *
+ * @param inputs Domains, hostnames, URLs or email addresses
+ * @returns The distinct domains to look up, the inputs that were rewritten and the rejected ones
+ */
+export function normalizeDomainNames(
+	inputs: string[],
+): DomainNormalizationResult {
+	const items = inputs.map(normalizeDomainName);
+	const domains = new Set<string>();
+	const normalized: NormalizedDomain[] = [];
+	const invalid: InvalidDomainInput[] = [];
+
+	for (const item of items) {
+		if (!item.valid) {
+			invalid.push({ input: item.input, message: item.message });
+			continue;
+		}
+		domains.add(item.domain);
+		if (item.domain !== item.input || item.unicode) {
+			normalized.push({
+				input: item.input,
+				domain: item.domain,
+				...(item.unicode && { unicode: item.unicode }),
+			});
+		}
+	}
+
+	return { domains: [...domains], normalized, invalid, items };
+}
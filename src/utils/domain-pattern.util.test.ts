@@ -0,0 +1,71 @@
+import {
+	countPatternExpansion,
+	expandDomainPattern,
+	isDomainPattern,
+} from './domain-pattern.util.js';
+import { McpError } from './error.util.js';
+
+describe('Domain pattern util', () => {
+	it('should tell patterns from literal domains', () => {
+		expect(isDomainPattern('[a-z]{3}.io')).toBe(true);
+		expect(isDomainPattern('go??.dev')).toBe(true);
+		expect(isDomainPattern('{get,try}acme.com')).toBe(true);
+		expect(isDomainPattern('acme.com')).toBe(false);
+		expect(isDomainPattern('https://acme.com/?q=1')).toBe(false);
+	});
+
+	it('should count expansions without enumerating them', () => {
+		expect(countPatternExpansion('[a-z]{3}.io')).toBe(26 ** 3);
+		expect(countPatternExpansion('go??.dev')).toBe(36 ** 2);
+		expect(countPatternExpansion('[a-z]{1,2}.ai')).toBe(26 + 26 ** 2);
+		expect(countPatternExpansion('[a-z]{10}.com')).toBe(26 ** 10);
+	});
+
+	it('should expand classes, alternatives and wildcards in order', () => {
+		expect(expandDomainPattern('{get,try,use}acme.com').domains).toEqual([
+			'getacme.com',
+			'tryacme.com',
+			'useacme.com',
+		]);
+		expect(expandDomainPattern('acme[0-9].ai').domains).toEqual(
+			Array.from({ length: 10 }, (_, digit) => `acme${digit}.ai`),
+		);
+		const wildcard = expandDomainPattern('GO??.dev');
+		expect(wildcard.total).toBe(1296);
+		expect(wildcard.domains.slice(0, 2)).toEqual(['goaa.dev', 'goab.dev']);
+		expect(wildcard.domains).toContain('go42.dev');
+	});
+
+	it('should drop invalid names and apply the filters', () => {
+		const hyphens = expandDomainPattern('[a-]{2}.io');
+		expect(hyphens.total).toBe(4);
+		expect(hyphens.domains).toEqual(['aa.io']);
+
+		const filtered = expandDomainPattern('go[a-z0-9-]?.dev', {
+			noDigits: true,
+			noHyphens: true,
+		});
+		expect(filtered.domains.every((d) => /^go[a-z]{2}\.dev$/.test(d))).toBe(
+			true,
+		);
+		expect(filtered.domains).toHaveLength(26 * 26);
+
+		const shaped = expandDomainPattern('[a-z]{3}.io', { shape: 'cvc' });
+		expect(shaped.domains).toHaveLength(21 * 5 * 21);
+		expect(shaped.domains).toContain('tok.io');
+		expect(shaped.domains).not.toContain('tko.io');
+	});
+
+	it('should reject malformed and oversized patterns', () => {
+		expect(() => expandDomainPattern('[a-z.io')).toThrow(/Unclosed/);
+		expect(() => expandDomainPattern('acme*.com')).toThrow(/not supported/);
+		expect(() => expandDomainPattern('[A-Z]{3}.io')).not.toThrow();
+		expect(() => expandDomainPattern('[a-z_]{3}.io')).toThrow(McpError);
+		expect(() => expandDomainPattern('[a-z]{5}.io', {}, 1000)).toThrow(
+			/narrow it down/,
+		);
+		expect(() => expandDomainPattern('[a-z].io', { shape: 'CXV' })).toThrow(
+			/Invalid shape/,
+		);
+	});
+});
@@ -0,0 +1,336 @@
+import { createApiError } from './error.util.js';
+
+/**
+ * Filters applied to the first label of every domain a pattern expands to
+ */
+export interface PatternFilters {
+	/** Drop labels containing a digit */
+	noDigits?: boolean;
+	/** Drop labels containing a hyphen */
+	noHyphens?: boolean;
+	/**
+	 * Required shape of the label, one letter per character:
+	 * C = consonant, V = vowel (aeiou), D = digit, ? = anything. "CVCV" matches "toko".
+	 */
+	shape?: string;
+}
+
+/**
+ * Result of expanding one pattern
+ */
+export interface PatternExpansion {
+	pattern: string;
+	/** Number of strings the pattern expands to before filters */
+	total: number;
+	/** Domains left after dropping invalid names and applying the filters, in expansion order */
+	domains: string[];
+}
+
+/**
+ * One position of a pattern: a set of alternatives repeated between min and max times
+ */
+interface PatternSegment {
+	options: string[];
+	min: number;
+	max: number;
+}
+
+/** Characters allowed in a pattern outside of its syntax */
+const LITERAL_CHARS = /^[a-z0-9.-]$/;
+
+/** Characters matched by `?` */
+const WILDCARD_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789'.split('');
+
+/** Longest repetition a quantifier may ask for */
+const MAX_REPEAT = 63;
+
+/**
+ * Check whether an input uses pattern syntax (`[...]`, `{...}` or `?`) rather than naming one domain.
+ * URLs and email addresses (anything with "/", ":" or "@") are never patterns.
+ * @param input A domain or pattern
+ */
+export function isDomainPattern(input: string): boolean {
+	return /[[\]{}?*]/.test(input) && !/[/:@]/.test(input);
+}
+
+/**
+ * Parse the inside of a `[...]` character class
+ * @param body The text between the brackets
+ * @param pattern The whole pattern, for error messages
+ * @returns The matched characters, deduplicated
+ */
+function parseCharacterClass(body: string, pattern: string): string[] {
+	const chars = new Set<string>();
+	for (let i = 0; i < body.length; i++) {
+		const char = body[i];
+		const next = body[i + 2];
+		if (body[i + 1] === '-' && next !== undefined) {
+			const start = char.charCodeAt(0);
+			const end = next.charCodeAt(0);
+			if (end < start) {
+				throw createApiError(
+					`Invalid range "${char}-${next}" in pattern ${pattern}`,
+					400,
+				);
+			}
+			for (let code = start; code <= end; code++) {
+				chars.add(String.fromCharCode(code));
+			}
+			i += 2;
+		} else {
+			chars.add(char);
+		}
+	}
+	const invalid = [...chars].filter((char) => !/^[a-z0-9-]$/.test(char));
+	if (chars.size === 0 || invalid.length > 0) {
+		throw createApiError(
+			`Character class [${body}] in pattern ${pattern} may only contain a-z, 0-9 and "-"`,
+			400,
+		);
+	}
+	return [...chars];
+}
+
+/**
+ * Parse a pattern into segments.
+ * Syntax: `[a-z0-9-]` character classes, `?` for any letter or digit, `{get,try}` alternatives,
+ * and `{n}` or `{m,n}` after any of these (or a literal character) to repeat it.
+ *
+ * @param input The pattern, e.g. "[a-z]{3}.io" or "{get,try}acme.com"
+ * @returns The segments in order
+ * @throws {McpError} 400 for malformed patterns
+ */
+function parsePattern(input: string): PatternSegment[] {
+	const pattern = input.trim().toLowerCase();
+	const segments: PatternSegment[] = [];
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+		if (char === '[') {
+			const end = pattern.indexOf(']', i);
+			if (end === -1) {
+				throw createApiError(`Unclosed "[" in pattern ${input}`, 400);
+			}
+			segments.push({
+				options: parseCharacterClass(pattern.slice(i + 1, end), input),
+				min: 1,
+				max: 1,
+			});
+			i = end;
+		} else if (char === '{') {
+			const end = pattern.indexOf('}', i);
+			if (end === -1) {
+				throw createApiError(`Unclosed "{" in pattern ${input}`, 400);
+			}
+			const body = pattern.slice(i + 1, end);
+			const repeat = body.match(/^(\d+)(?:,(\d+))?$/);
+			const previous = segments[segments.length - 1];
+			if (repeat) {
+				const min = Number(repeat[1]);
+				const max = Number(repeat[2] ?? repeat[1]);
+				if (!previous || previous.min !== 1 || previous.max !== 1) {
+					throw createApiError(
+						`Quantifier {${body}} in pattern ${input} must follow a character, class or alternative`,
+						400,
+					);
+				}
+				if (max < min || max > MAX_REPEAT) {
+					throw createApiError(
+						`Invalid quantifier {${body}} in pattern ${input}`,
+						400,
+					);
+				}
+				previous.min = min;
+				previous.max = max;
+			} else {
+				const options = body.split(',');
+				if (options.some((option) => !/^[a-z0-9.-]*$/.test(option))) {
+					throw createApiError(
+						`Alternatives {${body}} in pattern ${input} may only contain a-z, 0-9, "-" and "."`,
+						400,
+					);
+				}
+				segments.push({
+					options: [...new Set(options)],
+					min: 1,
+					max: 1,
+				});
+			}
+			i = end;
+		} else if (char === '?') {
+			segments.push({ options: WILDCARD_CHARS, min: 1, max: 1 });
+		} else if (char === '*') {
+			throw createApiError(
+				`"*" is not supported in pattern ${input}; use "?" or a class with a length, e.g. [a-z]{3}`,
+				400,
+			);
+		} else if (LITERAL_CHARS.test(char)) {
+			segments.push({ options: [char], min: 1, max: 1 });
+		} else {
+			throw createApiError(
+				`Unexpected "${char}" in pattern ${input}`,
+				400,
+			);
+		}
+	}
+	return segments;
+}
+
+/**
+ * Number of strings a segment produces
+ */
+function countSegment({ options, min, max }: PatternSegment): number {
+	let count = 0;
+	for (let length = min; length <= max; length++) {
+		count += options.length ** length;
+	}
+	return count;
+}
+
+/**
+ * Turn segments into fixed-length position lists, one per combination of repeat counts, shortest first
+ */
+function toPositionLists(segments: PatternSegment[]): string[][][] {
+	return segments.reduce<string[][][]>(
+		(lists, { options, min, max }) =>
+			lists.flatMap((positions) =>
+				Array.from({ length: max - min + 1 }, (_, extra) => [
+					...positions,
+					...new Array<string[]>(min + extra).fill(options),
+				]),
+			),
+		[[]],
+	);
+}
+
+/**
+ * Enumerate every string of a parsed pattern, in order
+ */
+function* expandSegments(segments: PatternSegment[]): Generator<string> {
+	for (const positions of toPositionLists(segments)) {
+		const indexes = new Array<number>(positions.length).fill(0);
+		while (true) {
+			yield positions.map((options, i) => options[indexes[i]]).join('');
+			// Advance the rightmost position that has options left, like an odometer
+			let i = positions.length - 1;
+			while (i >= 0 && indexes[i] === positions[i].length - 1) {
+				indexes[i] = 0;
+				i--;
+			}
+			if (i < 0) {
+				break;
+			}
+			indexes[i]++;
+		}
+	}
+}
+
+/**
+ * Check that a string is a hostname with at least two valid labels
+ */
+function isValidDomain(domain: string): boolean {
+	const labels = domain.split('.');
+	return (
+		labels.length >= 2 &&
+		domain.length <= 253 &&
+		labels.every((label) =>
+			/^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/.test(label),
+		)
+	);
+}
+
+/**
+ * Build a predicate for the filters, applied to the first label of a domain
+ * @param filters The filters
+ * @returns A predicate, or undefined if no filter is set
+ */
+function buildFilter(
+	filters: PatternFilters,
+): ((label: string) => boolean) | undefined {
+	const checks: ((label: string) => boolean)[] = [];
+	if (filters.noDigits) {
+		checks.push((label) => !/\d/.test(label));
+	}
+	if (filters.noHyphens) {
+		checks.push((label) => !label.includes('-'));
+	}
+	if (filters.shape) {
+		const shape = filters.shape.toUpperCase();
+		if (!/^[CVD?]+$/.test(shape)) {
+			throw createApiError(
+				`Invalid shape "${filters.shape}": use C (consonant), V (vowel), D (digit) and ? (anything)`,
+				400,
+			);
+		}
+		const shapeRegex = new RegExp(
+			`^${shape
+				.split('')
+				.map(
+					(letter) =>
+						({
+							C: '[b-df-hj-np-tv-z]',
+							V: '[aeiou]',
+							D: '[0-9]',
+							'?': '.',
+						})[letter],
+				)
+				.join('')}$`,
+		);
+		checks.push((label) => shapeRegex.test(label));
+	}
+	return checks.length > 0
+		? (label) => checks.every((check) => check(label))
+		: undefined;
+}
+
+/**
+ * Count the strings a pattern expands to, before filters, without enumerating them
+ * @param pattern The pattern
+ * @returns The count (may exceed Number.MAX_SAFE_INTEGER for absurd patterns)
+ * @throws {McpError} 400 for malformed patterns
+ */
+export function countPatternExpansion(pattern: string): number {
+	return parsePattern(pattern).reduce(
+		(count, segment) => count * countSegment(segment),
+		1,
+	);
+}
+
+/**
+ * Expand a pattern into the valid domains that pass the filters.
+ *
+ * @param pattern The pattern, e.g. "go??.dev" or "acme[0-9].ai"
+ * @param filters Filters applied to each domain's first label
+ * @param maxEnumerated Refuse patterns producing more strings than this before filters
+ * @returns The pattern's total and matching domains
+ * @throws {McpError} 400 for malformed patterns or patterns over maxEnumerated
+ */
+export function expandDomainPattern(
+	pattern: string,
+	filters: PatternFilters = {},
+	maxEnumerated = 1_000_000,
+): PatternExpansion {
+	const segments = parsePattern(pattern);
+	const total = segments.reduce(
+		(count, segment) => count * countSegment(segment),
+		1,
+	);
+	if (total > maxEnumerated) {
+		throw createApiError(
+			`Pattern ${pattern} expands to ${total} names before filters (at most ${maxEnumerated} are enumerated); narrow it down`,
+			400,
+		);
+	}
+
+	const filter = buildFilter(filters);
+	const domains = new Set<string>();
+	for (const domain of expandSegments(segments)) {
+		if (
+			isValidDomain(domain) &&
+			(!filter || filter(domain.slice(0, domain.indexOf('.'))))
+		) {
+			domains.add(domain);
+		}
+	}
+	return { pattern, total, domains: [...domains] };
+}
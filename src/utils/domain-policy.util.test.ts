@@ -0,0 +1,114 @@
+import {
+	findPremiumPolicy,
+	getPolicyForDomain,
+	validateDomainPolicy,
+} from './domain-policy.util.js';
+
+describe('Domain policy util', () => {
+	describe('validateDomainPolicy', () => {
+		it('should accept names that meet their registry policy', () => {
+			expect(validateDomainPolicy('example.com')).toEqual({
+				verdict: 'valid',
+				policy: 'com',
+			});
+			expect(validateDomainPolicy('acme.io').verdict).toBe('valid');
+			expect(validateDomainPolicy('example.co.uk').verdict).toBe('valid');
+		});
+
+		it('should reject TLDs that do not exist', () => {
+			const result = validateDomainPolicy('acme.notatld');
+
+			expect(result.verdict).toBe('invalid');
+			expect(result.message).toContain('.notatld does not exist');
+		});
+
+		it('should reject hyphens in the third and fourth positions outside IDNs', () => {
+			expect(validateDomainPolicy('ab--cd.io').verdict).toBe('invalid');
+			// "münchen" in punycode
+			expect(validateDomainPolicy('xn--mnchen-3ya.de').verdict).toBe(
+				'valid',
+			);
+		});
+
+		it('should apply per-TLD minimum lengths', () => {
+			expect(validateDomainPolicy('a.eu')).toMatchObject({
+				verdict: 'invalid',
+				policy: 'eu',
+			});
+			expect(validateDomainPolicy('ab.eu').verdict).toBe('valid');
+		});
+
+		it('should check IDN labels against the TLD IDN table', () => {
+			// "smörgås" is fine under .de, but .nl accepts no IDNs
+			expect(validateDomainPolicy('xn--smrgs-pra0j.de').verdict).toBe(
+				'valid',
+			);
+			expect(
+				validateDomainPolicy('xn--smrgs-pra0j.nl').message,
+			).toContain('does not accept internationalized names');
+			// "ж" is not in the French table
+			expect(validateDomainPolicy('xn--f1a.fr').message).toContain(
+				'"ж" is not in the .fr IDN table',
+			);
+		});
+
+		it('should report names the registry withholds as reserved', () => {
+			expect(validateDomainPolicy('x.com').verdict).toBe('reserved');
+			expect(validateDomainPolicy('nic.app').verdict).toBe('reserved');
+			expect(validateDomainPolicy('ny.us').verdict).toBe('reserved');
+			expect(validateDomainPolicy('nic.com').verdict).toBe('valid');
+		});
+	});
+
+	describe('DOMAIN_POLICIES overrides', () => {
+		const originalPolicies = process.env.DOMAIN_POLICIES;
+
+		afterEach(() => {
+			if (originalPolicies === undefined) {
+				delete process.env.DOMAIN_POLICIES;
+			} else {
+				process.env.DOMAIN_POLICIES = originalPolicies;
+			}
+		});
+
+		it('should merge overrides into the built-in policies', () => {
+			process.env.DOMAIN_POLICIES = JSON.stringify({
+				'.io': { minLength: 3, reservedLabels: ['acme'] },
+				com: { maxLength: 20 },
+			});
+
+			expect(validateDomainPolicy('ab.io').verdict).toBe('invalid');
+			expect(validateDomainPolicy('acme.io').verdict).toBe('reserved');
+			expect(validateDomainPolicy('x.com').verdict).toBe('reserved');
+			expect(
+				validateDomainPolicy('a-very-long-name-indeed.com').verdict,
+			).toBe('invalid');
+		});
+
+		it('should prefer the most specific public suffix', () => {
+			process.env.DOMAIN_POLICIES = JSON.stringify({
+				'co.uk': { minLength: 4 },
+			});
+
+			expect(getPolicyForDomain('abc.co.uk').key).toBe('co.uk');
+			expect(validateDomainPolicy('abc.co.uk').verdict).toBe('invalid');
+			expect(validateDomainPolicy('abc.uk').verdict).toBe('valid');
+		});
+
+		it('should combine premium labels of the generic and TLD policies', () => {
+			process.env.DOMAIN_POLICIES = JSON.stringify({
+				'*': { premiumLabels: ['cars'] },
+				io: { premiumLabels: ['gold'] },
+			});
+
+			expect(findPremiumPolicy('gold.io')).toEqual({
+				policy: 'io',
+				message:
+					'gold.io is a premium name: the .io registry lists "gold" as premium',
+			});
+			expect(findPremiumPolicy('cars.io')?.policy).toBe('io');
+			expect(findPremiumPolicy('gold.com')).toBeUndefined();
+			expect(validateDomainPolicy('gold.io').verdict).toBe('valid');
+		});
+	});
+});
@@ -0,0 +1,269 @@
+import { domainToUnicode } from 'url';
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import { isKnownTld } from './domain-name.util.js';
+
+/**
+ * Registry policy validation.
+ *
+ * Some names can never be registered whatever WHOIS says: labels outside the registry's length
+ * limits, hyphens in the third and fourth positions, characters missing from the TLD's IDN table,
+ * labels the registry withholds, and TLDs that do not exist. Labels the registry sells at a premium
+ * price are listed too, and applied once a lookup finds them unregistered. Policies are keyed by public suffix
+ * ("co.uk" before "uk"), always combined with the generic policy, and can be extended through the
+ * DOMAIN_POLICIES config value.
+ */
+
+const policyLogger = Logger.forContext('utils/domain-policy.util.ts');
+
+/**
+ * Registration policy of one TLD (or the generic '*' policy)
+ */
+export interface DomainPolicy {
+	/** Shortest registrable label, in characters (default 1) */
+	minLength?: number;
+	/** Longest registrable label, in ASCII characters (default 63) */
+	maxLength?: number;
+	/**
+	 * Characters allowed in internationalized labels besides a-z, 0-9 and "-".
+	 * Undefined accepts any IDN; an empty string means the registry does not accept IDNs.
+	 */
+	idnCharacters?: string;
+	/** Labels the registry withholds from registration */
+	reservedLabels?: string[];
+	/** Label lengths the registry withholds, e.g. [1] for single-character names */
+	reservedLengths?: number[];
+	/** Labels the registry sells above the standard price */
+	premiumLabels?: string[];
+}
+
+/**
+ * Verdict reached for a domain
+ */
+export type DomainPolicyVerdict = 'valid' | 'invalid' | 'reserved';
+
+/**
+ * Result of validating a domain against its registry policy
+ */
+export interface DomainPolicyResult {
+	verdict: DomainPolicyVerdict;
+	/** Policy key that applied, e.g. "de" or "*" */
+	policy: string;
+	/** Why the name is invalid or reserved */
+	message?: string;
+}
+
+/**
+ * Key used for the policy applied to every TLD
+ */
+export const GENERIC_POLICY_KEY = '*';
+
+/**
+ * Names new gTLD registries keep for their own operations (ICANN Registry Agreement, Specification 5)
+ */
+const SPECIFICATION_5_LABELS = ['example', 'nic', 'rdap', 'whois', 'www'];
+
+/**
+ * Built-in policies. TLD policies override the generic policy field by field, except for
+ * reserved and premium labels, which are combined.
+ */
+const BUILTIN_POLICIES: Record<string, DomainPolicy> = {
+	[GENERIC_POLICY_KEY]: { minLength: 1, maxLength: 63 },
+	// New gTLDs under ICANN Specification 5
+	app: { reservedLabels: SPECIFICATION_5_LABELS },
+	dev: { reservedLabels: SPECIFICATION_5_LABELS },
+	online: { reservedLabels: SPECIFICATION_5_LABELS },
+	shop: { reservedLabels: SPECIFICATION_5_LABELS },
+	site: { reservedLabels: SPECIFICATION_5_LABELS },
+	store: { reservedLabels: SPECIFICATION_5_LABELS },
+	tech: { reservedLabels: SPECIFICATION_5_LABELS },
+	xyz: { reservedLabels: SPECIFICATION_5_LABELS },
+	// Verisign withholds single-character names
+	com: { reservedLengths: [1] },
+	net: { reservedLengths: [1] },
+	// DENIC: Latin letters with diacritics
+	de: {
+		idnCharacters:
+			'ßàáâãäåæçèéêëìíîïðñòóôõöøùúûüýþÿāăąćĉċčďđēĕėęěĝğġģĥħĩīĭįıĵķĸĺļľŀłńņňŉŋōŏőœŕŗřśŝşšţťŧũūŭůűųŵŷźżž',
+	},
+	// AFNIC: French letters with diacritics
+	fr: { idnCharacters: 'àáâãäåæçèéêëìíîïñòóôõöœùúûüýÿ' },
+	// EURid: at least two characters
+	eu: { minLength: 2 },
+	// SIDN: at least two characters, no IDNs
+	nl: { minLength: 2, idnCharacters: '' },
+	// Nominet: no IDNs
+	uk: { idnCharacters: '' },
+	// auDA: at least two characters
+	au: { minLength: 2 },
+	// Two-letter labels are kept for the locality namespace (e.g. ny.us)
+	us: { reservedLengths: [2] },
+};
+
+/**
+ * Get the built-in policies merged with any overrides from the DOMAIN_POLICIES config value.
+ * Overrides are keyed by TLD or public suffix (or '*' for the generic policy) and take precedence
+ * over built-in fields.
+ *
+ * @returns The effective policy registry
+ */
+export function getDomainPolicies(): Record<string, DomainPolicy> {
+	const policies: Record<string, DomainPolicy> = { ...BUILTIN_POLICIES };
+	const overrides =
+		config.getJson<Record<string, DomainPolicy>>('DOMAIN_POLICIES');
+	if (!overrides || typeof overrides !== 'object') {
+		return policies;
+	}
+
+	for (const [key, override] of Object.entries(overrides)) {
+		if (!override || typeof override !== 'object') {
+			policyLogger.warn(`Ignoring DOMAIN_POLICIES entry for "${key}"`);
+			continue;
+		}
+		const suffix = key.toLowerCase().replace(/^\./, '');
+		policies[suffix] = { ...policies[suffix], ...override };
+	}
+	return policies;
+}
+
+/**
+ * Find the effective policy for a domain: the most specific suffix policy (e.g. "co.uk" before
+ * "uk") combined with the generic policy.
+ *
+ * @param domain A registrable ASCII domain
+ * @param policies The policy registry (defaults to the effective registry)
+ * @returns The policy key that matched and the combined policy
+ */
+export function getPolicyForDomain(
+	domain: string,
+	policies: Record<string, DomainPolicy> = getDomainPolicies(),
+): { key: string; policy: DomainPolicy } {
+	const generic = policies[GENERIC_POLICY_KEY] ?? {};
+	const labels = domain.split('.');
+	for (let i = 1; i < labels.length; i++) {
+		const suffix = labels.slice(i).join('.');
+		const specific = policies[suffix];
+		if (specific) {
+			return {
+				key: suffix,
+				policy: {
+					...generic,
+					...specific,
+					reservedLabels: [
+						...(generic.reservedLabels ?? []),
+						...(specific.reservedLabels ?? []),
+					],
+					premiumLabels: [
+						...(generic.premiumLabels ?? []),
+						...(specific.premiumLabels ?? []),
+					],
+				},
+			};
+		}
+	}
+	return { key: GENERIC_POLICY_KEY, policy: generic };
+}
+
+/**
+ * Validate a registrable domain against the registry policy of its TLD, without any lookup.
+ *
+ * @param domain A registrable ASCII domain (punycode for IDNs), as produced by normalizeDomainName
+ * @returns 'valid', or 'invalid'/'reserved' with the reason
+ */
+export function validateDomainPolicy(domain: string): DomainPolicyResult {
+	const labels = domain.toLowerCase().split('.');
+	const label = labels[0];
+	const tld = labels[labels.length - 1];
+	const { key, policy } = getPolicyForDomain(labels.join('.'));
+	const suffix = labels.slice(1).join('.');
+	const reject = (
+		verdict: Exclude<DomainPolicyVerdict, 'valid'>,
+		reason: string,
+	): DomainPolicyResult => ({
+		verdict,
+		policy: key,
+		message: `${domain} ${verdict === 'reserved' ? 'is reserved' : 'cannot be registered'}: ${reason}`,
+	});
+
+	if (labels.length < 2 || !isKnownTld(tld)) {
+		return reject('invalid', `the TLD .${tld} does not exist`);
+	}
+
+	const isIdn = label.startsWith('xn--');
+	if (!isIdn && label.slice(2, 4) === '--') {
+		return reject(
+			'invalid',
+			'hyphens in the third and fourth positions are reserved for IDNs',
+		);
+	}
+
+	const unicodeLabel = isIdn ? domainToUnicode(domain).split('.')[0] : label;
+	if (isIdn && !unicodeLabel) {
+		return reject('invalid', `${label} is not valid punycode`);
+	}
+	const length = [...unicodeLabel].length;
+	if (label.length > (policy.maxLength ?? 63)) {
+		return reject(
+			'invalid',
+			`.${suffix} labels are at most ${policy.maxLength ?? 63} characters`,
+		);
+	}
+	if (length < (policy.minLength ?? 1)) {
+		return reject(
+			'invalid',
+			`.${suffix} labels are at least ${policy.minLength} characters`,
+		);
+	}
+
+	if (isIdn && policy.idnCharacters !== undefined) {
+		if (policy.idnCharacters === '') {
+			return reject(
+				'invalid',
+				`.${suffix} does not accept internationalized names`,
+			);
+		}
+		const outside = [...unicodeLabel].find(
+			(char) =>
+				!/[a-z0-9-]/.test(char) &&
+				!policy.idnCharacters!.includes(char),
+		);
+		if (outside) {
+			return reject(
+				'invalid',
+				`"${outside}" is not in the .${suffix} IDN table`,
+			);
+		}
+	}
+
+	if (policy.reservedLabels?.includes(label)) {
+		return reject('reserved', `the registry withholds "${label}"`);
+	}
+	if (policy.reservedLengths?.includes(length)) {
+		return reject(
+			'reserved',
+			`the .${suffix} registry withholds ${length}-character names`,
+		);
+	}
+
+	return { verdict: 'valid', policy: key };
+}
+
+/**
+ * Check whether the registry policy lists a domain's label as premium.
+ *
+ * @param domain A registrable ASCII domain
+ * @returns The policy key and a message if the label is premium, otherwise undefined
+ */
+export function findPremiumPolicy(
+	domain: string,
+): { policy: string; message: string } | undefined {
+	const labels = domain.toLowerCase().split('.');
+	const { key, policy } = getPolicyForDomain(labels.join('.'));
+	if (!policy.premiumLabels?.includes(labels[0])) {
+		return undefined;
+	}
+	return {
+		policy: key,
+		message: `${domain} is a premium name: the .${labels.slice(1).join('.')} registry lists "${labels[0]}" as premium`,
+	};
+}
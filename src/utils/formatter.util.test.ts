@@ -0,0 +1,73 @@
+import {
+	formatCsv,
+	formatDuration,
+	formatMarkdownTable,
+	formatNdjson,
+	formatTable,
+} from './formatter.util.js';
+
+const HEADERS = ['Domain', 'Status', 'Detail'];
+const ROWS = [
+	['example.com', 'unavailable', ''],
+	['free.dev', 'available', ''],
+	['slow.example', 'failed', 'Timeout, "retry" later | maybe'],
+];
+
+describe('formatTable', () => {
+	it('should align columns and trim trailing padding', () => {
+		expect(formatTable(HEADERS, ROWS.slice(0, 2))).toBe(
+			[
+				'Domain       Status       Detail',
+				'-----------  -----------  ------',
+				'example.com  unavailable',
+				'free.dev     available',
+			].join('\n'),
+		);
+	});
+});
+
+describe('formatMarkdownTable', () => {
+	it('should escape pipes inside cells', () => {
+		expect(formatMarkdownTable(HEADERS, ROWS.slice(2))).toBe(
+			[
+				'| Domain | Status | Detail |',
+				'| --- | --- | --- |',
+				'| slow.example | failed | Timeout, "retry" later \\| maybe |',
+			].join('\n'),
+		);
+	});
+});
+
+describe('formatCsv', () => {
+	it('should quote cells containing commas or quotes', () => {
+		expect(formatCsv(HEADERS, ROWS)).toBe(
+			[
+				'Domain,Status,Detail',
+				'example.com,unavailable,',
+				'free.dev,available,',
+				'slow.example,failed,"Timeout, ""retry"" later | maybe"',
+			].join('\n'),
+		);
+	});
+});
+
+describe('formatNdjson', () => {
+	it('should write one compact JSON document per line', () => {
+		expect(
+			formatNdjson([
+				{ domain: 'free.dev', status: 'available' },
+				{ domain: 'example.com', status: 'unavailable' },
+			]),
+		).toBe(
+			'{"domain":"free.dev","status":"available"}\n{"domain":"example.com","status":"unavailable"}',
+		);
+	});
+});
+
+describe('formatDuration', () => {
+	it('should use the two largest units', () => {
+		expect(formatDuration(42.4)).toBe('42s');
+		expect(formatDuration(185)).toBe('3m 05s');
+		expect(formatDuration(3720)).toBe('1h 02m');
+	});
+});
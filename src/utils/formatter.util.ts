@@ -208,3 +208,100 @@ export function formatNumberedList<T>(
 		.map((item, index) => formatter(item, index))
 		.join('\n\n' + formatSeparator() + '\n\n');
 }
+
+/**
+ * Format rows as a plain-text table with aligned columns
+ * @param headers - Column headers
+ * @param rows - Table rows (one string per column)
+ * @returns Formatted table
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+	const widths = headers.map((header, column) =>
+		Math.max(
+			header.length,
+			...rows.map((row) => (row[column] ?? '').length),
+		),
+	);
+	const formatRow = (cells: string[]) =>
+		cells
+			.map((cell, column) => (cell ?? '').padEnd(widths[column]))
+			.join('  ')
+			.trimEnd();
+
+	return [
+		formatRow(headers),
+		formatRow(widths.map((width) => '-'.repeat(width))),
+		...rows.map(formatRow),
+	].join('\n');
+}
+
+/**
+ * Format rows as a Markdown table
+ * @param headers - Column headers
+ * @param rows - Table rows (one string per column)
+ * @returns Formatted Markdown table
+ */
+export function formatMarkdownTable(
+	headers: string[],
+	rows: string[][],
+): string {
+	const formatRow = (cells: string[]) =>
+		`| ${cells
+			.map((cell) =>
+				(cell ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' '),
+			)
+			.join(' | ')} |`;
+
+	return [
+		formatRow(headers),
+		formatRow(headers.map(() => '---')),
+		...rows.map(formatRow),
+	].join('\n');
+}
+
+/**
+ * Format rows as CSV (RFC 4180), quoting cells that contain commas, quotes or line breaks
+ * @param headers - Column headers
+ * @param rows - Table rows (one string per column)
+ * @returns CSV text
+ */
+export function formatCsv(headers: string[], rows: string[][]): string {
+	const formatCell = (cell: string) =>
+		/[",\r\n]/.test(cell ?? '')
+			? `"${cell.replace(/"/g, '""')}"`
+			: (cell ?? '');
+
+	return [headers, ...rows]
+		.map((cells) => cells.map(formatCell).join(','))
+		.join('\n');
+}
+
+/**
+ * Format records as newline-delimited JSON (one compact JSON document per line)
+ * @param records - Records to serialize
+ * @returns NDJSON text
+ */
+export function formatNdjson(records: unknown[]): string {
+	return records.map((record) => JSON.stringify(record)).join('\n');
+}
+
+/**
+ * Format a duration in seconds as a short human-readable string (e.g. "1h 02m", "3m 05s", "42s")
+ * @param seconds - Duration in seconds
+ * @returns Formatted duration
+ */
+export function formatDuration(seconds: number): string {
+	const total = Math.max(0, Math.round(seconds));
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = total % 60;
+	const pad = (value: number) => value.toString().padStart(2, '0');
+
+	if (hours > 0) {
+		return `${hours}h ${pad(minutes)}m`;
+	}
+	if (minutes > 0) {
+		return `${minutes}m ${pad(secs)}s`;
+	}
+	return `${secs}s`;
+}
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger.util.js';
+
+const journalLogger = Logger.forContext('utils/journal.util.ts');
+
+/**
+ * Append-only NDJSON journal. Each record is written with a synchronous append,
+ * so everything recorded before a crash or Ctrl-C is on disk.
+ */
+export class Journal<T> {
+	private fd: number;
+
+	/**
+	 * Open a journal for appending, creating the file and its directory if needed.
+	 * If the last line was cut short, appending starts on a new line so the next record stays readable.
+	 * @param filePath Path of the journal file
+	 */
+	constructor(private filePath: string) {
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		this.fd = fs.openSync(filePath, 'a+');
+		const { size } = fs.fstatSync(this.fd);
+		if (size > 0) {
+			const last = Buffer.alloc(1);
+			fs.readSync(this.fd, last, 0, 1, size - 1);
+			if (last.toString() !== '\n') {
+				fs.writeSync(this.fd, '\n');
+			}
+		}
+	}
+
+	/**
+	 * Read every record of a journal file. A missing file has no records, and
+	 * unparsable lines (such as a line cut short by a crash) are skipped.
+	 * @param filePath Path of the journal file
+	 * @returns Records in the order they were written
+	 */
+	static read<T>(filePath: string): T[] {
+		const methodLogger = journalLogger.forMethod('read');
+		if (!fs.existsSync(filePath)) {
+			return [];
+		}
+
+		const records: T[] = [];
+		let skipped = 0;
+		for (const line of fs.readFileSync(filePath, 'utf8').split('\n')) {
+			if (!line.trim()) {
+				continue;
+			}
+			try {
+				records.push(JSON.parse(line) as T);
+			} catch {
+				skipped++;
+			}
+		}
+		if (skipped > 0) {
+			methodLogger.warn(
+				`Skipped ${skipped} unreadable lines in ${filePath}`,
+			);
+		}
+		return records;
+	}
+
+	/**
+	 * Append a record
+	 * @param record Record to write as one JSON line
+	 */
+	append(record: T): void {
+		fs.writeSync(this.fd, `${JSON.stringify(record)}\n`);
+	}
+
+	/**
+	 * Close the journal file
+	 */
+	close(): void {
+		fs.closeSync(this.fd);
+		journalLogger.debug(`Closed journal ${this.filePath}`);
+	}
+}
@@ -0,0 +1,64 @@
+import {
+	dropVowels,
+	findTldHacks,
+	generateCandidates,
+	pluralize,
+} from './name-generator.util.js';
+
+describe('Name Generator Utility', () => {
+	it('should pluralize regular, -y and sibilant words and skip plurals', () => {
+		expect(pluralize('note')).toBe('notes');
+		expect(pluralize('story')).toBe('stories');
+		expect(pluralize('box')).toBe('boxes');
+		expect(pluralize('notes')).toBeUndefined();
+	});
+
+	it('should drop vowels in flickr style', () => {
+		expect(dropVowels('flicker')).toContain('flickr');
+		expect(dropVowels('tumbler')).toContain('tumblr');
+		expect(dropVowels('flicker')).not.toContain('flicker');
+	});
+
+	it('should split keywords into TLD hacks', () => {
+		expect(findTldHacks('delicious')).toEqual([
+			{ label: 'delicio', tld: 'us' },
+		]);
+		expect(findTldHacks('cloud')).toEqual([]);
+	});
+
+	it('should rank exact matches on preferred TLDs first and dedupe domains', () => {
+		const candidates = generateCandidates(['Cloud', 'notes', 'cloud'], {
+			tlds: ['.com', 'io'],
+		});
+		const domains = candidates.map((candidate) => candidate.domain);
+
+		expect(domains[0]).toBe('cloud.com');
+		expect(new Set(domains).size).toBe(domains.length);
+		expect(domains).toEqual(
+			expect.arrayContaining([
+				'cloudnotes.com',
+				'notescloud.io',
+				'clouds.com',
+				'getcloud.io',
+				'notesapp.com',
+			]),
+		);
+		expect(domains.indexOf('cloud.com')).toBeLessThan(
+			domains.indexOf('cloud.io'),
+		);
+		for (let i = 1; i < candidates.length; i++) {
+			expect(candidates[i - 1].score).toBeGreaterThanOrEqual(
+				candidates[i].score,
+			);
+		}
+	});
+
+	it('should skip keywords that do not form a valid label', () => {
+		expect(generateCandidates(['!!', ' '], { tlds: ['com'] })).toEqual([]);
+		expect(
+			generateCandidates(['x'], { tlds: ['com'], tldHacks: false }).map(
+				(candidate) => candidate.domain,
+			),
+		).not.toContain('x.com');
+	});
+});
@@ -0,0 +1,231 @@
+/**
+ * Strategies used to turn seed keywords into candidate names
+ */
+export type SuggestionStrategy =
+	| 'exact'
+	| 'tld-hack'
+	| 'compound'
+	| 'plural'
+	| 'prefix'
+	| 'suffix'
+	| 'vowel-drop';
+
+/**
+ * A generated candidate domain
+ */
+export interface DomainCandidate {
+	domain: string;
+	strategy: SuggestionStrategy;
+	/** Higher is better: shorter, closer to the keywords and on a preferred TLD */
+	score: number;
+}
+
+/**
+ * Options for candidate generation
+ */
+export interface CandidateOptions {
+	/** TLDs to combine labels with, most preferred first */
+	tlds: string[];
+	/** Also split keywords into TLD hacks such as delicio.us (default true) */
+	tldHacks?: boolean;
+}
+
+/** Words put in front of a keyword */
+const PREFIXES = ['get', 'try', 'use', 'go', 'my', 'the', 'hey'];
+
+/** Words appended to a keyword */
+const SUFFIXES = ['app', 'hq', 'hub', 'labs', 'ly', 'ify', 'now', 'kit'];
+
+/** Open-registration TLDs that read well as the end of a word */
+const HACK_TLDS = [
+	'ai',
+	'al',
+	'am',
+	'at',
+	'co',
+	'es',
+	'fm',
+	'gg',
+	'in',
+	'io',
+	'is',
+	'it',
+	'ly',
+	'me',
+	'sh',
+	'so',
+	'st',
+	'to',
+	'tv',
+	'us',
+];
+
+/** Base score of each strategy before length and TLD adjustments */
+const STRATEGY_WEIGHTS: Record<SuggestionStrategy, number> = {
+	exact: 100,
+	'tld-hack': 90,
+	compound: 80,
+	plural: 70,
+	suffix: 60,
+	prefix: 60,
+	'vowel-drop': 50,
+};
+
+/** Labels up to this length are not penalized */
+const IDEAL_LABEL_LENGTH = 6;
+
+/**
+ * Check that a label is a valid LDH hostname label
+ */
+function isValidLabel(label: string): boolean {
+	return (
+		label.length >= 2 &&
+		label.length <= 63 &&
+		/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(label)
+	);
+}
+
+/**
+ * Reduce a keyword to the characters allowed in a label
+ */
+function normalizeKeyword(keyword: string): string {
+	return keyword
+		.trim()
+		.toLowerCase()
+		.replace(/[\s_]+/g, '-')
+		.replace(/[^a-z0-9-]/g, '')
+		.replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Simple English pluralization
+ * @param word A singular word
+ * @returns The plural, or undefined if the word already looks plural
+ */
+export function pluralize(word: string): string | undefined {
+	if (/s$/.test(word)) {
+		return undefined;
+	}
+	if (/[^aeiou]y$/.test(word)) {
+		return `${word.slice(0, -1)}ies`;
+	}
+	if (/(x|z|ch|sh)$/.test(word)) {
+		return `${word}es`;
+	}
+	return `${word}s`;
+}
+
+/**
+ * Drop vowels in the style of flickr/tumblr
+ * @param word A word
+ * @returns Variants without the last vowel and without every non-initial vowel, if they differ
+ */
+export function dropVowels(word: string): string[] {
+	const variants = new Set<string>();
+	// Drop the last vowel before a final consonant: flicker -> flickr
+	const lastVowel = word.match(/^(.*[a-z])[aeiou]([^aeiou]+)$/);
+	if (lastVowel && lastVowel[1].length >= 2) {
+		variants.add(`${lastVowel[1]}${lastVowel[2]}`);
+	}
+	// Drop every vowel except the first letter: hello -> hll
+	const consonants = word[0] + word.slice(1).replace(/[aeiou]/g, '');
+	if (consonants.length >= 3) {
+		variants.add(consonants);
+	}
+	variants.delete(word);
+	return [...variants];
+}
+
+/**
+ * Split a keyword into TLD hacks: delicious -> delicio.us
+ * @param word A keyword
+ * @returns Hack domains (label and TLD)
+ */
+export function findTldHacks(word: string): { label: string; tld: string }[] {
+	return HACK_TLDS.filter(
+		(tld) => word.length > tld.length + 1 && word.endsWith(tld),
+	)
+		.map((tld) => ({ label: word.slice(0, -tld.length), tld }))
+		.filter(({ label }) => isValidLabel(label));
+}
+
+/**
+ * Generate candidate domains from seed keywords, best first.
+ * Strategies: the keywords themselves, compounds of keyword pairs, plurals, prefixes, suffixes,
+ * vowel dropping and TLD hacks. Each domain appears once, under its best-scoring strategy.
+ *
+ * @param keywords Seed keywords
+ * @param options TLDs (most preferred first) and whether to include TLD hacks
+ * @returns Candidates sorted by descending score
+ */
+export function generateCandidates(
+	keywords: string[],
+	options: CandidateOptions,
+): DomainCandidate[] {
+	const words = [...new Set(keywords.map(normalizeKeyword).filter(Boolean))];
+	const tlds = [
+		...new Set(
+			options.tlds.map((tld) =>
+				tld.trim().toLowerCase().replace(/^\./, ''),
+			),
+		),
+	].filter(Boolean);
+	const candidates = new Map<string, DomainCandidate>();
+
+	const add = (
+		label: string,
+		tld: string,
+		strategy: SuggestionStrategy,
+		tldIndex: number,
+	) => {
+		if (!isValidLabel(label)) {
+			return;
+		}
+		const domain = `${label}.${tld}`;
+		const score =
+			STRATEGY_WEIGHTS[strategy] -
+			Math.max(0, label.length - IDEAL_LABEL_LENGTH) * 2 -
+			(label.includes('-') ? 10 : 0) -
+			tldIndex * 3;
+		const existing = candidates.get(domain);
+		if (!existing || existing.score < score) {
+			candidates.set(domain, { domain, strategy, score });
+		}
+	};
+	const addOnEveryTld = (label: string, strategy: SuggestionStrategy) =>
+		tlds.forEach((tld, index) => add(label, tld, strategy, index));
+
+	for (const word of words) {
+		addOnEveryTld(word, 'exact');
+		const plural = pluralize(word);
+		if (plural) {
+			addOnEveryTld(plural, 'plural');
+		}
+		for (const prefix of PREFIXES) {
+			addOnEveryTld(`${prefix}${word}`, 'prefix');
+		}
+		for (const suffix of SUFFIXES) {
+			addOnEveryTld(`${word}${suffix}`, 'suffix');
+		}
+		for (const variant of dropVowels(word)) {
+			addOnEveryTld(variant, 'vowel-drop');
+		}
+		if (options.tldHacks ?? true) {
+			for (const { label, tld } of findTldHacks(word)) {
+				add(label, tld, 'tld-hack', 0);
+			}
+		}
+	}
+
+	for (const first of words) {
+		for (const second of words) {
+			if (first !== second) {
+				addOnEveryTld(`${first}${second}`, 'compound');
+			}
+		}
+	}
+
+	return [...candidates.values()].sort(
+		(a, b) => b.score - a.score || a.domain.localeCompare(b.domain),
+	);
+}
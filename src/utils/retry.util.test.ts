@@ -0,0 +1,90 @@
+import {
+	getRetryDelay,
+	getRetrySettings,
+	isTransientError,
+	waitForRetry,
+} from './retry.util.js';
+import { createApiError } from './error.util.js';
+
+describe('Retry util', () => {
+	const originalRetries = process.env.LOOKUP_RETRIES;
+
+	afterEach(() => {
+		if (originalRetries === undefined) {
+			delete process.env.LOOKUP_RETRIES;
+		} else {
+			process.env.LOOKUP_RETRIES = originalRetries;
+		}
+	});
+
+	describe('getRetrySettings', () => {
+		it('should read the retry count, with the default for invalid values', () => {
+			process.env.LOOKUP_RETRIES = '0';
+			expect(getRetrySettings().retries).toBe(0);
+
+			process.env.LOOKUP_RETRIES = '-3';
+			expect(getRetrySettings()).toEqual({
+				retries: 2,
+				baseDelayMs: 500,
+				maxDelayMs: 10000,
+			});
+		});
+	});
+
+	describe('isTransientError', () => {
+		it('should retry timeouts, network errors, rate limiting and server errors', () => {
+			expect(
+				isTransientError(
+					createApiError('WHOIS lookup failed: Timeout'),
+				),
+			).toBe(true);
+			expect(
+				isTransientError(
+					createApiError('connect ECONNREFUSED 192.0.2.1:43'),
+				),
+			).toBe(true);
+			expect(isTransientError(createApiError('Too busy', 429))).toBe(
+				true,
+			);
+			expect(isTransientError(createApiError('HTTP 503', 503))).toBe(
+				true,
+			);
+		});
+
+		it('should not retry permanent failures', () => {
+			expect(
+				isTransientError(createApiError('No RDAP service for acme.zz')),
+			).toBe(false);
+			expect(isTransientError(createApiError('HTTP 403', 403))).toBe(
+				false,
+			);
+		});
+	});
+
+	describe('getRetryDelay', () => {
+		it('should double the delay per retry, with jitter, up to the maximum', () => {
+			const settings = { retries: 5, baseDelayMs: 100, maxDelayMs: 500 };
+			for (let i = 0; i < 20; i++) {
+				const first = getRetryDelay(0, settings);
+				expect(first).toBeGreaterThanOrEqual(50);
+				expect(first).toBeLessThanOrEqual(100);
+
+				const third = getRetryDelay(2, settings);
+				expect(third).toBeGreaterThanOrEqual(200);
+				expect(third).toBeLessThanOrEqual(400);
+
+				expect(getRetryDelay(10, settings)).toBeLessThanOrEqual(500);
+			}
+		});
+	});
+
+	describe('waitForRetry', () => {
+		it('should stop waiting when the signal is aborted', async () => {
+			const controller = new AbortController();
+			const wait = waitForRetry(10000, controller.signal);
+			controller.abort(new Error('stopped'));
+
+			await expect(wait).rejects.toThrow('stopped');
+		});
+	});
+});
@@ -0,0 +1,105 @@
+import { config } from './config.util.js';
+import { McpError } from './error.util.js';
+
+/**
+ * Retries of failed lookups.
+ *
+ * Timeouts, dropped connections and rate limiting usually clear up on their own, so lookups that
+ * fail that way are tried again after an exponentially growing, jittered delay. Jitter keeps a
+ * batch of domains that failed together from retrying in lockstep against the same server.
+ */
+
+/**
+ * How often and how long to wait before retrying a failed lookup
+ */
+export interface RetrySettings {
+	/** Retries after the first attempt (LOOKUP_RETRIES, default 2) */
+	retries: number;
+	/** Delay before the first retry in milliseconds, doubled for each retry after it (LOOKUP_RETRY_DELAY, default 500) */
+	baseDelayMs: number;
+	/** Longest delay between two attempts in milliseconds (LOOKUP_RETRY_MAX_DELAY, default 10000) */
+	maxDelayMs: number;
+}
+
+/**
+ * HTTP status codes of failures worth retrying: request timeout, rate limiting and server errors
+ */
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Error messages of failures worth retrying: timeouts, dropped or refused connections, DNS hiccups
+ * and WHOIS servers that hung up without answering
+ */
+const TRANSIENT_MESSAGE =
+	/timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up|empty response|rate-limited/i;
+
+/**
+ * Get the retry settings from the configuration.
+ *
+ * @returns The settings, with defaults for missing or invalid values
+ */
+export function getRetrySettings(): RetrySettings {
+	const retries = config.getNumber('LOOKUP_RETRIES', 2);
+	const baseDelayMs = config.getNumber('LOOKUP_RETRY_DELAY', 500);
+	const maxDelayMs = config.getNumber('LOOKUP_RETRY_MAX_DELAY', 10000);
+	return {
+		retries: retries >= 0 ? Math.floor(retries) : 2,
+		baseDelayMs: baseDelayMs >= 0 ? baseDelayMs : 500,
+		maxDelayMs: maxDelayMs >= 0 ? maxDelayMs : 10000,
+	};
+}
+
+/**
+ * Tell whether a failed lookup may succeed if tried again later.
+ *
+ * @param error The lookup error
+ * @returns True for timeouts, network errors, rate limiting and server errors
+ */
+export function isTransientError(error: McpError): boolean {
+	return (
+		(error.statusCode !== undefined &&
+			TRANSIENT_STATUS_CODES.includes(error.statusCode)) ||
+		TRANSIENT_MESSAGE.test(error.message)
+	);
+}
+
+/**
+ * Delay before a retry: the base delay doubled for each earlier retry, capped at the maximum,
+ * with "equal jitter" (a random point in the upper half of that delay).
+ *
+ * @param retry Zero-based number of the retry
+ * @param settings The retry settings
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(retry: number, settings: RetrySettings): number {
+	const delay = Math.min(
+		settings.maxDelayMs,
+		settings.baseDelayMs * 2 ** retry,
+	);
+	return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Wait before a retry.
+ *
+ * @param ms The delay in milliseconds
+ * @param signal Aborting the signal ends the wait, rejecting with the signal's reason
+ * @returns Promise resolving once the delay has passed
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
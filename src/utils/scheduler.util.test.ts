@@ -0,0 +1,167 @@
+import { LookupScheduler } from './scheduler.util.js';
+
+/**
+ * Create a task that records concurrency and resolves after a delay
+ */
+function trackedTask(
+	tracker: { running: number; peak: number },
+	delayMs: number,
+	value: string,
+) {
+	return async () => {
+		tracker.running++;
+		tracker.peak = Math.max(tracker.peak, tracker.running);
+		await new Promise((resolve) => setTimeout(resolve, delayMs));
+		tracker.running--;
+		return value;
+	};
+}
+
+describe('LookupScheduler', () => {
+	it('should never run more tasks than the concurrency cap', async () => {
+		const scheduler = new LookupScheduler({
+			maxConcurrency: 3,
+			hostQps: 0,
+		});
+		const tracker = { running: 0, peak: 0 };
+
+		const results = await Promise.all(
+			Array.from({ length: 10 }, (_, i) =>
+				scheduler.schedule(
+					`host${i % 2}`,
+					trackedTask(tracker, 10, `r${i}`),
+				),
+			),
+		);
+
+		expect(tracker.peak).toBe(3);
+		expect(results).toEqual(Array.from({ length: 10 }, (_, i) => `r${i}`));
+	});
+
+	it('should rate-limit each host with its own token bucket', async () => {
+		const scheduler = new LookupScheduler({
+			maxConcurrency: 10,
+			hostQps: 20,
+			hostQpsOverrides: { 'Fast.Example': 0 },
+		});
+		const startTimes: Record<string, number[]> = { slow: [], fast: [] };
+		const start = Date.now();
+
+		await Promise.all([
+			...Array.from({ length: 25 }, () =>
+				scheduler.schedule('slow.example', async () => {
+					startTimes.slow.push(Date.now() - start);
+				}),
+			),
+			...Array.from({ length: 25 }, () =>
+				scheduler.schedule('fast.example', async () => {
+					startTimes.fast.push(Date.now() - start);
+				}),
+			),
+		]);
+
+		// 20 tokens are available immediately; the remaining 5 refill at 20/s
+		expect(Math.max(...startTimes.slow)).toBeGreaterThanOrEqual(200);
+		// The unthrottled host is not held up by the throttled one
+		expect(Math.max(...startTimes.fast)).toBeLessThan(100);
+	});
+
+	it('should queue rather than reject, and propagate task failures', async () => {
+		const scheduler = new LookupScheduler({
+			maxConcurrency: 1,
+			hostQps: 0,
+		});
+
+		const failing = scheduler.schedule('host', async () => {
+			throw new Error('lookup failed');
+		});
+		const succeeding = scheduler.schedule('host', async () => 'ok');
+
+		await expect(failing).rejects.toThrow('lookup failed');
+		await expect(succeeding).resolves.toBe('ok');
+		// Let the scheduler release the last slot
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(scheduler.getStats()).toEqual({ running: 0, queued: 0 });
+	});
+
+	it('should drop queued tasks when their signal is aborted', async () => {
+		const scheduler = new LookupScheduler({
+			maxConcurrency: 1,
+			hostQps: 0,
+		});
+		const controller = new AbortController();
+		const ran: string[] = [];
+
+		const running = scheduler.schedule(
+			'host',
+			async () => {
+				ran.push('running');
+				await new Promise((resolve) => setTimeout(resolve, 20));
+			},
+			controller.signal,
+		);
+		const queued = scheduler.schedule(
+			'host',
+			async () => {
+				ran.push('queued');
+			},
+			controller.signal,
+		);
+		controller.abort();
+
+		await expect(queued).rejects.toThrow('aborted');
+		// A task that already started is left to watch the signal itself
+		await expect(running).resolves.toBeUndefined();
+		expect(ran).toEqual(['running']);
+		await expect(
+			scheduler.schedule('host', async () => 'late', controller.signal),
+		).rejects.toThrow('aborted');
+	});
+
+	it('should hold back a cooled-down host without blocking other hosts', async () => {
+		const scheduler = new LookupScheduler({
+			maxConcurrency: 10,
+			hostQps: 0,
+			hostCooldownMs: 150,
+		});
+		const start = Date.now();
+
+		scheduler.coolDown('Busy.Example');
+		// A shorter cool-down does not cut the current one short
+		scheduler.coolDown('busy.example', 10);
+		const [busy, idle] = await Promise.all([
+			scheduler.schedule('busy.example', async () => Date.now() - start),
+			scheduler.schedule('idle.example', async () => Date.now() - start),
+		]);
+
+		expect(busy).toBeGreaterThanOrEqual(140);
+		expect(idle).toBeLessThan(100);
+	});
+
+	it('should wake up for the earliest host, not the first one that armed the timer', async () => {
+		const scheduler = new LookupScheduler({
+			maxConcurrency: 10,
+			hostQps: 5,
+		});
+		const start = Date.now();
+
+		// The cooled-down host arms a long wake-up first
+		scheduler.coolDown('paused.example', 1000);
+		const paused = scheduler.schedule(
+			'paused.example',
+			async () => Date.now() - start,
+		);
+		// A 5 QPS host starts five tasks at once; the sixth needs a wake-up about 200ms from now
+		const throttled = await Promise.all(
+			Array.from({ length: 6 }, () =>
+				scheduler.schedule(
+					'throttled.example',
+					async () => Date.now() - start,
+				),
+			),
+		);
+
+		expect(Math.max(...throttled)).toBeLessThan(600);
+		expect(await paused).toBeGreaterThanOrEqual(990);
+	});
+});
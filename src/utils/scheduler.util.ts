@@ -0,0 +1,285 @@
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+
+const schedulerLogger = Logger.forContext('utils/scheduler.util.ts');
+
+/**
+ * Options controlling a LookupScheduler
+ */
+export interface SchedulerOptions {
+	/** Maximum number of lookups running at once, across all hosts */
+	maxConcurrency: number;
+	/** Default queries per second allowed for each host */
+	hostQps: number;
+	/** Per-host QPS overrides, keyed by host name */
+	hostQpsOverrides?: Record<string, number>;
+	/** Default pause in milliseconds for a host that rate-limited a lookup (default 0) */
+	hostCooldownMs?: number;
+}
+
+/**
+ * Token bucket for a single host
+ */
+interface TokenBucket {
+	tokens: number;
+	capacity: number;
+	ratePerMs: number;
+	lastRefill: number;
+}
+
+/**
+ * A lookup waiting for a concurrency slot and a token for its host
+ */
+interface PendingTask {
+	host: string;
+	run: () => Promise<unknown>;
+	resolve: (value: unknown) => void;
+	reject: (reason: unknown) => void;
+	/** Removes the pending task's abort listener */
+	detach?: () => void;
+}
+
+/**
+ * Scheduler for WHOIS/RDAP lookups.
+ *
+ * Work is queued, never rejected: a task starts once a global concurrency slot is free
+ * and the token bucket of its host (the resolved WHOIS or RDAP server) has a token.
+ * Tasks for a throttled host do not block tasks for other hosts. A host that rate-limits a
+ * lookup can be cooled down: its queued tasks wait until the cool-down ends.
+ */
+export class LookupScheduler {
+	private options: SchedulerOptions;
+	private queue: PendingTask[] = [];
+	private buckets = new Map<string, TokenBucket>();
+	// Host -> time (ms since epoch) its cool-down ends
+	private cooldowns = new Map<string, number>();
+	private running = 0;
+	private timer: NodeJS.Timeout | null = null;
+	// Time (ms since epoch) the pending timer fires
+	private timerDueAt = 0;
+
+	/**
+	 * Create a new scheduler
+	 * @param options Concurrency and rate limits
+	 */
+	constructor(options: SchedulerOptions) {
+		this.options = {
+			...options,
+			maxConcurrency: Math.max(1, Math.floor(options.maxConcurrency)),
+			hostQpsOverrides: Object.fromEntries(
+				Object.entries(options.hostQpsOverrides ?? {}).map(
+					([host, qps]) => [host.toLowerCase(), Number(qps)],
+				),
+			),
+		};
+	}
+
+	/**
+	 * Queue a lookup against a host
+	 * @param host The WHOIS/RDAP server the task will query
+	 * @param task The lookup to run
+	 * @param signal Aborting the signal drops the task if it is still queued (a running task must watch the signal itself)
+	 * @returns Promise resolving or rejecting with the task's own outcome, or rejecting with the signal's reason
+	 */
+	schedule<T>(
+		host: string,
+		task: () => Promise<T>,
+		signal?: AbortSignal,
+	): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(signal.reason);
+				return;
+			}
+
+			const pending: PendingTask = {
+				host: host.toLowerCase(),
+				run: task,
+				resolve: resolve as (value: unknown) => void,
+				reject,
+			};
+			if (signal) {
+				const onAbort = () => {
+					const index = this.queue.indexOf(pending);
+					if (index !== -1) {
+						this.queue.splice(index, 1);
+						// Nothing left to wake up for, so a cancelled CLI run can exit
+						if (this.queue.length === 0 && this.timer) {
+							clearTimeout(this.timer);
+							this.timer = null;
+						}
+						reject(signal.reason);
+					}
+				};
+				signal.addEventListener('abort', onAbort, { once: true });
+				pending.detach = () =>
+					signal.removeEventListener('abort', onAbort);
+			}
+
+			this.queue.push(pending);
+			this.pump();
+		});
+	}
+
+	/**
+	 * Pause a host that rate-limited a lookup: none of its queued tasks start until the cool-down
+	 * ends. A longer cool-down already in place is kept.
+	 * @param host The WHOIS/RDAP server that rate-limited the lookup
+	 * @param durationMs Length of the pause (defaults to the hostCooldownMs option)
+	 */
+	coolDown(
+		host: string,
+		durationMs: number = this.options.hostCooldownMs ?? 0,
+	): void {
+		if (!(durationMs > 0)) {
+			return;
+		}
+		const key = host.toLowerCase();
+		const until = Date.now() + durationMs;
+		if ((this.cooldowns.get(key) ?? 0) >= until) {
+			return;
+		}
+		this.cooldowns.set(key, until);
+		schedulerLogger.warn(
+			`Cooling down ${key} for ${durationMs}ms after it rate-limited a lookup`,
+		);
+	}
+
+	/**
+	 * Get current scheduler counters
+	 * @returns Number of running and queued tasks
+	 */
+	getStats(): { running: number; queued: number } {
+		return { running: this.running, queued: this.queue.length };
+	}
+
+	/**
+	 * Get (creating if needed) the token bucket for a host, refilled to the current time
+	 */
+	private getBucket(host: string, now: number): TokenBucket {
+		let bucket = this.buckets.get(host);
+		if (!bucket) {
+			const qps =
+				this.options.hostQpsOverrides?.[host] ?? this.options.hostQps;
+			// A QPS of 0 (or less) disables rate limiting for the host
+			const capacity = qps > 0 ? Math.max(1, Math.ceil(qps)) : Infinity;
+			bucket = {
+				tokens: capacity,
+				capacity,
+				ratePerMs: Math.max(0, qps) / 1000,
+				lastRefill: now,
+			};
+			this.buckets.set(host, bucket);
+		}
+
+		const elapsed = now - bucket.lastRefill;
+		bucket.tokens = Math.min(
+			bucket.capacity,
+			bucket.tokens + elapsed * bucket.ratePerMs,
+		);
+		bucket.lastRefill = now;
+		return bucket;
+	}
+
+	/**
+	 * Start every queued task that has a free slot and a token, then arm a timer for the next refill
+	 * or cool-down end. A pending timer that fires later than that is replaced.
+	 */
+	private pump(): void {
+		const now = Date.now();
+		let nextWakeMs = Infinity;
+
+		for (let i = 0; i < this.queue.length; ) {
+			if (this.running >= this.options.maxConcurrency) {
+				break;
+			}
+
+			const pending = this.queue[i];
+			const cooldownUntil = this.cooldowns.get(pending.host);
+			if (cooldownUntil !== undefined) {
+				if (cooldownUntil > now) {
+					nextWakeMs = Math.min(nextWakeMs, cooldownUntil - now);
+					i++;
+					continue;
+				}
+				this.cooldowns.delete(pending.host);
+			}
+
+			const bucket = this.getBucket(pending.host, now);
+			if (bucket.tokens < 1) {
+				if (bucket.ratePerMs > 0) {
+					nextWakeMs = Math.min(
+						nextWakeMs,
+						Math.ceil((1 - bucket.tokens) / bucket.ratePerMs),
+					);
+				}
+				i++;
+				continue;
+			}
+
+			bucket.tokens -= 1;
+			this.queue.splice(i, 1);
+			this.start(pending);
+		}
+
+		if (
+			this.queue.length > 0 &&
+			this.running < this.options.maxConcurrency &&
+			Number.isFinite(nextWakeMs) &&
+			(!this.timer || now + nextWakeMs < this.timerDueAt)
+		) {
+			if (this.timer) {
+				clearTimeout(this.timer);
+			}
+			this.timerDueAt = now + nextWakeMs;
+			this.timer = setTimeout(() => {
+				this.timer = null;
+				this.pump();
+			}, nextWakeMs);
+		}
+	}
+
+	/**
+	 * Run a task, freeing its slot when it settles
+	 */
+	private start(pending: PendingTask): void {
+		pending.detach?.();
+		this.running++;
+		schedulerLogger.debug(
+			`Starting lookup on ${pending.host} (${this.running} running, ${this.queue.length} queued)`,
+		);
+		Promise.resolve()
+			.then(pending.run)
+			.then(pending.resolve, pending.reject)
+			.finally(() => {
+				this.running--;
+				this.pump();
+			});
+	}
+}
+
+let sharedScheduler: LookupScheduler | null = null;
+
+/**
+ * Get the process-wide lookup scheduler, created from config on first use:
+ * - WHOIS_MAX_CONCURRENCY: global concurrency cap (default 10)
+ * - WHOIS_HOST_QPS: queries per second per WHOIS/RDAP host (default 2)
+ * - WHOIS_HOST_QPS_OVERRIDES: JSON object of per-host QPS, e.g. {"whois.verisign-grs.com": 10}
+ * - WHOIS_HOST_COOLDOWN: milliseconds a host that rate-limited a lookup is paused (default 30000)
+ *
+ * @returns The shared scheduler
+ */
+export function getLookupScheduler(): LookupScheduler {
+	if (!sharedScheduler) {
+		sharedScheduler = new LookupScheduler({
+			maxConcurrency: config.getNumber('WHOIS_MAX_CONCURRENCY', 10),
+			hostQps: config.getNumber('WHOIS_HOST_QPS', 2),
+			hostQpsOverrides:
+				config.getJson<Record<string, number>>(
+					'WHOIS_HOST_QPS_OVERRIDES',
+				) ?? {},
+			hostCooldownMs: config.getNumber('WHOIS_HOST_COOLDOWN', 30000),
+		});
+	}
+	return sharedScheduler;
+}
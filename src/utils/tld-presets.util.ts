@@ -0,0 +1,86 @@
+/**
+ * Named TLD sets accepted wherever a list of TLDs is expected.
+ * `all-gtlds` is not listed here: it is derived from the active RDAP bootstrap registry.
+ */
+export const TLD_PRESETS: Record<string, string[]> = {
+	popular: ['com', 'net', 'org', 'io', 'co', 'ai', 'app', 'dev'],
+	tech: [
+		'io',
+		'dev',
+		'app',
+		'ai',
+		'tech',
+		'cloud',
+		'software',
+		'tools',
+		'systems',
+		'sh',
+	],
+	'country:eu': [
+		'eu',
+		'at',
+		'be',
+		'bg',
+		'cy',
+		'cz',
+		'de',
+		'dk',
+		'ee',
+		'es',
+		'fi',
+		'fr',
+		'gr',
+		'hr',
+		'hu',
+		'ie',
+		'it',
+		'lt',
+		'lu',
+		'lv',
+		'mt',
+		'nl',
+		'pl',
+		'pt',
+		'ro',
+		'se',
+		'si',
+		'sk',
+	],
+	'country:nordics': ['dk', 'fi', 'is', 'no', 'se'],
+	'country:dach': ['de', 'at', 'ch', 'li'],
+	'country:americas': ['us', 'ca', 'mx', 'br', 'ar', 'cl', 'co', 'pe'],
+	'country:apac': [
+		'au',
+		'nz',
+		'jp',
+		'kr',
+		'cn',
+		'hk',
+		'tw',
+		'sg',
+		'in',
+		'id',
+		'my',
+		'ph',
+		'th',
+		'vn',
+	],
+};
+
+/** Preset expanding to every ASCII generic TLD of the RDAP bootstrap registry */
+export const ALL_GTLDS_PRESET = 'all-gtlds';
+
+/**
+ * Check whether a TLD is an ASCII generic TLD. Country codes are two letters; IDN TLDs are left out.
+ * @param tld A lowercase TLD
+ */
+export function isGenericTld(tld: string): boolean {
+	return tld.length > 2 && !tld.startsWith('xn--');
+}
+
+/**
+ * Names of every preset, for help texts and error messages
+ */
+export function listTldPresets(): string[] {
+	return [...Object.keys(TLD_PRESETS), ALL_GTLDS_PRESET];
+}
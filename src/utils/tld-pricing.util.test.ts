@@ -0,0 +1,62 @@
+import {
+	estimateDomainPrice,
+	estimateDomainPrices,
+	formatPriceEstimate,
+} from './tld-pricing.util.js';
+
+describe('TLD pricing util', () => {
+	const originalPricing = process.env.TLD_PRICING;
+
+	afterEach(() => {
+		if (originalPricing === undefined) {
+			delete process.env.TLD_PRICING;
+		} else {
+			process.env.TLD_PRICING = originalPricing;
+		}
+	});
+
+	describe('estimateDomainPrice', () => {
+		it('should estimate from the most specific suffix in the bundled catalog', () => {
+			expect(estimateDomainPrice('acme.co.uk')).toEqual({
+				tld: 'co.uk',
+				firstYear: 7.99,
+				renewal: 7.99,
+				currency: 'USD',
+			});
+			expect(estimateDomainPrice('acme.me.uk')?.tld).toBe('uk');
+		});
+
+		it('should leave out TLDs missing from the catalog', () => {
+			expect(estimateDomainPrice('acme.museum')).toBeUndefined();
+			expect(
+				Object.keys(estimateDomainPrices(['acme.io', 'acme.museum'])),
+			).toEqual(['acme.io']);
+		});
+	});
+
+	describe('TLD_PRICING overrides', () => {
+		it('should merge overrides into the bundled catalog', () => {
+			process.env.TLD_PRICING = JSON.stringify({
+				'.io': { renewal: 60 },
+				museum: { registration: 50, renewal: 50, currency: 'EUR' },
+				broken: { registration: 5 },
+			});
+
+			expect(estimateDomainPrice('acme.io')).toMatchObject({
+				firstYear: 39.99,
+				renewal: 60,
+			});
+			expect(estimateDomainPrice('acme.museum')?.currency).toBe('EUR');
+			expect(estimateDomainPrice('acme.broken')).toBeUndefined();
+		});
+	});
+
+	describe('formatPriceEstimate', () => {
+		it('should describe the first-year and renewal cost', () => {
+			expect(formatPriceEstimate(estimateDomainPrice('acme.com'))).toBe(
+				'USD 11.25 (renews at 11.25)',
+			);
+			expect(formatPriceEstimate(undefined)).toBe('');
+		});
+	});
+});
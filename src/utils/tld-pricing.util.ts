@@ -0,0 +1,134 @@
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+import bundledCatalog from '../data/tld-pricing.json';
+
+/**
+ * TLD pricing catalog.
+ *
+ * Registration prices vary by registrar and change over time, so costs are estimated from a bundled
+ * catalog of typical retail prices per TLD (src/data/tld-pricing.json). Entries are keyed by public
+ * suffix ("co.uk" before "uk") and can be added or replaced through the TLD_PRICING config value,
+ * e.g. with the prices of the registrar actually used.
+ */
+
+const pricingLogger = Logger.forContext('utils/tld-pricing.util.ts');
+
+/**
+ * Currency of catalog entries that do not name their own
+ */
+export const CATALOG_CURRENCY: string = bundledCatalog.currency;
+
+/**
+ * Prices of one TLD, per year
+ */
+export interface TldPrice {
+	/** First-year registration price */
+	registration: number;
+	/** Yearly renewal price */
+	renewal: number;
+	/** Currency of both prices (default: the catalog currency) */
+	currency?: string;
+}
+
+/**
+ * Estimated cost of registering an available domain
+ */
+export interface DomainPriceEstimate {
+	/** Catalog entry the estimate comes from, e.g. "co.uk" */
+	tld: string;
+	firstYear: number;
+	renewal: number;
+	currency: string;
+}
+
+/**
+ * Get the bundled catalog merged with any overrides from the TLD_PRICING config value.
+ * Overrides are keyed by TLD or public suffix and take precedence over bundled fields;
+ * entries without numeric prices are ignored.
+ *
+ * @returns The effective price of every TLD in the catalog
+ */
+export function getPricingCatalog(): Record<string, TldPrice> {
+	const catalog: Record<string, TldPrice> = { ...bundledCatalog.tlds };
+	const overrides =
+		config.getJson<Record<string, Partial<TldPrice>>>('TLD_PRICING');
+	if (!overrides || typeof overrides !== 'object') {
+		return catalog;
+	}
+
+	for (const [key, override] of Object.entries(overrides)) {
+		const suffix = key.toLowerCase().replace(/^\./, '');
+		const merged = { ...catalog[suffix], ...override };
+		if (
+			typeof merged.registration !== 'number' ||
+			typeof merged.renewal !== 'number'
+		) {
+			pricingLogger.warn(
+				`Ignoring TLD_PRICING entry for "${key}": registration and renewal prices are required`,
+			);
+			continue;
+		}
+		catalog[suffix] = merged as TldPrice;
+	}
+	return catalog;
+}
+
+/**
+ * Estimate the cost of registering a domain from the pricing catalog.
+ *
+ * @param domain A registrable ASCII domain
+ * @param catalog The pricing catalog (defaults to the effective catalog)
+ * @returns The estimate for the most specific suffix in the catalog, or undefined if none is listed
+ */
+export function estimateDomainPrice(
+	domain: string,
+	catalog: Record<string, TldPrice> = getPricingCatalog(),
+): DomainPriceEstimate | undefined {
+	const labels = domain.toLowerCase().split('.');
+	for (let i = 1; i < labels.length; i++) {
+		const suffix = labels.slice(i).join('.');
+		const price = catalog[suffix];
+		if (price) {
+			return {
+				tld: suffix,
+				firstYear: price.registration,
+				renewal: price.renewal,
+				currency: price.currency ?? CATALOG_CURRENCY,
+			};
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Estimate the cost of each of a list of domains.
+ *
+ * @param domains Registrable ASCII domains
+ * @returns Estimates by domain; domains whose TLD is not in the catalog are left out
+ */
+export function estimateDomainPrices(
+	domains: string[],
+): Record<string, DomainPriceEstimate> {
+	const catalog = getPricingCatalog();
+	const estimates: Record<string, DomainPriceEstimate> = {};
+	for (const domain of domains) {
+		const estimate = estimateDomainPrice(domain, catalog);
+		if (estimate) {
+			estimates[domain] = estimate;
+		}
+	}
+	return estimates;
+}
+
+/**
+ * Describe an estimate in one line, e.g. "USD 11.25 (renews at 11.25)".
+ *
+ * @param estimate The estimate, if any
+ * @returns The description, or an empty string without an estimate
+ */
+export function formatPriceEstimate(estimate?: DomainPriceEstimate): string {
+	if (!estimate) {
+		return '';
+	}
+	return `${estimate.currency} ${estimate.firstYear.toFixed(2)} (renews at ${estimate.renewal.toFixed(2)})`;
+}
@@ -0,0 +1,106 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import {
+	findWhoisReferral,
+	formatWhoisQuery,
+	queryWhois,
+} from './whois-query.util.js';
+
+describe('queryWhois', () => {
+	let server: net.Server;
+	let port: number;
+	const openSockets = new Set<net.Socket>();
+
+	beforeAll(async () => {
+		// Answers "slow.example" never, everything else immediately
+		server = net.createServer((socket) => {
+			openSockets.add(socket);
+			socket.on('close', () => openSockets.delete(socket));
+			socket.on('data', (chunk) => {
+				const query = chunk.toString().trim();
+				if (query !== 'slow.example') {
+					socket.end(`Domain Name: ${query.toUpperCase()}\r\n`);
+				}
+			});
+		});
+		await new Promise<void>((resolve) =>
+			server.listen(0, '127.0.0.1', resolve),
+		);
+		port = (server.address() as AddressInfo).port;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	it('should return the full response text', async () => {
+		await expect(
+			queryWhois({ host: '127.0.0.1', port, query: 'example.com' }),
+		).resolves.toBe('Domain Name: EXAMPLE.COM\r\n');
+	});
+
+	it('should close the socket as soon as the signal is aborted', async () => {
+		const controller = new AbortController();
+		const pending = queryWhois({
+			host: '127.0.0.1',
+			port,
+			query: 'slow.example',
+			timeout: 10_000,
+			signal: controller.signal,
+		});
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(openSockets.size).toBe(1);
+
+		const start = Date.now();
+		controller.abort();
+		await expect(pending).rejects.toThrow('aborted');
+		expect(Date.now() - start).toBeLessThan(1000);
+
+		// The server sees the connection close
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		expect(openSockets.size).toBe(0);
+	});
+
+	it('should time out idle connections', async () => {
+		await expect(
+			queryWhois({
+				host: '127.0.0.1',
+				port,
+				query: 'slow.example',
+				timeout: 50,
+			}),
+		).rejects.toThrow('Timeout');
+	});
+});
+
+describe('formatWhoisQuery', () => {
+	it('should use the registry-specific query forms', () => {
+		expect(formatWhoisQuery('whois.denic.de', 'xn--mller-kva.de')).toBe(
+			'-T dn müller.de',
+		);
+		expect(formatWhoisQuery('whois.jprs.jp', 'example.jp')).toBe(
+			'example.jp/e',
+		);
+		expect(formatWhoisQuery('whois.verisign-grs.com', 'example.com')).toBe(
+			'example.com',
+		);
+	});
+});
+
+describe('findWhoisReferral', () => {
+	it('should find the registrar WHOIS server', () => {
+		expect(
+			findWhoisReferral(
+				'Domain Name: GOOGLE.COM\r\n   Registrar WHOIS Server: whois.markmonitor.com\r\n',
+			),
+		).toBe('whois.markmonitor.com');
+		expect(
+			findWhoisReferral(
+				'ReferralServer: rwhois://rwhois.example.net:4321',
+			),
+		).toBe('rwhois.example.net');
+		expect(
+			findWhoisReferral('No match for "EXAMPLE.COM".'),
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,98 @@
+import net from 'net';
+import { domainToUnicode } from 'url';
+
+/**
+ * Options for a single WHOIS query
+ */
+export interface WhoisQueryOptions {
+	/** WHOIS server to query */
+	host: string;
+	/** Query text (usually the domain name) */
+	query: string;
+	/** WHOIS port (default 43) */
+	port?: number;
+	/** Idle timeout in milliseconds (default 5000) */
+	timeout?: number;
+	/** Aborting the signal closes the socket and rejects with the signal's reason */
+	signal?: AbortSignal;
+}
+
+/**
+ * Send a query to a WHOIS server and collect the response text.
+ * Unlike whoiser's internal query, the socket is closed as soon as the signal is aborted.
+ *
+ * @param options Server, query and timeouts
+ * @returns The raw response text
+ */
+export function queryWhois(options: WhoisQueryOptions): Promise<string> {
+	const { host, query, port = 43, timeout = 5000, signal } = options;
+
+	return new Promise<string>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		let data = '';
+		const socket = net.connect({ host, port }, () =>
+			socket.write(`${query}\r\n`),
+		);
+		const onAbort = () => socket.destroy(signal?.reason);
+
+		socket.setEncoding('utf8');
+		socket.setTimeout(timeout);
+		socket.on('data', (chunk: string) => (data += chunk));
+		socket.on('timeout', () => socket.destroy(new Error('Timeout')));
+		socket.on('error', reject);
+		socket.on('close', (hadError) => {
+			signal?.removeEventListener('abort', onAbort);
+			if (!hadError) {
+				resolve(data);
+			}
+		});
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/**
+ * Build the query text for a domain, including the registry-specific forms some servers require.
+ *
+ * @param host WHOIS server that will receive the query
+ * @param domain Domain name (ASCII/punycode form)
+ * @returns Query text
+ */
+export function formatWhoisQuery(host: string, domain: string): string {
+	switch (host.toLowerCase()) {
+		case 'whois.denic.de':
+			// DENIC only returns the full record for the "domain" type, in Unicode form
+			return `-T dn ${domainToUnicode(domain)}`;
+		case 'whois.jprs.jp':
+			// JPRS answers in Japanese unless asked for English
+			return `${domain}/e`;
+		default:
+			return domain;
+	}
+}
+
+/**
+ * Find the referral to the next WHOIS server (usually the registrar's) in a response.
+ *
+ * @param text Response text
+ * @returns The referred host, or undefined if the response has no referral
+ */
+export function findWhoisReferral(text: string): string | undefined {
+	const match = text.match(
+		/^\s*(?:Registrar WHOIS Server|Registry WHOIS Server|ReferralServer|Registrar Whois|Whois Server):\s*(\S+)\s*$/im,
+	);
+	if (!match) {
+		return undefined;
+	}
+	if (!match[1].includes('://')) {
+		return match[1].toLowerCase();
+	}
+	try {
+		return new URL(match[1]).hostname.toLowerCase() || undefined;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,162 @@
+import fs from 'fs';
+import path from 'path';
+import {
+	MAX_EXCERPT_LENGTH,
+	classifyWhoisResponse,
+	excerptText,
+	getRuleForDomain,
+	WhoisVerdict,
+} from './whois-rules.util.js';
+
+// Fixtures are named <tld>.<expected verdict>.txt
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'whois');
+const fixtures = fs
+	.readdirSync(FIXTURE_DIR)
+	.filter((file) => file.endsWith('.txt'))
+	.map((file) => {
+		const [tld, verdict] = file.replace(/\.txt$/, '').split('.');
+		return {
+			file,
+			tld,
+			verdict: verdict as WhoisVerdict,
+			text: fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'),
+		};
+	});
+
+describe('WHOIS Rules Utility', () => {
+	describe('classifyWhoisResponse fixtures', () => {
+		it.each(fixtures.map((f) => [f.file, f] as const))(
+			'should classify %s',
+			(_file, fixture) => {
+				const result = classifyWhoisResponse(`example.${fixture.tld}`, [
+					{ server: `whois.nic.${fixture.tld}`, text: fixture.text },
+				]);
+
+				expect(result.verdict).toBe(fixture.verdict);
+				expect(result.server).toBe(`whois.nic.${fixture.tld}`);
+				expect(result.rule).toBeDefined();
+			},
+		);
+	});
+
+	describe('classifyWhoisResponse', () => {
+		it('should let the first decisive server in the chain win', () => {
+			const result = classifyWhoisResponse('example.com', [
+				{ server: 'whois.registry.example', text: '' },
+				{
+					server: 'whois.registrar.example',
+					text: 'Registrar: Example Registrar, Inc.',
+				},
+			]);
+
+			expect(result.verdict).toBe('registered');
+			expect(result.server).toBe('whois.registrar.example');
+		});
+
+		it('should report unknown when no rule matches', () => {
+			const result = classifyWhoisResponse('example.com', [
+				{ server: 'whois.example', text: 'Something unexpected' },
+			]);
+
+			expect(result).toEqual({ verdict: 'unknown' });
+		});
+
+		it('should not treat terms of use as rate limiting when registration data is present', () => {
+			const result = classifyWhoisResponse('example.com', [
+				{
+					server: 'whois.example',
+					text: 'Registrar: Example\nQueries are subject to a rate limit.',
+				},
+			]);
+
+			expect(result.verdict).toBe('registered');
+		});
+
+		it('should not read the fields of a throttled response as registration data', () => {
+			const result = classifyWhoisResponse('example.com', [
+				{
+					server: 'whois.example',
+					text: 'Domain Name: EXAMPLE.COM\nRegistrar: \nCreation Date: REDACTED\n% Quota exceeded, reduced information.',
+				},
+			]);
+
+			expect(result.verdict).toBe('rate-limited');
+			expect(result.excerpt).toBe(
+				'% Quota exceeded, reduced information.',
+			);
+		});
+
+		it('should quote the lines the rule matched as the excerpt', () => {
+			const result = classifyWhoisResponse('example.de', [
+				{
+					server: 'whois.denic.de',
+					text: '% Copyright DENIC\n\nDomain: example.de\nStatus: free\n',
+				},
+			]);
+
+			expect(result.verdict).toBe('available');
+			expect(result.excerpt).toBe('Status: free');
+		});
+	});
+
+	describe('excerptText', () => {
+		it('should keep the start of unmatched responses, without blank lines, up to the length limit', () => {
+			expect(excerptText('first\n\n  \nsecond')).toBe('first\nsecond');
+
+			const excerpt = excerptText('x'.repeat(1000));
+			expect(excerpt).toHaveLength(MAX_EXCERPT_LENGTH);
+			expect(excerpt.endsWith('…')).toBe(true);
+		});
+
+		it('should start at the matching line and keep the line after it', () => {
+			expect(excerptText('a\nb: 1\nc: 2\nd: 3', /^c:/m)).toBe(
+				'c: 2\nd: 3',
+			);
+		});
+	});
+
+	describe('getRuleForDomain', () => {
+		it('should pick the most specific TLD rule', () => {
+			expect(getRuleForDomain('example.co.uk').key).toBe('uk');
+			expect(getRuleForDomain('example.de').key).toBe('de');
+			expect(getRuleForDomain('example.com').key).toBe('*');
+		});
+	});
+
+	describe('WHOIS_RULES overrides', () => {
+		const originalRules = process.env.WHOIS_RULES;
+
+		afterEach(() => {
+			if (originalRules === undefined) {
+				delete process.env.WHOIS_RULES;
+			} else {
+				process.env.WHOIS_RULES = originalRules;
+			}
+		});
+
+		it('should apply patterns from config before the built-in rules', () => {
+			process.env.WHOIS_RULES = JSON.stringify({
+				'.example': { available: ['^Result: unclaimed$'] },
+			});
+
+			const result = classifyWhoisResponse('name.example', [
+				{ server: 'whois.nic.example', text: 'Result: unclaimed' },
+			]);
+
+			expect(result.verdict).toBe('available');
+			expect(result.rule).toContain('example.available');
+		});
+
+		it('should ignore invalid override patterns', () => {
+			process.env.WHOIS_RULES = JSON.stringify({
+				de: { available: ['(unclosed'] },
+			});
+
+			const result = classifyWhoisResponse('example.de', [
+				{ server: 'whois.denic.de', text: 'Status: free' },
+			]);
+
+			expect(result.verdict).toBe('available');
+		});
+	});
+});
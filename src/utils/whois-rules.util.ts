@@ -0,0 +1,425 @@
+import { Logger } from './logger.util.js';
+import { config } from './config.util.js';
+
+/**
+ * WHOIS response classification rules.
+ *
+ * Registries word their WHOIS answers differently ("No match for", "Status: free",
+ * "Status: AVAILABLE", ...), so availability is decided by a per-TLD rule registry
+ * rather than a single list of English phrases. Every TLD rule is applied together
+ * with the generic rule, and users can add patterns through the WHOIS_RULES config value.
+ */
+
+const rulesLogger = Logger.forContext('utils/whois-rules.util.ts');
+
+/**
+ * Verdict reached for a WHOIS response
+ */
+export type WhoisVerdict =
+	| 'available'
+	| 'registered'
+	| 'reserved'
+	| 'premium'
+	| 'rate-limited'
+	| 'unknown';
+
+/**
+ * Classification rule for one TLD (or the generic '*' rule)
+ */
+export interface WhoisRule {
+	/** Patterns indicating the name is not registered */
+	available?: RegExp[];
+	/** Patterns indicating the name is registered */
+	registered?: RegExp[];
+	/** Patterns indicating the name is reserved or blocked by the registry */
+	reserved?: RegExp[];
+	/** Patterns indicating the name is unregistered but sold at a premium price */
+	premium?: RegExp[];
+	/** Patterns indicating the server refused to answer because of query limits */
+	rateLimited?: RegExp[];
+	/** Field labels whose presence (with a value) indicates registration data */
+	keyFields?: string[];
+}
+
+/**
+ * Rule override as written in the WHOIS_RULES config value (patterns as strings)
+ */
+export interface WhoisRuleOverride {
+	available?: string[];
+	registered?: string[];
+	reserved?: string[];
+	premium?: string[];
+	rateLimited?: string[];
+	keyFields?: string[];
+}
+
+/**
+ * Response text from a single WHOIS server in the follow chain
+ */
+export interface WhoisServerResponse {
+	server: string;
+	text: string;
+}
+
+/**
+ * Result of classifying a WHOIS response
+ */
+export interface WhoisClassification {
+	verdict: WhoisVerdict;
+	/** The rule that fired, e.g. "de.available /^status:\s*free/im" */
+	rule?: string;
+	/** The server whose response decided the verdict */
+	server?: string;
+	/** The lines of the response the rule matched, trimmed */
+	excerpt?: string;
+}
+
+/**
+ * Key used for the rule applied to every TLD
+ */
+export const GENERIC_RULE_KEY = '*';
+
+/**
+ * Built-in rules. TLD rules are checked before, and in addition to, the generic rule.
+ */
+const BUILTIN_RULES: Record<string, WhoisRule> = {
+	[GENERIC_RULE_KEY]: {
+		available: [
+			/^no match/im,
+			/no match for /i,
+			/^%*\s*not found/im,
+			/^domain \S+ not found/im,
+			/\bdomain not found\b/i,
+			/no entries found/i,
+			/no data found/i,
+			/no object found/i,
+			/no matching record/i,
+			/domain name not known/i,
+			/is available for (registration|purchase)/i,
+			/\bis free\b/i,
+			/^\s*status:\s*(available|free)\s*$/im,
+			/do not have an entry in our database matching your query/i,
+		],
+		reserved: [
+			/reserved by (the )?registry/i,
+			/\bregistry[- ]reserved\b/i,
+			/^\s*status:\s*reserved\s*$/im,
+			/this (domain )?name is reserved/i,
+			/^\s*status:\s*blocked\s*$/im,
+		],
+		premium: [
+			/\bpremium (domain|name)\b/i,
+			/available (for registration )?at a premium/i,
+			/^\s*status:\s*premium\s*$/im,
+		],
+		// Throttle notices, worded so that terms of use ("queries are subject to a rate limit") do not match
+		rateLimited: [
+			/quota exceeded/i,
+			/query rate limit/i,
+			/rate limit (exceeded|reached)/i,
+			/limit exceeded/i,
+			/too many (requests|queries|connections)/i,
+			/maximum number of (requests|queries)/i,
+			/exceeded (the |your )?(allowed|maximum|query|request)/i,
+			/please (try|query) again later/i,
+			/\b(queries|requests|access) (have been |has been |are |is )?(temporarily )?(throttled|blocked)/i,
+		],
+		keyFields: [
+			'Registrar',
+			'Registry Domain ID',
+			'Creation Date',
+			'Registry Expiry Date',
+			'Registrar Registration Expiration Date',
+		],
+	},
+	// DENIC: "Status: free" / "Status: connect"
+	de: {
+		available: [/^status:\s*free\s*$/im],
+		registered: [/^status:\s*(connect|failed)\s*$/im],
+		rateLimited: [/access control limit/i],
+		keyFields: ['Nserver', 'Changed'],
+	},
+	// JPRS (English output via the "/e" suffix)
+	jp: {
+		available: [/^no match!!/im],
+		registered: [/^(\[domain name\]|a\. \[domain name\])\s+\S/im],
+	},
+	// Registro.br
+	br: {
+		available: [/^%\s*no match for domain/im],
+		registered: [/^owner:\s*\S/im],
+		rateLimited: [/query rate limit exceeded/i],
+		keyFields: ['owner', 'created', 'expires'],
+	},
+	// Registro .it
+	it: {
+		available: [/^status:\s*available\s*$/im],
+		registered: [
+			/^status:\s*(ok|active|client\S*|inactive\S*|pendingdelete\S*)/im,
+		],
+		reserved: [/^status:\s*(unassignable|reserved)\s*$/im],
+		keyFields: ['Created', 'Expire Date'],
+	},
+	// Nominet
+	uk: {
+		available: [/this domain name has not been registered/i],
+		registered: [/^\s*registrar:\s*$/im],
+		keyFields: ['Registered on', 'Expiry date'],
+	},
+	// EURid
+	eu: {
+		available: [/^status:\s*available\s*$/im],
+		registered: [/^(registrant|registrar|name servers):\s*$/im],
+	},
+	// SIDN
+	nl: {
+		available: [/\bis free\b/i],
+		registered: [/^status:\s*(active|in quarantine)\s*$/im],
+		rateLimited: [/maximum number of requests per second exceeded/i],
+	},
+	// AFNIC
+	fr: {
+		available: [/^%%\s*not found/im],
+		keyFields: ['holder-c', 'created'],
+	},
+};
+
+/**
+ * Compile override pattern strings into case-insensitive multiline regular expressions.
+ * Invalid patterns are logged and skipped.
+ */
+function compilePatterns(tld: string, patterns?: string[]): RegExp[] {
+	const compiled: RegExp[] = [];
+	for (const pattern of patterns ?? []) {
+		try {
+			compiled.push(new RegExp(pattern, 'im'));
+		} catch (error) {
+			rulesLogger.warn(
+				`Ignoring invalid WHOIS_RULES pattern for "${tld}": ${pattern}`,
+				error,
+			);
+		}
+	}
+	return compiled;
+}
+
+/**
+ * Combine two rules, with the patterns of `first` checked before those of `second`
+ */
+function mergeRules(first: WhoisRule, second: WhoisRule): WhoisRule {
+	return {
+		available: [...(first.available ?? []), ...(second.available ?? [])],
+		registered: [...(first.registered ?? []), ...(second.registered ?? [])],
+		reserved: [...(first.reserved ?? []), ...(second.reserved ?? [])],
+		premium: [...(first.premium ?? []), ...(second.premium ?? [])],
+		rateLimited: [
+			...(first.rateLimited ?? []),
+			...(second.rateLimited ?? []),
+		],
+		keyFields: [...(first.keyFields ?? []), ...(second.keyFields ?? [])],
+	};
+}
+
+/**
+ * Get the built-in rules merged with any overrides from the WHOIS_RULES config value.
+ * Overrides are keyed by TLD (or '*' for the generic rule) and take precedence over built-in patterns.
+ *
+ * @returns The effective rule registry
+ */
+export function getWhoisRules(): Record<string, WhoisRule> {
+	const rules: Record<string, WhoisRule> = { ...BUILTIN_RULES };
+	const overrides =
+		config.getJson<Record<string, WhoisRuleOverride>>('WHOIS_RULES');
+	if (!overrides || typeof overrides !== 'object') {
+		return rules;
+	}
+
+	for (const [key, override] of Object.entries(overrides)) {
+		const tld = key.toLowerCase().replace(/^\./, '');
+		const compiled: WhoisRule = {
+			available: compilePatterns(tld, override.available),
+			registered: compilePatterns(tld, override.registered),
+			reserved: compilePatterns(tld, override.reserved),
+			premium: compilePatterns(tld, override.premium),
+			rateLimited: compilePatterns(tld, override.rateLimited),
+			keyFields: override.keyFields ?? [],
+		};
+		rules[tld] = mergeRules(compiled, rules[tld] ?? {});
+	}
+	return rules;
+}
+
+/**
+ * Find the effective rule for a domain: the most specific TLD rule (e.g. "co.uk" before "uk")
+ * combined with the generic rule.
+ *
+ * @param domain The domain name
+ * @param rules The rule registry (defaults to the effective registry)
+ * @returns The rule key that matched and the combined rule
+ */
+export function getRuleForDomain(
+	domain: string,
+	rules: Record<string, WhoisRule> = getWhoisRules(),
+): { key: string; rule: WhoisRule } {
+	const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+	for (let i = 1; i < labels.length; i++) {
+		const suffix = labels.slice(i).join('.');
+		if (rules[suffix]) {
+			return {
+				key: suffix,
+				rule: mergeRules(rules[suffix], rules[GENERIC_RULE_KEY] ?? {}),
+			};
+		}
+	}
+	return { key: GENERIC_RULE_KEY, rule: rules[GENERIC_RULE_KEY] ?? {} };
+}
+
+/**
+ * Longest excerpt of a response kept as evidence for a verdict
+ */
+export const MAX_EXCERPT_LENGTH = 300;
+
+/**
+ * Trim a raw response for use as evidence: the line a pattern matched (with the line after it),
+ * or the start of the response when there is no pattern or match. Blank lines are dropped.
+ *
+ * @param text Raw response text
+ * @param pattern The pattern that matched, if any
+ * @returns At most MAX_EXCERPT_LENGTH characters of the response
+ */
+export function excerptText(text: string, pattern?: RegExp): string {
+	const match = pattern
+		? new RegExp(pattern.source, pattern.flags.replace('g', '')).exec(text)
+		: null;
+	const start = match ? text.lastIndexOf('\n', match.index) + 1 : 0;
+	const lines = text
+		.slice(start)
+		.split(/\r?\n/)
+		.map((line) => line.trimEnd())
+		.filter((line) => line.trim() !== '')
+		.slice(0, match ? 2 : undefined)
+		.join('\n');
+	return lines.length > MAX_EXCERPT_LENGTH
+		? `${lines.slice(0, MAX_EXCERPT_LENGTH - 1)}…`
+		: lines;
+}
+
+/**
+ * Escape a field label for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Classify the text of a single WHOIS response with a rule.
+ *
+ * Checks run in order: rate limiting, reserved, registered (patterns and key fields), premium,
+ * available. A throttle notice wins over key fields, since throttled servers may still send a
+ * truncated record or an empty template; only a registered pattern overrides it. Premium comes
+ * after the registration checks because registered records may mention premium services.
+ *
+ * @param text Raw WHOIS response text
+ * @param key Rule key, used to describe which rule fired
+ * @param rule The rule to apply
+ * @returns The classification for this response
+ */
+export function classifyWhoisText(
+	text: string,
+	key: string,
+	rule: WhoisRule,
+): WhoisClassification {
+	const findPattern = (patterns?: RegExp[]) =>
+		patterns?.find((pattern) => pattern.test(text));
+
+	const keyField = rule.keyFields
+		?.map((field) => ({
+			field,
+			pattern: new RegExp(
+				`^\\s*${escapeRegExp(field)}\\s*:[ \\t]*\\S`,
+				'im',
+			),
+		}))
+		.find(({ pattern }) => pattern.test(text));
+
+	const registered = findPattern(rule.registered);
+	const rateLimited = findPattern(rule.rateLimited);
+	if (rateLimited && !registered) {
+		return {
+			verdict: 'rate-limited',
+			rule: `${key}.rateLimited ${rateLimited}`,
+			excerpt: excerptText(text, rateLimited),
+		};
+	}
+
+	const reserved = findPattern(rule.reserved);
+	if (reserved) {
+		return {
+			verdict: 'reserved',
+			rule: `${key}.reserved ${reserved}`,
+			excerpt: excerptText(text, reserved),
+		};
+	}
+
+	if (registered) {
+		return {
+			verdict: 'registered',
+			rule: `${key}.registered ${registered}`,
+			excerpt: excerptText(text, registered),
+		};
+	}
+	if (keyField) {
+		return {
+			verdict: 'registered',
+			rule: `${key}.keyFields ${keyField.field}`,
+			excerpt: excerptText(text, keyField.pattern),
+		};
+	}
+
+	const premium = findPattern(rule.premium);
+	if (premium) {
+		return {
+			verdict: 'premium',
+			rule: `${key}.premium ${premium}`,
+			excerpt: excerptText(text, premium),
+		};
+	}
+
+	const available = findPattern(rule.available);
+	if (available) {
+		return {
+			verdict: 'available',
+			rule: `${key}.available ${available}`,
+			excerpt: excerptText(text, available),
+		};
+	}
+
+	return { verdict: 'unknown' };
+}
+
+/**
+ * Classify the WHOIS responses for a domain. Responses are examined in follow-chain order
+ * (registry first) and the first decisive verdict wins.
+ *
+ * @param domain The domain name that was queried
+ * @param responses Raw responses from each server in the follow chain
+ * @returns The classification, including the rule that fired and the deciding server
+ */
+export function classifyWhoisResponse(
+	domain: string,
+	responses: WhoisServerResponse[],
+): WhoisClassification {
+	const { key, rule } = getRuleForDomain(domain);
+
+	for (const { server, text } of responses) {
+		if (!text.trim()) {
+			continue;
+		}
+		const classification = classifyWhoisText(text, key, rule);
+		if (classification.verdict !== 'unknown') {
+			return { ...classification, server };
+		}
+	}
+
+	return { verdict: 'unknown' };
+}